@@ -0,0 +1,286 @@
+/**
+ * Deprecated API analysis module
+ *
+ * The API server converts stored objects to the current version, so a plain
+ * `kubectl get` never shows the old apiVersion. The version a client actually
+ * wrote is still visible in the last-applied annotation and in managedFields,
+ * which is where manifests and charts that break on upgrade show up
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DeprecatedApi, DeprecatedApiHit, DeprecatedApiScan, DiagnosticIssue } from '../types.js';
+import { withRetry } from '../utils/retry.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+const LAST_APPLIED_ANNOTATION = 'kubectl.kubernetes.io/last-applied-configuration';
+
+/**
+ * Bundled deprecation table
+ *
+ * From the Kubernetes deprecated API migration guide
+ */
+export const DEPRECATED_APIS: DeprecatedApi[] = [
+    // Removed in 1.16
+    ...['DaemonSet', 'Deployment', 'ReplicaSet'].map(kind => ({ apiVersion: 'extensions/v1beta1', kind, deprecatedIn: '1.9', removedIn: '1.16', replacement: 'apps/v1', notes: 'spec.selector is required and immutable' })),
+    ...['Deployment', 'StatefulSet'].map(kind => ({ apiVersion: 'apps/v1beta1', kind, deprecatedIn: '1.9', removedIn: '1.16', replacement: 'apps/v1', notes: 'spec.selector is required and immutable' })),
+    ...['DaemonSet', 'Deployment', 'ReplicaSet', 'StatefulSet'].map(kind => ({ apiVersion: 'apps/v1beta2', kind, deprecatedIn: '1.9', removedIn: '1.16', replacement: 'apps/v1' })),
+    { apiVersion: 'extensions/v1beta1', kind: 'NetworkPolicy', deprecatedIn: '1.9', removedIn: '1.16', replacement: 'networking.k8s.io/v1' },
+    { apiVersion: 'extensions/v1beta1', kind: 'PodSecurityPolicy', deprecatedIn: '1.10', removedIn: '1.16', replacement: 'policy/v1beta1' },
+
+    // Removed in 1.22
+    ...['MutatingWebhookConfiguration', 'ValidatingWebhookConfiguration'].map(kind => ({ apiVersion: 'admissionregistration.k8s.io/v1beta1', kind, deprecatedIn: '1.16', removedIn: '1.22', replacement: 'admissionregistration.k8s.io/v1', notes: 'failurePolicy defaults to Fail, sideEffects and admissionReviewVersions are required' })),
+    { apiVersion: 'apiextensions.k8s.io/v1beta1', kind: 'CustomResourceDefinition', deprecatedIn: '1.16', removedIn: '1.22', replacement: 'apiextensions.k8s.io/v1', notes: 'A structural schema is required per version' },
+    { apiVersion: 'apiregistration.k8s.io/v1beta1', kind: 'APIService', deprecatedIn: '1.19', removedIn: '1.22', replacement: 'apiregistration.k8s.io/v1' },
+    { apiVersion: 'certificates.k8s.io/v1beta1', kind: 'CertificateSigningRequest', deprecatedIn: '1.19', removedIn: '1.22', replacement: 'certificates.k8s.io/v1', notes: 'spec.signerName is required' },
+    { apiVersion: 'coordination.k8s.io/v1beta1', kind: 'Lease', deprecatedIn: '1.19', removedIn: '1.22', replacement: 'coordination.k8s.io/v1' },
+    { apiVersion: 'extensions/v1beta1', kind: 'Ingress', deprecatedIn: '1.14', removedIn: '1.22', replacement: 'networking.k8s.io/v1', notes: 'pathType is required, backend.serviceName/servicePort become backend.service.name/port' },
+    { apiVersion: 'networking.k8s.io/v1beta1', kind: 'Ingress', deprecatedIn: '1.19', removedIn: '1.22', replacement: 'networking.k8s.io/v1', notes: 'pathType is required, backend.serviceName/servicePort become backend.service.name/port' },
+    { apiVersion: 'networking.k8s.io/v1beta1', kind: 'IngressClass', deprecatedIn: '1.19', removedIn: '1.22', replacement: 'networking.k8s.io/v1' },
+    ...['ClusterRole', 'ClusterRoleBinding', 'Role', 'RoleBinding'].map(kind => ({ apiVersion: 'rbac.authorization.k8s.io/v1beta1', kind, deprecatedIn: '1.17', removedIn: '1.22', replacement: 'rbac.authorization.k8s.io/v1' })),
+    { apiVersion: 'scheduling.k8s.io/v1beta1', kind: 'PriorityClass', deprecatedIn: '1.14', removedIn: '1.22', replacement: 'scheduling.k8s.io/v1' },
+    { apiVersion: 'storage.k8s.io/v1beta1', kind: 'CSINode', deprecatedIn: '1.17', removedIn: '1.22', replacement: 'storage.k8s.io/v1' },
+    ...['CSIDriver', 'StorageClass', 'VolumeAttachment'].map(kind => ({ apiVersion: 'storage.k8s.io/v1beta1', kind, deprecatedIn: '1.19', removedIn: '1.22', replacement: 'storage.k8s.io/v1' })),
+
+    // Removed in 1.25
+    { apiVersion: 'batch/v1beta1', kind: 'CronJob', deprecatedIn: '1.21', removedIn: '1.25', replacement: 'batch/v1' },
+    { apiVersion: 'discovery.k8s.io/v1beta1', kind: 'EndpointSlice', deprecatedIn: '1.21', removedIn: '1.25', replacement: 'discovery.k8s.io/v1', notes: 'topology is replaced by nodeName and zone' },
+    { apiVersion: 'events.k8s.io/v1beta1', kind: 'Event', deprecatedIn: '1.22', removedIn: '1.25', replacement: 'events.k8s.io/v1' },
+    { apiVersion: 'autoscaling/v2beta1', kind: 'HorizontalPodAutoscaler', deprecatedIn: '1.22', removedIn: '1.25', replacement: 'autoscaling/v2', notes: 'targetAverageUtilization becomes target.averageUtilization' },
+    { apiVersion: 'policy/v1beta1', kind: 'PodDisruptionBudget', deprecatedIn: '1.21', removedIn: '1.25', replacement: 'policy/v1', notes: 'An empty spec.selector now selects all pods in the namespace' },
+    { apiVersion: 'policy/v1beta1', kind: 'PodSecurityPolicy', deprecatedIn: '1.21', removedIn: '1.25', notes: 'No replacement - migrate to Pod Security Admission or a policy engine (Kyverno, Gatekeeper)' },
+    { apiVersion: 'node.k8s.io/v1beta1', kind: 'RuntimeClass', deprecatedIn: '1.20', removedIn: '1.25', replacement: 'node.k8s.io/v1' },
+
+    // Removed in 1.26
+    ...['FlowSchema', 'PriorityLevelConfiguration'].map(kind => ({ apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta1', kind, deprecatedIn: '1.23', removedIn: '1.26', replacement: 'flowcontrol.apiserver.k8s.io/v1beta3' })),
+    { apiVersion: 'autoscaling/v2beta2', kind: 'HorizontalPodAutoscaler', deprecatedIn: '1.23', removedIn: '1.26', replacement: 'autoscaling/v2' },
+
+    // Removed in 1.27
+    { apiVersion: 'storage.k8s.io/v1beta1', kind: 'CSIStorageCapacity', deprecatedIn: '1.24', removedIn: '1.27', replacement: 'storage.k8s.io/v1' },
+
+    // Removed in 1.29
+    ...['FlowSchema', 'PriorityLevelConfiguration'].map(kind => ({ apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta2', kind, deprecatedIn: '1.26', removedIn: '1.29', replacement: 'flowcontrol.apiserver.k8s.io/v1', notes: 'v1beta3 is available from 1.26, v1 from 1.29' })),
+
+    // Removed in 1.32
+    ...['FlowSchema', 'PriorityLevelConfiguration'].map(kind => ({ apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta3', kind, deprecatedIn: '1.29', removedIn: '1.32', replacement: 'flowcontrol.apiserver.k8s.io/v1' })),
+];
+
+/**
+ * Scan live objects for deprecated API versions
+ *
+ * @param targetVersion Version to check against, e.g. "1.32" (default: next minor of the API server)
+ */
+export async function scanDeprecatedApis(
+    versionApi: k8s.VersionApi,
+    apisApi: k8s.ApisApi,
+    objectApi: k8s.KubernetesObjectApi,
+    namespace?: string,
+    targetVersion?: string
+): Promise<DeprecatedApiScan> {
+    try {
+        console.error('[scanDeprecatedApis] Starting deprecated API scan');
+
+        const [version, groups] = await Promise.all([
+            withRetry(() => versionApi.getCode(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => apisApi.getAPIVersions(), { maxAttempts: 3, initialDelay: 500 }),
+        ]);
+
+        // GKE/EKS report minor versions like "29+"
+        const serverMinor = parseInt(version.minor);
+        const serverVersion = `${version.major}.${serverMinor}`;
+        const target = targetVersion ? parseMinor(targetVersion) : serverMinor + 1;
+        if (isNaN(target)) {
+            throw new Error(`Invalid target version "${targetVersion}" (expected e.g. 1.32)`);
+        }
+
+        // API discovery: served group versions and the preferred version per group
+        const served = new Set<string>();
+        const preferred = new Map<string, string>();
+        for (const group of groups.groups || []) {
+            for (const v of group.versions || []) served.add(v.groupVersion);
+            if (group.preferredVersion) preferred.set(group.name, group.preferredVersion.groupVersion);
+        }
+
+        const relevant = DEPRECATED_APIS.filter(api => parseMinor(api.deprecatedIn) <= target);
+        const servedDeprecated = [...new Set(relevant.map(api => api.apiVersion))].filter(v => served.has(v)).sort();
+
+        // List each kind once, through the preferred version of its (new) group
+        const listings = new Map<string, { apiVersion: string; kind: string; apis: DeprecatedApi[] }>();
+        for (const api of relevant) {
+            const group = groupOf(api.replacement || api.apiVersion);
+            const listVersion = preferred.get(group) || (served.has(api.apiVersion) ? api.apiVersion : undefined);
+            if (!listVersion) continue;
+
+            const key = `${listVersion}|${api.kind}`;
+            if (!listings.has(key)) listings.set(key, { apiVersion: listVersion, kind: api.kind, apis: [] });
+            listings.get(key)!.apis.push(api);
+        }
+
+        const hits: DeprecatedApiHit[] = [];
+        const skippedClusterScoped = new Set<string>();
+        for (const { apiVersion, kind, apis } of listings.values()) {
+            let objects: k8s.KubernetesObject[];
+            try {
+                const list = await withRetry(() => objectApi.list(apiVersion, kind, namespace), { maxAttempts: 2, initialDelay: 500 });
+                objects = list.items;
+            } catch (error: any) {
+                // Kind not served in this cluster (e.g. PodSecurityPolicy after 1.25) or no RBAC access
+                console.error(`[scanDeprecatedApis] Failed to list ${kind} (${apiVersion}) (non-fatal):`, error.message);
+                continue;
+            }
+
+            // Cluster-scoped kinds ignore the namespace and come back cluster-wide
+            if (namespace && objects.some(obj => !obj.metadata?.namespace)) {
+                skippedClusterScoped.add(kind);
+                continue;
+            }
+
+            for (const obj of objects) {
+                hits.push(...findDeprecatedVersions(obj, kind, apis, target));
+            }
+        }
+
+        const issues = buildIssues(hits);
+        const clusterScopedSkipped = [...skippedClusterScoped].sort();
+        const summary = generateDeprecatedApiSummary(serverVersion, `1.${target}`, hits, issues, clusterScopedSkipped);
+
+        return {
+            serverVersion,
+            targetVersion: `1.${target}`,
+            servedDeprecated,
+            hits,
+            clusterScopedSkipped,
+            issues,
+            summary,
+        };
+    } catch (error: any) {
+        console.error('[scanDeprecatedApis] Fatal error:', error);
+        throw new Error(`Deprecated API scan failed: ${error.message}`);
+    }
+}
+
+/**
+ * Find deprecated apiVersions a live object was written with
+ */
+function findDeprecatedVersions(
+    obj: k8s.KubernetesObject,
+    kind: string,
+    apis: DeprecatedApi[],
+    target: number
+): DeprecatedApiHit[] {
+    // apiVersion -> where it was seen
+    const used = new Map<string, string[]>();
+    const addSource = (apiVersion: string | undefined, source: string) => {
+        if (!apiVersion) return;
+        if (!used.has(apiVersion)) used.set(apiVersion, []);
+        used.get(apiVersion)!.push(source);
+    };
+
+    const lastApplied = obj.metadata?.annotations?.[LAST_APPLIED_ANNOTATION];
+    if (lastApplied) {
+        try {
+            addSource(JSON.parse(lastApplied).apiVersion, 'last-applied');
+        } catch {
+            // Truncated or hand-edited annotation
+        }
+    }
+    for (const entry of obj.metadata?.managedFields || []) {
+        addSource(entry.apiVersion, `managedFields (${entry.manager || 'unknown'})`);
+    }
+
+    const hits: DeprecatedApiHit[] = [];
+    for (const api of apis) {
+        const sources = used.get(api.apiVersion);
+        if (!sources) continue;
+        hits.push({
+            kind,
+            name: obj.metadata?.name || 'unknown',
+            namespace: obj.metadata?.namespace || '',
+            source: [...new Set(sources)].join(', '),
+            removed: parseMinor(api.removedIn) <= target,
+            api,
+        });
+    }
+    return hits;
+}
+
+/**
+ * One issue per deprecated apiVersion/kind
+ */
+function buildIssues(hits: DeprecatedApiHit[]): DiagnosticIssue[] {
+    const byApi = new Map<DeprecatedApi, DeprecatedApiHit[]>();
+    for (const hit of hits) {
+        if (!byApi.has(hit.api)) byApi.set(hit.api, []);
+        byApi.get(hit.api)!.push(hit);
+    }
+
+    const issues: DiagnosticIssue[] = [];
+    for (const [api, apiHits] of byApi) {
+        const removed = apiHits[0].removed;
+        const first = apiHits[0];
+        const migrate = api.replacement
+            ? `Change \`apiVersion: ${api.apiVersion}\` to \`apiVersion: ${api.replacement}\` in manifests, charts and operators:\n` +
+              `\`\`\`bash\n# kubectl-convert plugin\nkubectl convert -f manifest.yaml --output-version ${api.replacement}\n` +
+              `# Helm releases whose stored manifests use removed APIs\nhelm mapkubeapis <release> -n <namespace>\n\`\`\``
+            : 'The API has no direct replacement.';
+
+        issues.push({
+            type: removed ? 'Removed API In Use' : 'Deprecated API In Use',
+            severity: removed ? 'critical' : 'medium',
+            message: `${apiHits.length} ${api.kind} object(s) written with ${api.apiVersion} (${removed ? `removed in ${api.removedIn}` : `deprecated in ${api.deprecatedIn}, removed in ${api.removedIn}`})`,
+            rootCause: removed
+                ? `Manifests or controllers still send ${api.apiVersion}. The live objects keep working, but applying them again fails once the API server no longer serves this version`
+                : `${api.apiVersion} still works but is scheduled for removal in ${api.removedIn}`,
+            solution: migrate + (api.notes ? `\n\n**Note**: ${api.notes}` : ''),
+            resource: {
+                kind: api.kind,
+                name: first.name,
+                namespace: first.namespace,
+            },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // Removed first
+    return issues.sort((a, b) => (a.severity === 'critical' ? 0 : 1) - (b.severity === 'critical' ? 0 : 1));
+}
+
+/**
+ * Generate scan summary
+ */
+function generateDeprecatedApiSummary(
+    serverVersion: string,
+    targetVersion: string,
+    hits: DeprecatedApiHit[],
+    issues: DiagnosticIssue[],
+    clusterScopedSkipped: string[]
+): string {
+    let summary = `Scanned for APIs deprecated or removed by ${targetVersion} (server: ${serverVersion}).\n`;
+    summary += `Objects written with deprecated APIs: ${hits.length} (${hits.filter(h => h.removed).length} removed by ${targetVersion})\n`;
+    if (clusterScopedSkipped.length > 0) {
+        summary += `Cluster-scoped kinds not checked in namespace scope: ${clusterScopedSkipped.join(', ')}\n`;
+    }
+    summary += '\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * "1.25" or "v1.25.3" -> 25
+ */
+function parseMinor(version: string): number {
+    const match = version.trim().match(/^v?1\.(\d+)/);
+    return match ? parseInt(match[1]) : NaN;
+}
+
+/**
+ * "networking.k8s.io/v1" -> "networking.k8s.io"
+ */
+function groupOf(apiVersion: string): string {
+    return apiVersion.includes('/') ? apiVersion.split('/')[0] : '';
+}
@@ -299,7 +299,7 @@ function detectErrorPatterns(lines: string[]): ErrorPattern[] {
                 'CA bundle missing',
             ],
             solutions: [
-                'Renew certificate',
+                'Run scan-certificates to find the expired, mismatched or incomplete certificate, then renew it',
                 'Verify tls.crt, tls.key Secret',
                 'NODE_TLS_REJECT_UNAUTHORIZED=0 (development only)',
             ],
@@ -0,0 +1,367 @@
+/**
+ * NetworkPolicy analysis module
+ *
+ * Answers "can pod A talk to pod B on port P?" offline,
+ * by evaluating NetworkPolicy objects instead of probing the network
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import { BlockList, isIP } from 'node:net';
+import type { DiagnosticIssue, PolicyVerdict, ReachabilityAnalysis } from '../types.js';
+import { withRetry } from '../utils/retry.js';
+import { matchesLabelSelector } from '../utils/selectors.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/**
+ * Analyze pod-to-pod reachability
+ *
+ * Egress policies of the source namespace and ingress policies of the
+ * destination namespace must both allow the traffic
+ */
+export async function analyzeReachability(
+    networkingApi: k8s.NetworkingV1Api,
+    coreApi: k8s.CoreV1Api,
+    sourceNamespace: string,
+    sourcePodName: string,
+    destinationNamespace: string,
+    destinationPodName: string,
+    port: number,
+    protocol: string = 'TCP'
+): Promise<ReachabilityAnalysis> {
+    try {
+        console.error(`[analyzeReachability] ${sourceNamespace}/${sourcePodName} -> ${destinationNamespace}/${destinationPodName}:${port}/${protocol}`);
+
+        const [sourcePod, destinationPod] = await Promise.all([
+            withRetry(() => coreApi.readNamespacedPod({ name: sourcePodName, namespace: sourceNamespace }), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => coreApi.readNamespacedPod({ name: destinationPodName, namespace: destinationNamespace }), { maxAttempts: 3, initialDelay: 500 }),
+        ]);
+
+        const [sourceNs, destinationNs, sourcePolicies, destinationPolicies] = await Promise.all([
+            readNamespace(coreApi, sourceNamespace),
+            readNamespace(coreApi, destinationNamespace),
+            withRetry(() => networkingApi.listNamespacedNetworkPolicy({ namespace: sourceNamespace }), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => networkingApi.listNamespacedNetworkPolicy({ namespace: destinationNamespace }), { maxAttempts: 3, initialDelay: 500 }),
+        ]);
+
+        const egress = evaluatePolicies(
+            'Egress', sourcePolicies.items, sourcePod, destinationPod, destinationNs, destinationPod, port, protocol
+        );
+        const ingress = evaluatePolicies(
+            'Ingress', destinationPolicies.items, destinationPod, sourcePod, sourceNs, destinationPod, port, protocol
+        );
+
+        const networkPolicyIssues = detectPolicyIssues(
+            egress, ingress, sourcePod, destinationPod, sourcePolicies.items, port, protocol
+        );
+
+        const allowed = egress.allowed && ingress.allowed;
+
+        return {
+            source: { pod: sourcePodName, namespace: sourceNamespace, ip: sourcePod.status?.podIP },
+            destination: { pod: destinationPodName, namespace: destinationNamespace, ip: destinationPod.status?.podIP },
+            port,
+            protocol,
+            allowed,
+            egress,
+            ingress,
+            networkDiagnostics: {
+                serviceConnectivity: [],
+                serviceIssues: [],
+                dnsIssues: [],
+                networkPolicyIssues,
+                ingressIssues: [],
+                summary: generateReachabilitySummary(allowed, egress, ingress, networkPolicyIssues),
+            },
+        };
+    } catch (error: any) {
+        console.error(`[analyzeReachability] Fatal error:`, error);
+        throw new Error(`NetworkPolicy analysis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Evaluate NetworkPolicies of one direction
+ *
+ * @param policies Policies in the subject pod's namespace
+ * @param subject Pod the policies apply to (source for egress, destination for ingress)
+ * @param peer Pod on the other end
+ * @param peerNamespace Namespace of the peer (for namespaceSelector)
+ * @param destination Destination pod (named ports are resolved against it)
+ */
+export function evaluatePolicies(
+    direction: 'Ingress' | 'Egress',
+    policies: k8s.V1NetworkPolicy[],
+    subject: k8s.V1Pod,
+    peer: k8s.V1Pod,
+    peerNamespace: k8s.V1Namespace,
+    destination: k8s.V1Pod,
+    port: number,
+    protocol: string
+): PolicyVerdict {
+    const verdict: PolicyVerdict = { direction, isolated: false, allowed: true, policies: [] };
+
+    // hostNetwork pods are not subject to NetworkPolicy
+    if (subject.spec?.hostNetwork) {
+        return verdict;
+    }
+
+    for (const policy of policies) {
+        if (!getPolicyTypes(policy).includes(direction)) continue;
+        if (!matchesLabelSelector(policy.spec?.podSelector, subject.metadata?.labels)) continue;
+
+        verdict.isolated = true;
+
+        const rules = (direction === 'Ingress' ? policy.spec?.ingress : policy.spec?.egress) || [];
+        let reason = rules.length === 0
+            ? `default-deny: selects the pod with no ${direction.toLowerCase()} rules`
+            : `none of ${rules.length} rule(s) match`;
+        let allows = false;
+
+        for (let i = 0; i < rules.length; i++) {
+            const peers = direction === 'Ingress'
+                ? (rules[i] as k8s.V1NetworkPolicyIngressRule)._from
+                : (rules[i] as k8s.V1NetworkPolicyEgressRule).to;
+
+            const matchedPeer = !peers || peers.length === 0
+                ? 'any peer'
+                : peers.map(p => matchPeer(p, policy.metadata?.namespace, peer, peerNamespace)).find(Boolean);
+
+            if (!matchedPeer) continue;
+
+            if (!matchesPorts(rules[i].ports, port, protocol, destination)) {
+                reason = `rule #${i + 1} matches ${matchedPeer} but not port ${port}/${protocol}`;
+                continue;
+            }
+
+            allows = true;
+            reason = `rule #${i + 1} allows ${matchedPeer}`;
+            break;
+        }
+
+        verdict.policies.push({
+            name: policy.metadata?.name || 'unknown',
+            namespace: policy.metadata?.namespace || '',
+            allows,
+            reason,
+        });
+    }
+
+    // Policies are additive: any selecting policy allowing the traffic is enough
+    verdict.allowed = !verdict.isolated || verdict.policies.some(p => p.allows);
+
+    return verdict;
+}
+
+/**
+ * Detect policy issues
+ */
+function detectPolicyIssues(
+    egress: PolicyVerdict,
+    ingress: PolicyVerdict,
+    sourcePod: k8s.V1Pod,
+    destinationPod: k8s.V1Pod,
+    sourcePolicies: k8s.V1NetworkPolicy[],
+    port: number,
+    protocol: string
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const sourceName = sourcePod.metadata?.name || 'unknown';
+    const sourceNamespace = sourcePod.metadata?.namespace || 'default';
+    const destinationName = destinationPod.metadata?.name || 'unknown';
+    const destinationNamespace = destinationPod.metadata?.namespace || 'default';
+    const route = `${sourceNamespace}/${sourceName} -> ${destinationNamespace}/${destinationName}:${port}/${protocol}`;
+
+    // 1. Ingress denied on destination
+    if (!ingress.allowed) {
+        issues.push({
+            type: 'NetworkPolicy Denies Ingress',
+            severity: 'high',
+            message: `Ingress to ${destinationName} is denied for ${route}`,
+            rootCause: formatDenials(ingress),
+            solution: `Allow the source in a policy selecting the destination:\n\`\`\`yaml\napiVersion: networking.k8s.io/v1\nkind: NetworkPolicy\nmetadata:\n  name: allow-from-${sourceName.slice(0, 40)}\n  namespace: ${destinationNamespace}\nspec:\n  podSelector:\n    matchLabels:\n${formatLabels(destinationPod.metadata?.labels, 6)}\n  policyTypes: [Ingress]\n  ingress:\n  - from:\n    - namespaceSelector:\n        matchLabels:\n          kubernetes.io/metadata.name: ${sourceNamespace}\n      podSelector:\n        matchLabels:\n${formatLabels(sourcePod.metadata?.labels, 10)}\n    ports:\n    - port: ${port}\n      protocol: ${protocol}\n\`\`\``,
+            resource: { kind: 'Pod', name: destinationName, namespace: destinationNamespace },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 2. Egress denied on source
+    if (!egress.allowed) {
+        issues.push({
+            type: 'NetworkPolicy Denies Egress',
+            severity: 'high',
+            message: `Egress from ${sourceName} is denied for ${route}`,
+            rootCause: formatDenials(egress),
+            solution: `Allow the destination in a policy selecting the source:\n\`\`\`yaml\napiVersion: networking.k8s.io/v1\nkind: NetworkPolicy\nmetadata:\n  name: allow-to-${destinationName.slice(0, 40)}\n  namespace: ${sourceNamespace}\nspec:\n  podSelector:\n    matchLabels:\n${formatLabels(sourcePod.metadata?.labels, 6)}\n  policyTypes: [Egress]\n  egress:\n  - to:\n    - namespaceSelector:\n        matchLabels:\n          kubernetes.io/metadata.name: ${destinationNamespace}\n      podSelector:\n        matchLabels:\n${formatLabels(destinationPod.metadata?.labels, 10)}\n    ports:\n    - port: ${port}\n      protocol: ${protocol}\n\`\`\``,
+            resource: { kind: 'Pod', name: sourceName, namespace: sourceNamespace },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 3. Egress isolation without DNS (classic pitfall: everything fails with name resolution errors)
+    if (egress.isolated) {
+        const selecting = sourcePolicies.filter(p =>
+            getPolicyTypes(p).includes('Egress') &&
+            matchesLabelSelector(p.spec?.podSelector, sourcePod.metadata?.labels)
+        );
+        const dnsAllowed = selecting.some(p => (p.spec?.egress || []).some(rule =>
+            !rule.ports || rule.ports.length === 0 ||
+            rule.ports.some(rp => (rp.protocol || 'TCP') === 'UDP' && (rp.port === undefined || rp.port === 53 || rp.port === 'dns'))
+        ));
+
+        if (!dnsAllowed) {
+            issues.push({
+                type: 'Egress Policy Blocks DNS',
+                severity: 'medium',
+                message: `Egress policies selecting ${sourceName} do not allow UDP/53`,
+                rootCause: 'Pod cannot resolve service names even when the target itself is allowed',
+                solution: `Allow DNS to kube-system:\n\`\`\`yaml\negress:\n- to:\n  - namespaceSelector:\n      matchLabels:\n        kubernetes.io/metadata.name: kube-system\n    podSelector:\n      matchLabels:\n        k8s-app: kube-dns\n  ports:\n  - port: 53\n    protocol: UDP\n  - port: 53\n    protocol: TCP\n\`\`\``,
+                resource: { kind: 'Pod', name: sourceName, namespace: sourceNamespace },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Generate reachability summary
+ */
+function generateReachabilitySummary(
+    allowed: boolean,
+    egress: PolicyVerdict,
+    ingress: PolicyVerdict,
+    issues: DiagnosticIssue[]
+): string {
+    let summary = allowed ? '✅ Traffic is ALLOWED by NetworkPolicy\n' : '🚫 Traffic is DENIED by NetworkPolicy\n';
+    summary += `  - Egress (source): ${describeVerdict(egress)}\n`;
+    summary += `  - Ingress (destination): ${describeVerdict(ingress)}\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Effective policyTypes
+ *
+ * Defaults to Ingress, plus Egress when egress rules are present
+ */
+function getPolicyTypes(policy: k8s.V1NetworkPolicy): string[] {
+    if (policy.spec?.policyTypes && policy.spec.policyTypes.length > 0) {
+        return policy.spec.policyTypes;
+    }
+    return policy.spec?.egress ? ['Ingress', 'Egress'] : ['Ingress'];
+}
+
+/**
+ * Match a single peer, returning a description of what matched
+ */
+function matchPeer(
+    peer: k8s.V1NetworkPolicyPeer,
+    policyNamespace: string | undefined,
+    pod: k8s.V1Pod,
+    namespace: k8s.V1Namespace
+): string | undefined {
+    if (peer.ipBlock) {
+        const ip = pod.status?.podIP;
+        if (!ip || !ipInCidr(ip, peer.ipBlock.cidr)) return undefined;
+        if ((peer.ipBlock.except || []).some(cidr => ipInCidr(ip, cidr))) return undefined;
+        return `ipBlock ${peer.ipBlock.cidr}`;
+    }
+
+    // Without namespaceSelector, podSelector only applies to the policy's own namespace
+    const namespaceOk = peer.namespaceSelector
+        ? matchesLabelSelector(peer.namespaceSelector, namespace.metadata?.labels)
+        : pod.metadata?.namespace === policyNamespace;
+    const podOk = matchesLabelSelector(peer.podSelector, pod.metadata?.labels);
+
+    if (!namespaceOk || !podOk) return undefined;
+
+    const parts: string[] = [];
+    if (peer.namespaceSelector) parts.push(`namespaceSelector ${describeSelector(peer.namespaceSelector)}`);
+    if (peer.podSelector) parts.push(`podSelector ${describeSelector(peer.podSelector)}`);
+    return parts.join(' + ');
+}
+
+/**
+ * Match rule ports
+ *
+ * Named ports are resolved against the destination pod's container ports
+ */
+function matchesPorts(
+    ports: k8s.V1NetworkPolicyPort[] | undefined,
+    port: number,
+    protocol: string,
+    destination: k8s.V1Pod
+): boolean {
+    if (!ports || ports.length === 0) return true;
+
+    return ports.some(rulePort => {
+        if ((rulePort.protocol || 'TCP') !== protocol) return false;
+        if (rulePort.port === undefined) return true;
+
+        if (typeof rulePort.port === 'number') {
+            return rulePort.endPort
+                ? port >= rulePort.port && port <= rulePort.endPort
+                : port === rulePort.port;
+        }
+
+        return (destination.spec?.containers || []).some(c => (c.ports || []).some(cp =>
+            cp.name === rulePort.port && cp.containerPort === port && (cp.protocol || 'TCP') === protocol
+        ));
+    });
+}
+
+function ipInCidr(ip: string, cidr: string): boolean {
+    const [address, prefix] = cidr.split('/');
+    const family = isIP(address);
+    if (family === 0 || isIP(ip) !== family) return false;
+
+    const type = family === 4 ? 'ipv4' : 'ipv6';
+    const list = new BlockList();
+    list.addSubnet(address, prefix !== undefined ? parseInt(prefix) : (family === 4 ? 32 : 128), type);
+    return list.check(ip, type);
+}
+
+async function readNamespace(coreApi: k8s.CoreV1Api, name: string): Promise<k8s.V1Namespace> {
+    try {
+        return await coreApi.readNamespace({ name });
+    } catch (error: any) {
+        // Reading namespaces may be forbidden; the name label is always set since 1.21
+        console.error(`[readNamespace] Failed to read namespace ${name} (non-fatal):`, error.message);
+        return { metadata: { name, labels: { 'kubernetes.io/metadata.name': name } } };
+    }
+}
+
+function describeSelector(selector: k8s.V1LabelSelector): string {
+    const parts = Object.entries(selector.matchLabels || {}).map(([k, v]) => `${k}=${v}`);
+    for (const expr of selector.matchExpressions || []) {
+        parts.push(`${expr.key} ${expr.operator}${expr.values ? ` (${expr.values.join(',')})` : ''}`);
+    }
+    return parts.length > 0 ? parts.join(',') : '{} (all)';
+}
+
+function describeVerdict(verdict: PolicyVerdict): string {
+    if (!verdict.isolated) return 'not isolated (no policy selects the pod)';
+    const allowing = verdict.policies.filter(p => p.allows).map(p => p.name);
+    return verdict.allowed
+        ? `allowed by ${allowing.join(', ')}`
+        : `denied (${verdict.policies.length} selecting policy(ies), none allow)`;
+}
+
+function formatDenials(verdict: PolicyVerdict): string {
+    return `Pod is isolated for ${verdict.direction.toLowerCase()} and no selecting policy allows it: ` +
+        verdict.policies.map(p => `${p.namespace}/${p.name} (${p.reason})`).join('; ');
+}
+
+function formatLabels(labels: Record<string, string> | undefined, indent: number): string {
+    const entries = Object.entries(labels || {})
+        .filter(([key]) => key !== 'pod-template-hash' && key !== 'controller-revision-hash');
+    if (entries.length === 0) return `${' '.repeat(indent)}{}`;
+    return entries.map(([k, v]) => `${' '.repeat(indent)}${k}: ${v}`).join('\n');
+}
@@ -0,0 +1,314 @@
+/**
+ * Restart attribution module
+ *
+ * Exit code 137 alone can be an OOM kill, a liveness probe kill, an eviction
+ * or a preemption. Combines the termination state, pod and node events and
+ * their timestamps to give every restart one cause with a confidence level
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { K8sEvent, RestartAttribution, RestartCause } from '../types.js';
+import { eventContainer, parseProbeFailure } from '../diagnostics/probe-diagnostics.js';
+
+/** Events this close to a termination (plus the grace period) are considered related */
+const MATCH_WINDOW_MS = 60_000;
+
+/** Pod DisruptionTarget condition reasons (Kubernetes 1.26+) */
+const DISRUPTION_REASONS: Record<string, RestartCause> = {
+    PreemptionByScheduler: 'Preemption',
+    PreemptionByKubeScheduler: 'Preemption',
+    EvictionByEvictionAPI: 'Eviction',
+    DeletionByTaintManager: 'Eviction',
+    TerminationByKubelet: 'Eviction',
+};
+
+const CAUSE_LABELS: Record<RestartCause, string> = {
+    OOMKilled: 'OOM kill (container memory limit)',
+    NodeOOM: 'Node out of memory',
+    LivenessProbe: 'Liveness probe kill',
+    StartupProbe: 'Startup probe kill',
+    Eviction: 'Eviction',
+    Preemption: 'Preemption',
+    SpecChange: 'Container spec changed',
+    ApplicationError: 'Application error',
+    Completed: 'Exited normally',
+    ExternalKill: 'Killed externally',
+    Unknown: 'Unknown',
+};
+
+/**
+ * Attribute every restart (and the current termination) of every container
+ *
+ * @param podEvents Events of the pod
+ * @param nodeEvents Events of the node the pod runs on (OOMKilling, SystemOOM)
+ * @returns Per container, most recent first
+ */
+export function attributeRestarts(pod: k8s.V1Pod, podEvents: K8sEvent[], nodeEvents: K8sEvent[]): RestartAttribution[] {
+    const attributions: RestartAttribution[] = [];
+    const statuses = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])];
+
+    for (const status of statuses) {
+        attributions.push(...attributeContainer(pod, status, podEvents, nodeEvents));
+    }
+
+    return attributions;
+}
+
+/**
+ * e.g. "Liveness probe kill"
+ */
+export function getRestartCauseLabel(cause: RestartCause): string {
+    return CAUSE_LABELS[cause];
+}
+
+/**
+ * Root cause and solution for an attributed cause
+ *
+ * ApplicationError and Completed are better explained by the exit code itself
+ */
+export function explainRestartCause(
+    attribution: RestartAttribution,
+    podName: string,
+    namespace: string
+): { rootCause: string; solution: string } {
+    const { cause, container } = attribution;
+    switch (cause) {
+        case 'OOMKilled':
+            return {
+                rootCause: 'OOM kill - the container exceeded its memory limit',
+                solution: 'Increase memory limit or optimize application memory usage\n```yaml\nresources:\n  limits:\n    memory: "512Mi"  # Set higher than current\n```',
+            };
+        case 'NodeOOM':
+            return {
+                rootCause: 'The node ran out of memory and the kernel OOM killer picked this container - not its own limit',
+                solution: `Set memory requests close to real usage (and limits) on all pods of the node, and reserve memory for system daemons:\n\`\`\`bash\nkubectl top pods -A --sort-by=memory\nkubectl describe node $(kubectl get pod ${podName} -n ${namespace} -o jsonpath='{.spec.nodeName}')\n\`\`\``,
+            };
+        case 'LivenessProbe':
+        case 'StartupProbe':
+            return {
+                rootCause: `The kubelet killed the container because its ${cause === 'LivenessProbe' ? 'liveness' : 'startup'} probe kept failing - the exit code is only the kill signal, not a crash or OOM`,
+                solution: 'Do not raise memory for this. Run diagnose-pod for the probe analysis and fix the probe (timeout, port, path, startupProbe for slow starts) or the health endpoint',
+            };
+        case 'Eviction':
+            return {
+                rootCause: 'The pod was evicted (node pressure, drain or taint) - the container was stopped from outside',
+                solution: `Check the eviction reason and the node:\n\`\`\`bash\nkubectl get pod ${podName} -n ${namespace} -o jsonpath='{.status.reason}: {.status.message}'\nkubectl get events -n ${namespace} --field-selector reason=Evicted\n\`\`\`\nSet requests close to real usage so pods are not first in line for node-pressure eviction`,
+            };
+        case 'Preemption':
+            return {
+                rootCause: 'The scheduler preempted the pod to make room for a higher-priority pod',
+                solution: 'Give the workload a higher PriorityClass, or add capacity so preemption is not needed:\n```bash\nkubectl get priorityclass\n```',
+            };
+        case 'SpecChange':
+            return {
+                rootCause: 'The container definition changed (e.g. image update of a static or patched pod) and the kubelet restarted it',
+                solution: 'Expected after a spec change - no action needed unless the changes are unintended',
+            };
+        case 'ExternalKill':
+            return {
+                rootCause: 'Killed by a signal with no OOM, probe, eviction or preemption record - killed from outside (kubectl exec kill, runtime) or by an OOM the runtime did not report. Matching events may have expired',
+                solution: `Do not raise memory blindly. Check the node kernel log and the runtime around the termination time:\n\`\`\`bash\nkubectl get pod ${podName} -n ${namespace} -o jsonpath='{.status.containerStatuses[?(@.name=="${container}")].lastState}'\njournalctl -k | grep -i -E 'oom|killed process'\n\`\`\``,
+            };
+        default:
+            return {
+                rootCause: 'No termination details recorded',
+                solution: `\`\`\`bash\nkubectl describe pod ${podName} -n ${namespace}\n\`\`\``,
+            };
+    }
+}
+
+/**
+ * Attributions of one container
+ */
+function attributeContainer(
+    pod: k8s.V1Pod,
+    status: k8s.V1ContainerStatus,
+    podEvents: K8sEvent[],
+    nodeEvents: K8sEvent[]
+): RestartAttribution[] {
+    const attributions: RestartAttribution[] = [];
+    const container = status.name;
+    const events = podEvents.filter(e => eventContainer(pod, e) === container);
+    const restartCount = status.restartCount || 0;
+
+    // Current termination (pod evicted / preempted / completed)
+    if (status.state?.terminated) {
+        attributions.push({ ...classifyTermination(pod, status.state.terminated, container, events, podEvents, nodeEvents, true), count: 1 });
+    }
+
+    if (restartCount === 0) {
+        return attributions;
+    }
+
+    // Most recent restart: full termination details available
+    const last = status.lastState?.terminated;
+    const latest = last
+        ? { ...classifyTermination(pod, last, container, events, podEvents, nodeEvents, false), count: 1 }
+        : undefined;
+    if (latest) attributions.push(latest);
+
+    // Older restarts: only events are left
+    let remaining = restartCount - (latest ? 1 : 0);
+    for (const cause of ['LivenessProbe', 'StartupProbe', 'SpecChange'] as RestartCause[]) {
+        const kills = events.filter(e => killEventCause(e) === cause);
+        const total = kills.reduce((sum, e) => sum + e.count, 0) - (latest?.cause === cause ? 1 : 0);
+        const count = Math.min(remaining, total);
+        if (count <= 0) continue;
+
+        attributions.push({
+            container,
+            cause,
+            confidence: 'high',
+            count,
+            time: eventTime(kills[0]),
+            evidence: [`Killing: ${kills[0].message}${total > 1 ? ` (x${total})` : ''}`],
+        });
+        remaining -= count;
+    }
+
+    if (remaining > 0) {
+        attributions.push({
+            container,
+            cause: latest?.cause || 'Unknown',
+            confidence: 'low',
+            count: remaining,
+            evidence: [latest
+                ? 'No events left for older restarts (events expire after ~1h) - assuming the same cause as the most recent restart'
+                : 'No termination state or events recorded'],
+        });
+    }
+
+    return attributions;
+}
+
+/**
+ * Classify one termination from its state and nearby events
+ */
+function classifyTermination(
+    pod: k8s.V1Pod,
+    terminated: k8s.V1ContainerStateTerminated,
+    container: string,
+    containerEvents: K8sEvent[],
+    podEvents: K8sEvent[],
+    nodeEvents: K8sEvent[],
+    final: boolean
+): Omit<RestartAttribution, 'count'> {
+    const exitCode = terminated.exitCode;
+    const finishedAt = terminated.finishedAt ? new Date(terminated.finishedAt).getTime() : undefined;
+    const windowMs = MATCH_WINDOW_MS + (pod.spec?.terminationGracePeriodSeconds ?? 30) * 1000;
+    const near = (e: K8sEvent) => finishedAt !== undefined && isNear(e, finishedAt, windowMs);
+    const result = (cause: RestartCause, confidence: RestartAttribution['confidence'], evidence: string[]) => ({
+        container,
+        cause,
+        confidence,
+        exitCode,
+        time: finishedAt !== undefined ? new Date(finishedAt).toISOString() : undefined,
+        evidence: [`exit code ${exitCode}${terminated.reason ? ` (${terminated.reason})` : ''}`, ...evidence],
+    });
+
+    // 1. Pod-level disruption - ends the pod, so only for the current termination
+    if (final) {
+        const disruption = pod.status?.conditions?.find(c => c.type === 'DisruptionTarget' && c.status === 'True');
+        if (disruption?.reason && DISRUPTION_REASONS[disruption.reason]) {
+            return result(DISRUPTION_REASONS[disruption.reason], 'high', [`DisruptionTarget: ${disruption.reason}${disruption.message ? ` - ${disruption.message}` : ''}`]);
+        }
+        const preempted = podEvents.find(e => e.reason === 'Preempted');
+        if (preempted) {
+            return result('Preemption', 'high', [`Preempted: ${preempted.message}`]);
+        }
+        const evicted = podEvents.find(e => e.reason === 'Evicted' || e.reason === 'TaintManagerEviction');
+        if (pod.status?.reason === 'Evicted' || evicted) {
+            return result('Eviction', 'high', [evicted ? `${evicted.reason}: ${evicted.message}` : `Pod status: Evicted - ${pod.status?.message || ''}`]);
+        }
+    }
+
+    // 2. OOM - container limit vs node-wide
+    const systemOOM = nodeEvents.find(e => isNodeOOMEvent(e) && !/memory cgroup/i.test(e.message) && near(e));
+    if (terminated.reason === 'OOMKilled') {
+        const spec = [...(pod.spec?.initContainers || []), ...(pod.spec?.containers || [])].find(c => c.name === container);
+        const limit = spec?.resources?.limits?.memory;
+        if (systemOOM) {
+            return result('NodeOOM', 'high', [`Node ${systemOOM.reason}: ${systemOOM.message}`]);
+        }
+        if (!limit) {
+            return result('NodeOOM', 'medium', ['No memory limit set - the OOM kill came from node memory pressure, not a container limit']);
+        }
+        return result('OOMKilled', 'high', [`Memory limit: ${limit}`]);
+    }
+
+    // 3. Probe / spec change kills by the kubelet
+    const kills = containerEvents.filter(e => killEventCause(e) !== undefined);
+    const matched = kills.find(near);
+    if (matched) {
+        const cause = killEventCause(matched)!;
+        return result(cause, 'high', [`Killing: ${matched.message}`, ...probeFailureEvidence(containerEvents, cause)]);
+    }
+    const probeKill = kills.find(e => killEventCause(e) !== 'SpecChange');
+    if (probeKill && (exitCode === 137 || exitCode === 143)) {
+        // Event timestamps don't line up (aggregated or clock skew) but the kill signal fits
+        const cause = killEventCause(probeKill)!;
+        return result(cause, 'medium', [`Killing: ${probeKill.message} (not at the termination time)`, ...probeFailureEvidence(containerEvents, cause)]);
+    }
+
+    // 4. Exit code
+    if (exitCode === 0) {
+        return result('Completed', 'high', ['The process exited normally and the restart policy restarted it']);
+    }
+    if (exitCode === 137 || exitCode === 143) {
+        const nodeOOM = nodeEvents.find(e => isNodeOOMEvent(e) && near(e));
+        if (exitCode === 137 && nodeOOM) {
+            return result('NodeOOM', 'medium', [`Node ${nodeOOM.reason}: ${nodeOOM.message}`, 'Runtime did not report OOMKilled']);
+        }
+        return result('ExternalKill', 'low', [`${exitCode === 137 ? 'SIGKILL' : 'SIGTERM'} without OOMKilled, probe, eviction or preemption signals`]);
+    }
+    return result('ApplicationError', 'high', ['Non-signal exit code - set by the application itself']);
+}
+
+// ===== Helper functions =====
+
+/**
+ * Cause of a kubelet "Killing" event, if it restarts the container
+ */
+function killEventCause(event: K8sEvent): RestartCause | undefined {
+    if (event.reason !== 'Killing') return undefined;
+    if (/failed liveness probe/i.test(event.message)) return 'LivenessProbe';
+    if (/failed startup probe/i.test(event.message)) return 'StartupProbe';
+    if (/definition changed/i.test(event.message)) return 'SpecChange';
+    return undefined;
+}
+
+/**
+ * Parsed probe failures backing a probe kill
+ */
+function probeFailureEvidence(events: K8sEvent[], cause: RestartCause): string[] {
+    const kind = cause === 'LivenessProbe' ? 'Liveness' : cause === 'StartupProbe' ? 'Startup' : undefined;
+    if (!kind) return [];
+
+    const causes = new Set(events
+        .filter(e => e.reason === 'Unhealthy')
+        .map(e => parseProbeFailure(e.message))
+        .filter(f => f?.probe === kind)
+        .map(f => f!.cause));
+    return causes.size > 0 ? [`${kind} probe failures: ${[...causes].join(', ')}`] : [];
+}
+
+function isNodeOOMEvent(event: K8sEvent): boolean {
+    return event.reason === 'OOMKilling' || event.reason === 'SystemOOM';
+}
+
+/**
+ * Whether an (aggregated) event happened around a given time
+ */
+function isNear(event: K8sEvent, time: number, windowMs: number): boolean {
+    const last = new Date(event.lastTimestamp).getTime();
+    const first = event.firstTimestamp ? new Date(event.firstTimestamp).getTime() : last;
+    if (isNaN(last)) return false;
+    return time >= first - windowMs && time <= last + windowMs;
+}
+
+function eventTime(event: K8sEvent): string | undefined {
+    const time = new Date(event.lastTimestamp);
+    return isNaN(time.getTime()) ? undefined : time.toISOString();
+}
@@ -0,0 +1,373 @@
+/**
+ * TLS certificate diagnostics module
+ *
+ * Decodes kubernetes.io/tls Secrets (and Secrets referenced by Ingresses)
+ * and parses the X.509 certificates locally: expiry, hostname match, chain
+ *
+ * @author zerry
+ */
+
+import { X509Certificate } from 'node:crypto';
+import { rootCertificates } from 'node:tls';
+import * as k8s from '@kubernetes/client-node';
+import type { CertificateInfo, CertificateScan, DiagnosticIssue } from '../types.js';
+import { withRetry } from '../utils/retry.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/** Expiring within this many days is high instead of medium severity */
+const URGENT_EXPIRY_DAYS = 7;
+
+/** Ingress TLS entry that uses a secret */
+export interface IngressTLSRef {
+    ingress: string;
+    hosts: string[];
+}
+
+/**
+ * Scan TLS certificates
+ *
+ * @param warningDays Report certificates expiring within this many days
+ */
+export async function scanCertificates(
+    coreApi: k8s.CoreV1Api,
+    networkingApi: k8s.NetworkingV1Api,
+    namespace?: string,
+    warningDays: number = 30
+): Promise<CertificateScan> {
+    try {
+        console.error(`[scanCertificates] Starting certificate scan in ${namespace ? `namespace ${namespace}` : 'all namespaces'}`);
+
+        const fieldSelector = 'type=kubernetes.io/tls';
+        const [secretsResponse, ingresses] = await Promise.all([
+            withRetry(() => namespace
+                ? coreApi.listNamespacedSecret({ namespace, fieldSelector })
+                : coreApi.listSecretForAllNamespaces({ fieldSelector }), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => namespace
+                ? networkingApi.listNamespacedIngress({ namespace })
+                : networkingApi.listIngressForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 })
+                .then(r => r.items)
+                .catch((error) => {
+                    console.error('[scanCertificates] Failed to list ingresses (non-fatal):', error.message);
+                    return [] as k8s.V1Ingress[];
+                }),
+        ]);
+
+        // "namespace/secret" -> ingress TLS entries using it
+        const refs = new Map<string, IngressTLSRef[]>();
+        for (const ingress of ingresses) {
+            const ns = ingress.metadata?.namespace || '';
+            const ruleHosts = (ingress.spec?.rules || []).map(r => r.host).filter((h): h is string => !!h);
+            for (const tls of ingress.spec?.tls || []) {
+                if (!tls.secretName) continue;
+                const key = `${ns}/${tls.secretName}`;
+                if (!refs.has(key)) refs.set(key, []);
+                refs.get(key)!.push({
+                    ingress: ingress.metadata?.name || 'unknown',
+                    hosts: tls.hosts?.length ? tls.hosts : ruleHosts,
+                });
+            }
+        }
+
+        // Ingress-referenced secrets are not always typed kubernetes.io/tls
+        const secrets = secretsResponse.items;
+        const seen = new Set(secrets.map(s => `${s.metadata?.namespace}/${s.metadata?.name}`));
+        for (const key of refs.keys()) {
+            if (seen.has(key)) continue;
+            const [ns, name] = key.split('/');
+            try {
+                secrets.push(await coreApi.readNamespacedSecret({ name, namespace: ns }));
+            } catch (error: any) {
+                // Missing secrets are reported by diagnose-ingress
+                console.error(`[scanCertificates] Failed to read secret ${key} (non-fatal):`, error.message);
+            }
+        }
+
+        const certificates: CertificateInfo[] = [];
+        const issues: DiagnosticIssue[] = [];
+        for (const secret of secrets) {
+            const key = `${secret.metadata?.namespace}/${secret.metadata?.name}`;
+            const result = inspectTLSSecret(secret, refs.get(key) || [], warningDays);
+            if (result.certificate) certificates.push(result.certificate);
+            issues.push(...result.issues);
+        }
+
+        certificates.sort((a, b) => a.daysRemaining - b.daysRemaining);
+        const summary = generateCertificateSummary(certificates, issues, warningDays);
+
+        return { certificates, issues, summary };
+    } catch (error: any) {
+        console.error('[scanCertificates] Fatal error:', error);
+        throw new Error(`Certificate scan failed: ${error.message}`);
+    }
+}
+
+/**
+ * Inspect the certificate chain in a TLS secret
+ *
+ * Only public certificate data ends up in the result - never tls.key
+ */
+export function inspectTLSSecret(
+    secret: k8s.V1Secret,
+    ingressRefs: IngressTLSRef[],
+    warningDays: number = 30
+): { certificate?: CertificateInfo; issues: DiagnosticIssue[] } {
+    const name = secret.metadata?.name || 'unknown';
+    const namespace = secret.metadata?.namespace || 'default';
+    const resource = { kind: 'Secret', name, namespace };
+    const issues: DiagnosticIssue[] = [];
+
+    const crt = secret.data?.['tls.crt'];
+    if (!crt) {
+        return { issues };
+    }
+
+    let chain: X509Certificate[];
+    try {
+        chain = parsePemChain(Buffer.from(crt, 'base64').toString('utf8'));
+        if (chain.length === 0) throw new Error('no PEM certificate block found');
+    } catch (error: any) {
+        issues.push({
+            type: 'Invalid Certificate',
+            severity: 'high',
+            message: `tls.crt in secret "${name}" cannot be parsed`,
+            rootCause: error.message,
+            solution: `tls.crt must contain PEM certificates (-----BEGIN CERTIFICATE-----), leaf first:\n\`\`\`bash\nkubectl get secret ${name} -n ${namespace} -o jsonpath='{.data.tls\\.crt}' | base64 -d | openssl x509 -noout -text\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return { issues };
+    }
+
+    const leaf = chain[0];
+    const notAfter = new Date(leaf.validTo);
+    const daysRemaining = Math.floor((notAfter.getTime() - Date.now()) / 86_400_000);
+    const renewal = getRenewalHint(secret);
+
+    // 1. Expiry of every certificate in the chain
+    chain.forEach((cert, index) => {
+        const label = index === 0 ? 'Certificate' : `Intermediate certificate "${formatDN(cert.subject)}"`;
+        const expires = new Date(cert.validTo);
+        const days = Math.floor((expires.getTime() - Date.now()) / 86_400_000);
+
+        if (expires.getTime() < Date.now()) {
+            issues.push({
+                type: 'Certificate Expired',
+                severity: 'critical',
+                message: `${label} in secret "${name}" expired ${-days} day(s) ago (${expires.toISOString()})`,
+                rootCause: 'Clients reject the certificate - TLS handshakes fail with "certificate has expired"',
+                solution: renewal,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else if (days <= warningDays) {
+            issues.push({
+                type: 'Certificate Expiring Soon',
+                severity: days <= URGENT_EXPIRY_DAYS ? 'high' : 'medium',
+                message: `${label} in secret "${name}" expires in ${days} day(s) (${expires.toISOString()})`,
+                rootCause: secret.metadata?.annotations?.['cert-manager.io/certificate-name']
+                    ? 'Managed by cert-manager but not renewed yet - renewal may be failing'
+                    : 'Certificate is not renewed automatically',
+                solution: renewal,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    });
+
+    if (new Date(leaf.validFrom).getTime() > Date.now()) {
+        issues.push({
+            type: 'Certificate Not Yet Valid',
+            severity: 'high',
+            message: `Certificate in secret "${name}" is valid from ${new Date(leaf.validFrom).toISOString()}`,
+            rootCause: 'Issued with a future start date, or the issuing machine clock is wrong',
+            solution: 'Re-issue the certificate and check clock sync (NTP) on the issuing host',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 2. Hostnames used by ingresses
+    const dnsNames = getDNSNames(leaf);
+    for (const ref of ingressRefs) {
+        const mismatched = ref.hosts.filter(host => !matchesHost(leaf, dnsNames, host));
+        if (mismatched.length === 0) continue;
+        issues.push({
+            type: 'Certificate Hostname Mismatch',
+            severity: 'high',
+            message: `Ingress "${ref.ingress}" serves ${mismatched.join(', ')} with secret "${name}", which does not cover ${mismatched.length === 1 ? 'it' : 'them'}`,
+            rootCause: `Certificate names: ${dnsNames.join(', ') || formatDN(leaf.subject)}`,
+            solution: `Add the host(s) to the certificate (dnsNames in the cert-manager Certificate), or point the ingress TLS entry at the right secret:\n\`\`\`bash\nkubectl get ingress ${ref.ingress} -n ${namespace} -o jsonpath='{.spec.tls}'\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 3. Chain
+    const caCerts = secret.data?.['ca.crt']
+        ? safeParsePemChain(Buffer.from(secret.data['ca.crt'], 'base64').toString('utf8'))
+        : [];
+    const chainIssue = detectChainIssue(chain, caCerts);
+    if (chainIssue) {
+        issues.push({ ...chainIssue, resource, timestamp: new Date().toISOString() });
+    }
+
+    return {
+        certificate: {
+            secretName: name,
+            namespace,
+            subject: formatDN(leaf.subject),
+            issuer: formatDN(leaf.issuer),
+            dnsNames,
+            notBefore: new Date(leaf.validFrom).toISOString(),
+            notAfter: notAfter.toISOString(),
+            daysRemaining,
+            chainLength: chain.length,
+            ingresses: ingressRefs.map(r => `${r.ingress}: ${r.hosts.join(', ') || '*'}`),
+        },
+        issues,
+    };
+}
+
+/**
+ * Detect broken or incomplete chains
+ *
+ * tls.crt should be leaf first, each certificate issued by the next one,
+ * ending at an intermediate issued by a root that clients trust
+ */
+function detectChainIssue(
+    chain: X509Certificate[],
+    caCerts: X509Certificate[]
+): Pick<DiagnosticIssue, 'type' | 'severity' | 'message' | 'rootCause' | 'solution'> | undefined {
+    for (let i = 0; i < chain.length - 1; i++) {
+        if (!isIssuedBy(chain[i], chain[i + 1])) {
+            return {
+                type: 'Certificate Chain Out Of Order',
+                severity: 'high',
+                message: `"${formatDN(chain[i].subject)}" is not issued by the next certificate in tls.crt ("${formatDN(chain[i + 1].subject)}")`,
+                rootCause: 'tls.crt must list the leaf first, then each issuer in order. Unrelated or reordered certificates break verification',
+                solution: 'Rebuild tls.crt in order: `cat leaf.crt intermediate.crt > tls.crt`',
+            };
+        }
+    }
+
+    const last = chain[chain.length - 1];
+    if (isIssuedBy(last, last)) {
+        // Ends at a self-signed certificate: fine for a root, suspicious for a lone leaf
+        return chain.length === 1
+            ? {
+                type: 'Self-Signed Certificate',
+                severity: 'medium',
+                message: `Certificate "${formatDN(last.subject)}" is self-signed`,
+                rootCause: 'Clients only accept it if it is explicitly trusted (browsers and most HTTP clients reject it)',
+                solution: 'Issue the certificate from a trusted CA (e.g. cert-manager with Let\'s Encrypt) or distribute it to clients as a trusted CA',
+            }
+            : undefined;
+    }
+
+    const trusted = [...caCerts, ...getPublicRoots()];
+    if (trusted.some(root => isIssuedBy(last, root))) {
+        return undefined;
+    }
+
+    return {
+        type: 'Incomplete Certificate Chain',
+        severity: 'high',
+        message: `tls.crt ends at "${formatDN(last.subject)}", issued by "${formatDN(last.issuer)}", which is not included`,
+        rootCause: 'The intermediate certificate is missing (or the issuer is a private CA). Browsers may cope, but curl, Go, Java and mobile clients fail with "unable to get local issuer certificate"',
+        solution: 'Append the intermediate(s) to tls.crt: `cat leaf.crt intermediate.crt > tls.crt`. For a private CA, make sure clients trust it (ca.crt)',
+    };
+}
+
+/**
+ * Renewal instructions, cert-manager aware
+ */
+function getRenewalHint(secret: k8s.V1Secret): string {
+    const name = secret.metadata?.name;
+    const namespace = secret.metadata?.namespace;
+    const certificate = secret.metadata?.annotations?.['cert-manager.io/certificate-name'];
+
+    if (certificate) {
+        return `Managed by cert-manager Certificate "${certificate}":\n\`\`\`bash\nkubectl describe certificate ${certificate} -n ${namespace}\nkubectl get certificaterequest,order,challenge -n ${namespace}\ncmctl renew ${certificate} -n ${namespace}\n\`\`\``;
+    }
+    return `Renew the certificate and replace the secret:\n\`\`\`bash\nkubectl create secret tls ${name} -n ${namespace} --cert=tls.crt --key=tls.key --dry-run=client -o yaml | kubectl apply -f -\n\`\`\``;
+}
+
+/**
+ * Generate scan summary
+ */
+function generateCertificateSummary(certificates: CertificateInfo[], issues: DiagnosticIssue[], warningDays: number): string {
+    const expired = certificates.filter(c => c.daysRemaining < 0).length;
+    const expiring = certificates.filter(c => c.daysRemaining >= 0 && c.daysRemaining <= warningDays).length;
+
+    let summary = `Certificates: ${certificates.length} parsed\n`;
+    if (expired > 0) summary += `🔴 Expired: ${expired}\n`;
+    if (expiring > 0) summary += `⚠️ Expiring within ${warningDays} days: ${expiring}\n`;
+    summary += '\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+let publicRoots: X509Certificate[] | null = null;
+
+/**
+ * Node's bundled Mozilla root store, parsed once
+ */
+function getPublicRoots(): X509Certificate[] {
+    if (!publicRoots) {
+        publicRoots = rootCertificates.flatMap(pem => safeParsePemChain(pem));
+    }
+    return publicRoots;
+}
+
+function parsePemChain(pem: string): X509Certificate[] {
+    const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+    return blocks.map(block => new X509Certificate(block));
+}
+
+function safeParsePemChain(pem: string): X509Certificate[] {
+    try {
+        return parsePemChain(pem);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Issuer name matches and the signature verifies
+ */
+function isIssuedBy(cert: X509Certificate, issuer: X509Certificate): boolean {
+    try {
+        return cert.checkIssued(issuer) && cert.verify(issuer.publicKey);
+    } catch {
+        return false;
+    }
+}
+
+function getDNSNames(cert: X509Certificate): string[] {
+    return (cert.subjectAltName || '')
+        .split(',')
+        .map(s => s.trim())
+        .filter(s => s.startsWith('DNS:'))
+        .map(s => s.slice(4));
+}
+
+/**
+ * Does the certificate cover an ingress host (wildcard hosts need a wildcard SAN)
+ */
+function matchesHost(cert: X509Certificate, dnsNames: string[], host: string): boolean {
+    if (host.startsWith('*.')) {
+        return dnsNames.some(n => n.toLowerCase() === host.toLowerCase());
+    }
+    return cert.checkHost(host) !== undefined;
+}
+
+/**
+ * "CN=example.com\nO=Example" -> "CN=example.com, O=Example"
+ */
+function formatDN(dn: string): string {
+    return dn.split('\n').filter(Boolean).join(', ');
+}
@@ -5,16 +5,24 @@
  */
 
 import * as k8s from '@kubernetes/client-node';
-import type { ClusterHealth, DiagnosticIssue } from '../types.js';
+import type { ClusterHealth, ControlPlaneHealth, DiagnosticIssue, ScoreDeduction } from '../types.js';
+import { parseCPU, parseMemory, parseMetricCPU, parseMetricMemory } from './pod-diagnostics.js';
+import { explainPendingPod, getPodRequests } from './scheduling-diagnostics.js';
+import { diagnoseControlPlane } from './control-plane-diagnostics.js';
+import { getScoreWeights, type ScoreWeights } from '../utils/config.js';
 
 /**
  * Diagnose overall cluster health
  *
- * Comprehensively analyzes nodes, pods, and resource utilization
+ * Comprehensively analyzes nodes, pods, and resource utilization.
+ * Control-plane health is checked when kubeconfig and coordination API are given
  */
 export async function diagnoseClusterHealth(
     coreApi: k8s.CoreV1Api,
-    namespace?: string
+    namespace?: string,
+    metricsApi?: k8s.Metrics,
+    kc?: k8s.KubeConfig,
+    coordinationApi?: k8s.CoordinationV1Api
 ): Promise<ClusterHealth> {
     const issues: DiagnosticIssue[] = [];
 
@@ -31,12 +39,15 @@ export async function diagnoseClusterHealth(
 
     // Not Ready node issues
     for (const node of notReadyNodes) {
+        const ready = node.status?.conditions?.find((c: any) => c.type === 'Ready');
         issues.push({
             type: 'Node Not Ready',
             severity: 'critical',
             message: `Node "${node.metadata?.name}" is not in Ready state`,
-            rootCause: 'Node has encountered a problem',
-            solution: 'Check detailed cause with: kubectl describe node <node-name>',
+            rootCause: ready?.status === 'Unknown'
+                ? 'Kubelet stopped posting node status (node down, network partition, or kubelet crashed)'
+                : `${ready?.reason || 'Node has encountered a problem'}${ready?.message ? `: ${ready.message}` : ''}`,
+            solution: `Run diagnose-node for conditions, events and version skew, or: kubectl describe node ${node.metadata?.name}`,
             resource: {
                 kind: 'Node',
                 name: node.metadata?.name || 'unknown',
@@ -64,15 +75,33 @@ export async function diagnoseClusterHealth(
         ).length,
     };
 
+    const restarts: Record<string, number> = {};
+    for (const pod of pods) {
+        for (const c of pod.status?.containerStatuses || []) {
+            restarts[`${pod.metadata?.namespace}/${pod.metadata?.name}/${c.name}`] = c.restartCount || 0;
+        }
+    }
+
     // Pending pod issues
     const pendingPods = pods.filter((p: any) => p.status?.phase === 'Pending');
+
+    // Node fit and utilization need requests of every pod on the node, not just this namespace
+    let clusterPods = pods;
+    if (namespace) {
+        try {
+            clusterPods = (await coreApi.listPodForAllNamespaces()).items;
+        } catch (error: any) {
+            console.error('[diagnoseClusterHealth] Failed to list pods in all namespaces (non-fatal):', error.message);
+        }
+    }
+
     for (const pod of pendingPods.slice(0, 5)) {  // Max 5 pods
         issues.push({
             type: 'Pod Pending',
             severity: 'high',
             message: `Pod "${pod.metadata?.name}" is in Pending state`,
-            rootCause: 'Cannot be scheduled or image cannot be pulled',
-            solution: `kubectl describe pod ${pod.metadata?.name} -n ${pod.metadata?.namespace}`,
+            rootCause: explainPendingPod(pod, nodes, clusterPods),
+            solution: `Run explain-scheduling for a per-node breakdown, or:\nkubectl describe pod ${pod.metadata?.name} -n ${pod.metadata?.namespace}`,
             resource: {
                 kind: 'Pod',
                 name: pod.metadata?.name || 'unknown',
@@ -104,27 +133,35 @@ export async function diagnoseClusterHealth(
         });
     }
 
-    // 3. Resource utilization (basic calculation)
-    const resourceUtilization = {
-        cpu: 0,
-        memory: 0,
-        storage: 0,
-    };
+    // 3. Resource utilization (requests vs allocatable, usage from Metrics Server)
+    const resourceUtilization = await calculateResourceUtilization(readyNodes, clusterPods, metricsApi);
+
+    // 4. Control plane
+    let controlPlane: ControlPlaneHealth | undefined;
+    if (kc && coordinationApi) {
+        try {
+            controlPlane = await diagnoseControlPlane(kc, coreApi, coordinationApi);
+            issues.push(...controlPlane.issues);
+        } catch (error: any) {
+            console.error('[diagnoseClusterHealth] Control-plane check failed (non-fatal):', error.message);
+        }
+    }
 
-    // 4. Overall health score
-    const overallScore = calculateOverallScore(nodes.length, readyNodes.length, podStats, issues);
+    // 5. Overall health score
+    const { score: overallScore, breakdown: scoreBreakdown } = calculateOverallScore(nodes.length, readyNodes.length, podStats, issues, resourceUtilization);
 
-    // 5. Filter critical issues only
+    // 6. Filter critical issues only
     const criticalIssues = issues.filter(i => i.severity === 'critical');
 
-    // 6. Recommendations
-    const recommendations = generateClusterRecommendations(issues, podStats, nodes.length);
+    // 7. Recommendations
+    const recommendations = generateClusterRecommendations(issues, podStats, nodes.length, resourceUtilization);
 
-    // 7. Summary
-    const summary = generateClusterSummary(nodes.length, readyNodes.length, podStats, overallScore);
+    // 8. Summary
+    const summary = generateClusterSummary(nodes.length, readyNodes.length, podStats, overallScore, controlPlane);
 
     return {
         overallScore,
+        scoreBreakdown,
         nodeHealth: {
             total: nodes.length,
             ready: readyNodes.length,
@@ -133,9 +170,11 @@ export async function diagnoseClusterHealth(
         },
         podHealth: {
             ...podStats,
-            issues: issues.filter(i => i.resource?.kind === 'Pod'),
+            restarts,
+            issues: issues.filter(i => i.resource?.kind === 'Pod' && !controlPlane?.issues.includes(i)),
         },
         resourceUtilization,
+        controlPlane,
         criticalIssues,
         recommendations,
         summary,
@@ -144,34 +183,85 @@ export async function diagnoseClusterHealth(
 
 /**
  * Calculate overall health score
+ *
+ * Returns the score and every deduction that went into it
  */
 function calculateOverallScore(
     totalNodes: number,
     readyNodes: number,
     podStats: any,
-    issues: DiagnosticIssue[]
-): number {
-    let score = 100;
+    issues: DiagnosticIssue[],
+    utilization: ClusterHealth['resourceUtilization'],
+    weights: ScoreWeights['cluster'] = getScoreWeights().cluster
+): { score: number; breakdown: ScoreDeduction[] } {
+    const breakdown: ScoreDeduction[] = [];
 
     // Deduct for node status
-    const nodeHealthPercent = (readyNodes / totalNodes) * 100;
-    score -= (100 - nodeHealthPercent) * 0.5;
+    if (totalNodes > 0 && readyNodes < totalNodes) {
+        const notReadyPercent = ((totalNodes - readyNodes) / totalNodes) * 100;
+        breakdown.push({
+            rule: `Nodes not Ready: ${notReadyPercent.toFixed(1)}%`,
+            weight: weights.nodeNotReadyPercent,
+            points: notReadyPercent * weights.nodeNotReadyPercent,
+        });
+    }
 
     // Deduct for pod status
-    const healthyPodPercent = (podStats.running / podStats.total) * 100;
-    score -= (100 - healthyPodPercent) * 0.3;
+    if (podStats.total > 0 && podStats.running < podStats.total) {
+        const notRunningPercent = ((podStats.total - podStats.running) / podStats.total) * 100;
+        breakdown.push({
+            rule: `Pods not Running: ${notRunningPercent.toFixed(1)}%`,
+            weight: weights.podNotRunningPercent,
+            points: notRunningPercent * weights.podNotRunningPercent,
+        });
+    }
 
     // CrashLoop is severe
-    score -= podStats.crashLooping * 5;
+    if (podStats.crashLooping > 0) {
+        breakdown.push({
+            rule: `CrashLooping pods: ${podStats.crashLooping}`,
+            weight: weights.crashLoopPod,
+            points: podStats.crashLooping * weights.crashLoopPod,
+        });
+    }
 
     // Deduct for issues
     for (const issue of issues) {
-        if (issue.severity === 'critical') score -= 10;
-        else if (issue.severity === 'high') score -= 5;
-        else if (issue.severity === 'medium') score -= 2;
+        const issueWeight = issue.severity === 'info' ? 0 : weights[issue.severity];
+        if (issueWeight > 0) {
+            breakdown.push({
+                rule: `Issue severity: ${issue.severity}`,
+                weight: issueWeight,
+                points: issueWeight,
+                issue: `${issue.type}: ${issue.message}`,
+            });
+        }
     }
 
-    return Math.max(0, Math.min(100, score));
+    // Deduct for overcommitted (requests) or saturated (usage) capacity
+    for (const [label, percent] of [
+        ['CPU requested', utilization.requested.cpu],
+        ['Memory requested', utilization.requested.memory],
+        ['CPU used', utilization.used?.cpu ?? 0],
+        ['Memory used', utilization.used?.memory ?? 0],
+    ] as const) {
+        if (percent >= weights.utilizationCriticalThreshold) {
+            breakdown.push({
+                rule: `${label} ≥ ${weights.utilizationCriticalThreshold}%: ${percent.toFixed(0)}%`,
+                weight: weights.utilizationCritical,
+                points: weights.utilizationCritical,
+            });
+        } else if (percent >= weights.utilizationHighThreshold) {
+            breakdown.push({
+                rule: `${label} ≥ ${weights.utilizationHighThreshold}%: ${percent.toFixed(0)}%`,
+                weight: weights.utilizationHigh,
+                points: weights.utilizationHigh,
+            });
+        }
+    }
+
+    const score = 100 - breakdown.reduce((sum, d) => sum + d.points, 0);
+    return { score: Math.max(0, Math.min(100, score)), breakdown: breakdown.filter(d => d.points > 0) };
 }
 
 /**
@@ -180,7 +270,8 @@ function calculateOverallScore(
 function generateClusterRecommendations(
     issues: DiagnosticIssue[],
     podStats: any,
-    totalNodes: number
+    totalNodes: number,
+    utilization: ClusterHealth['resourceUtilization']
 ): string[] {
     const recommendations: string[] = [];
 
@@ -197,6 +288,21 @@ function generateClusterRecommendations(
         recommendations.push(`⚠️ ${podStats.pending} pod(s) in Pending state. Check for resource insufficiency`);
     }
 
+    const { requested, used } = utilization;
+    for (const [resource, requestedPercent, usedPercent] of [
+        ['CPU', requested.cpu, used?.cpu],
+        ['Memory', requested.memory, used?.memory],
+    ] as const) {
+        if (usedPercent !== undefined && usedPercent >= 85) {
+            recommendations.push(`🔥 ${resource} usage is at ${usedPercent.toFixed(0)}% of allocatable. Add nodes or enable the cluster autoscaler before pods get throttled/evicted`);
+        } else if (requestedPercent >= 85) {
+            recommendations.push(`⚠️ ${resource} requests are at ${requestedPercent.toFixed(0)}% of allocatable. New pods will stay Pending - add capacity or lower requests`);
+        }
+        if (usedPercent !== undefined && requestedPercent >= 60 && usedPercent < requestedPercent / 3) {
+            recommendations.push(`💰 ${resource} is over-requested: ${requestedPercent.toFixed(0)}% requested but only ${usedPercent.toFixed(0)}% used. Right-size requests (e.g. with VPA recommendations)`);
+        }
+    }
+
     if (totalNodes < 3) {
         recommendations.push('💡 For high availability, running at least 3 nodes is recommended');
     }
@@ -208,6 +314,71 @@ function generateClusterRecommendations(
     return recommendations;
 }
 
+/**
+ * Calculate resource utilization of Ready nodes
+ *
+ * Requested % always, used % only when Metrics Server is available
+ */
+async function calculateResourceUtilization(
+    nodes: k8s.V1Node[],
+    pods: k8s.V1Pod[],
+    metricsApi?: k8s.Metrics
+): Promise<ClusterHealth['resourceUtilization']> {
+    const nodeNames = new Set(nodes.map(n => n.metadata?.name));
+    const allocatable = { cpu: 0, memory: 0, storage: 0 };
+    for (const node of nodes) {
+        allocatable.cpu += parseCPU(node.status?.allocatable?.['cpu'] || '0');
+        allocatable.memory += parseMemory(node.status?.allocatable?.['memory'] || '0');
+        allocatable.storage += parseMemory(node.status?.allocatable?.['ephemeral-storage'] || '0');
+    }
+
+    const requested = { cpu: 0, memory: 0, storage: 0 };
+    for (const pod of pods) {
+        if (!nodeNames.has(pod.spec?.nodeName) || pod.status?.phase === 'Succeeded' || pod.status?.phase === 'Failed') {
+            continue;
+        }
+        const requests = getPodRequests(pod);
+        requested.cpu += requests.cpu;
+        requested.memory += requests.memory;
+        for (const container of pod.spec?.containers || []) {
+            requested.storage += parseMemory(container.resources?.requests?.['ephemeral-storage'] || '0');
+        }
+    }
+
+    const percent = (value: number, total: number) => total > 0 ? (value / total) * 100 : 0;
+
+    let used: { cpu: number; memory: number } | undefined;
+    if (metricsApi) {
+        try {
+            const metrics = await metricsApi.getNodeMetrics();
+            let cpu = 0;
+            let memory = 0;
+            for (const item of metrics.items || []) {
+                if (!nodeNames.has(item.metadata?.name)) continue;
+                cpu += parseMetricCPU(item.usage?.cpu || '0');
+                memory += parseMetricMemory(item.usage?.memory || '0');
+            }
+            used = { cpu: percent(cpu, allocatable.cpu), memory: percent(memory, allocatable.memory) };
+        } catch (error: any) {
+            // Metrics Server not installed - fall back to requests
+            console.error('[calculateResourceUtilization] Failed to get node metrics (non-fatal):', error.message);
+        }
+    }
+
+    const requestedPercent = {
+        cpu: percent(requested.cpu, allocatable.cpu),
+        memory: percent(requested.memory, allocatable.memory),
+    };
+
+    return {
+        cpu: used?.cpu ?? requestedPercent.cpu,
+        memory: used?.memory ?? requestedPercent.memory,
+        storage: percent(requested.storage, allocatable.storage),
+        requested: requestedPercent,
+        used,
+    };
+}
+
 /**
  * Generate cluster summary
  */
@@ -215,9 +386,13 @@ function generateClusterSummary(
     totalNodes: number,
     readyNodes: number,
     podStats: any,
-    score: number
+    score: number,
+    controlPlane?: ControlPlaneHealth
 ): string {
     let summary = `Cluster Health Score: ${score.toFixed(1)}/100\n\n`;
+    if (controlPlane) {
+        summary += `Control Plane: ${controlPlane.issues.length === 0 ? 'Healthy' : `⚠️ ${controlPlane.issues.length} issue(s)`}\n`;
+    }
     summary += `Nodes: ${readyNodes}/${totalNodes} Ready\n`;
     summary += `Pods: ${podStats.running}/${podStats.total} Running\n`;
 
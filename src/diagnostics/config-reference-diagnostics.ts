@@ -0,0 +1,262 @@
+/**
+ * ConfigMap / Secret reference validator
+ *
+ * Resolves every ConfigMap and Secret a pod spec points at (env, envFrom,
+ * volumes, projected volumes) - the usual cause of CreateContainerConfigError.
+ * Only key names are ever read out of Secrets, never values
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue } from '../types.js';
+
+/**
+ * One reference from the pod spec to a ConfigMap or Secret
+ */
+interface ConfigReference {
+    kind: 'ConfigMap' | 'Secret';
+    name: string;
+    /** Referenced key (undefined when the whole object is used) */
+    key?: string;
+    optional: boolean;
+    /** Where it is referenced, e.g. env DB_PASSWORD, envFrom, volume "config" */
+    source: string;
+    /** Containers using it (for volumes: the containers mounting it) */
+    containers: string[];
+}
+
+/**
+ * Lookup result of a referenced object
+ */
+type ResolvedObject =
+    | { found: true; keys: string[] }
+    | { found: false; otherNamespaces: string[] }
+    | { found: 'unknown'; error: string };
+
+/**
+ * Validate all ConfigMap / Secret references of a pod
+ */
+export async function validateConfigReferences(coreApi: k8s.CoreV1Api, pod: k8s.V1Pod): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+    const podName = pod.metadata?.name || 'unknown';
+    const namespace = pod.metadata?.namespace || 'default';
+    const resource = { kind: 'Pod', name: podName, namespace };
+
+    const references = collectReferences(pod);
+    if (references.length === 0) {
+        return issues;
+    }
+
+    // Each object is read once, however many times it is referenced
+    const objects = new Map<string, ResolvedObject>();
+    for (const ref of references) {
+        const id = `${ref.kind}/${ref.name}`;
+        if (!objects.has(id)) {
+            objects.set(id, await resolveObject(coreApi, ref.kind, ref.name, namespace));
+        }
+    }
+
+    // 1. Missing objects - one issue per object listing every reference
+    for (const [id, resolved] of objects) {
+        if (resolved.found !== false) continue;
+
+        const refs = references.filter(r => `${r.kind}/${r.name}` === id);
+        const { kind, name } = refs[0];
+        const required = refs.filter(r => !r.optional);
+        const lower = kind.toLowerCase();
+
+        let rootCause = required.length > 0
+            ? (refs.some(r => r.source.startsWith('volume'))
+                ? 'Containers cannot start until it exists (env references fail with CreateContainerConfigError, volumes with FailedMount)'
+                : 'Containers cannot start until it exists (CreateContainerConfigError)')
+            : 'All references are optional, so the containers start without these values - check that this is intended';
+        if (resolved.otherNamespaces.length > 0) {
+            rootCause += `. A ${kind} with this name exists in namespace(s) ${resolved.otherNamespaces.join(', ')}, but pods can only reference ${kind}s in their own namespace`;
+        }
+
+        let solution = `\`\`\`bash\nkubectl get ${lower} ${name} -n ${namespace}\n`;
+        if (resolved.otherNamespaces.length > 0) {
+            solution += `# Copy it from ${resolved.otherNamespaces[0]} (values are piped, not printed)\n`;
+            solution += `kubectl get ${lower} ${name} -n ${resolved.otherNamespaces[0]} -o json \\\n  | jq 'del(.metadata.namespace, .metadata.uid, .metadata.resourceVersion, .metadata.creationTimestamp, .metadata.ownerReferences)' \\\n  | kubectl apply -n ${namespace} -f -\n`;
+        } else if (kind === 'Secret') {
+            solution += `# Other namespaces are not searched for Secrets - check by name only\n`;
+            solution += `kubectl get secret -A --field-selector metadata.name=${name}\n`;
+            solution += `kubectl create secret generic ${name} -n ${namespace} --from-literal=<key>=<value>\n`;
+        } else {
+            solution += `kubectl create configmap ${name} -n ${namespace} --from-file=<file>\n`;
+        }
+        solution += '```';
+
+        issues.push({
+            type: `${kind} Not Found`,
+            severity: required.length > 0 ? 'critical' : 'low',
+            message: `${kind} "${name}" does not exist in namespace ${namespace} - referenced by ${refs.map(describeReference).join('; ')}`,
+            rootCause,
+            solution,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 2. Missing keys in existing objects
+    for (const ref of references) {
+        const resolved = objects.get(`${ref.kind}/${ref.name}`);
+        if (!ref.key || resolved?.found !== true || resolved.keys.includes(ref.key)) continue;
+
+        const suggestion = findSimilarKey(ref.key, resolved.keys);
+        const available = resolved.keys.length > 0 ? `Available keys: ${resolved.keys.join(', ')}` : `The ${ref.kind} has no keys`;
+
+        issues.push({
+            type: `${ref.kind} Key Not Found`,
+            severity: ref.optional ? 'low' : 'critical',
+            message: `Key "${ref.key}" not found in ${ref.kind} "${ref.name}" - referenced by ${describeReference(ref)}`,
+            rootCause: (ref.optional
+                ? 'The reference is optional, so the value is silently left out'
+                : ref.source.startsWith('volume')
+                    ? 'The volume cannot be mounted (FailedMount) until the key exists'
+                    : 'The container cannot start (CreateContainerConfigError) until the key exists') +
+                `. ${available}` + (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+            solution: `Fix the key name in the pod spec, or add the key:\n\`\`\`bash\nkubectl describe ${ref.kind.toLowerCase()} ${ref.name} -n ${namespace}  # lists keys only\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+// ===== Helper functions =====
+
+/**
+ * All ConfigMap / Secret references of a pod spec
+ */
+function collectReferences(pod: k8s.V1Pod): ConfigReference[] {
+    const references: ConfigReference[] = [];
+    const containers = [...(pod.spec?.initContainers || []), ...(pod.spec?.containers || [])];
+
+    for (const container of containers) {
+        for (const env of container.env || []) {
+            const cm = env.valueFrom?.configMapKeyRef;
+            const secret = env.valueFrom?.secretKeyRef;
+            const ref = cm ? { kind: 'ConfigMap' as const, selector: cm } : secret ? { kind: 'Secret' as const, selector: secret } : undefined;
+            if (ref?.selector.name) {
+                references.push({
+                    kind: ref.kind,
+                    name: ref.selector.name,
+                    key: ref.selector.key,
+                    optional: ref.selector.optional || false,
+                    source: `env ${env.name}`,
+                    containers: [container.name],
+                });
+            }
+        }
+
+        for (const envFrom of container.envFrom || []) {
+            const ref = envFrom.configMapRef
+                ? { kind: 'ConfigMap' as const, source: envFrom.configMapRef }
+                : envFrom.secretRef ? { kind: 'Secret' as const, source: envFrom.secretRef } : undefined;
+            if (ref?.source.name) {
+                references.push({
+                    kind: ref.kind,
+                    name: ref.source.name,
+                    optional: ref.source.optional || false,
+                    source: 'envFrom',
+                    containers: [container.name],
+                });
+            }
+        }
+    }
+
+    for (const volume of pod.spec?.volumes || []) {
+        const mountedBy = containers
+            .filter(c => c.volumeMounts?.some(m => m.name === volume.name))
+            .map(c => c.name);
+        const sources: { kind: 'ConfigMap' | 'Secret'; name?: string; optional?: boolean; items?: k8s.V1KeyToPath[] }[] = [];
+
+        if (volume.configMap) {
+            sources.push({ kind: 'ConfigMap', ...volume.configMap });
+        }
+        if (volume.secret) {
+            sources.push({ kind: 'Secret', name: volume.secret.secretName, optional: volume.secret.optional, items: volume.secret.items });
+        }
+        for (const projection of volume.projected?.sources || []) {
+            if (projection.configMap) sources.push({ kind: 'ConfigMap', ...projection.configMap });
+            if (projection.secret) sources.push({ kind: 'Secret', ...projection.secret });
+        }
+
+        for (const { kind, name, optional, items } of sources) {
+            if (!name) continue;
+            const base = { kind, name, optional: optional || false, source: `volume "${volume.name}"`, containers: mountedBy };
+            if (items && items.length > 0) {
+                references.push(...items.map(item => ({ ...base, key: item.key })));
+            } else {
+                references.push(base);
+            }
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Read a referenced object; when a ConfigMap is missing, look for the same name in other namespaces
+ */
+async function resolveObject(
+    coreApi: k8s.CoreV1Api,
+    kind: ConfigReference['kind'],
+    name: string,
+    namespace: string
+): Promise<ResolvedObject> {
+    try {
+        // Only key names leave this function
+        if (kind === 'Secret') {
+            const secret = await coreApi.readNamespacedSecret({ name, namespace });
+            return { found: true, keys: Object.keys(secret.data || {}) };
+        }
+        const configMap = await coreApi.readNamespacedConfigMap({ name, namespace });
+        return { found: true, keys: [...Object.keys(configMap.data || {}), ...Object.keys(configMap.binaryData || {})] };
+    } catch (error: any) {
+        if (error.code !== 404 && error.statusCode !== 404) {
+            console.error(`[validateConfigReferences] Failed to read ${kind} ${name} (non-fatal):`, error.message);
+            return { found: 'unknown', error: error.message };
+        }
+    }
+
+    // Listing Secrets cluster-wide would download every matching Secret's data
+    if (kind === 'Secret') {
+        return { found: false, otherNamespaces: [] };
+    }
+
+    try {
+        const configMaps = await coreApi.listConfigMapForAllNamespaces({ fieldSelector: `metadata.name=${name}` });
+        return {
+            found: false,
+            otherNamespaces: configMaps.items.map(c => c.metadata?.namespace || '').filter(ns => ns && ns !== namespace),
+        };
+    } catch (error: any) {
+        // Cluster-wide list is often forbidden - the object is still missing
+        console.error(`[validateConfigReferences] Failed to search ${kind} ${name} in other namespaces (non-fatal):`, error.message);
+        return { found: false, otherNamespaces: [] };
+    }
+}
+
+/**
+ * e.g. container "app" (env DB_PASSWORD, key "password")
+ */
+function describeReference(ref: ConfigReference): string {
+    const where = ref.containers.length > 0
+        ? `container ${ref.containers.map(c => `"${c}"`).join(', ')}`
+        : 'no container (volume not mounted)';
+    const key = ref.key ? `, key "${ref.key}"` : '';
+    const optional = ref.optional ? ', optional' : '';
+    return `${where} (${ref.source}${key}${optional})`;
+}
+
+/**
+ * Key that differs only in case or separators (DB_HOST vs db-host)
+ */
+function findSimilarKey(key: string, keys: string[]): string | undefined {
+    const normalize = (k: string) => k.toLowerCase().replace(/[-_.]/g, '');
+    return keys.find(k => normalize(k) === normalize(key));
+}
@@ -0,0 +1,297 @@
+/**
+ * Control-plane diagnostics module
+ *
+ * API server health endpoints, static control-plane pods (self-hosted only)
+ * and leader election leases of the scheduler and controller-manager
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { ControlPlaneComponent, ControlPlaneHealth, DiagnosticIssue, HealthEndpointStatus } from '../types.js';
+import { isPodReady } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { rawGet } from '../utils/k8s-client.js';
+
+/** Components that hold a leader lease in kube-system */
+const LEADER_LEASES = ['kube-scheduler', 'kube-controller-manager'];
+
+/** What stops working when a component has no active leader */
+const LEADER_IMPACT: Record<string, string> = {
+    'kube-scheduler': 'New pods are not scheduled and stay Pending',
+    'kube-controller-manager': 'Deployments, ReplicaSets, Jobs and node lifecycle are no longer reconciled',
+};
+
+/** Seconds past lease expiry before a renewal counts as stale */
+const LEASE_GRACE_SECONDS = 30;
+
+/** Lifetime restarts of a Ready static pod worth a note */
+const RESTART_THRESHOLD = 5;
+
+/** A container exit within this window counts as currently unstable */
+const RECENT_EXIT_MINUTES = 10;
+
+/**
+ * Diagnose control-plane health
+ *
+ * Managed control planes (EKS, GKE, AKS) hide static pods and sometimes leases,
+ * so those checks are skipped when nothing is visible
+ */
+export async function diagnoseControlPlane(
+    kc: k8s.KubeConfig,
+    coreApi: k8s.CoreV1Api,
+    coordinationApi: k8s.CoordinationV1Api
+): Promise<ControlPlaneHealth> {
+    try {
+        console.error('[diagnoseControlPlane] Starting control-plane diagnostics');
+
+        const [readyz, livez, staticPods] = await Promise.all([
+            checkHealthEndpoint(kc, '/readyz'),
+            checkHealthEndpoint(kc, '/livez'),
+            withRetry(() => coreApi.listNamespacedPod({
+                namespace: 'kube-system',
+                labelSelector: 'tier=control-plane',
+            }), { maxAttempts: 3, initialDelay: 500 })
+                .then(r => r.items)
+                .catch((error) => {
+                    console.error('[diagnoseControlPlane] Failed to list control-plane pods (non-fatal):', error.message);
+                    return [] as k8s.V1Pod[];
+                }),
+        ]);
+
+        const selfHosted = staticPods.length > 0;
+        const components: ControlPlaneComponent[] = [];
+        const issues: DiagnosticIssue[] = [];
+
+        // 1. API server health endpoints
+        issues.push(...detectEndpointIssues(readyz, livez, selfHosted));
+
+        // 2. Static pods
+        for (const pod of staticPods) {
+            const component = detectStaticPodIssue(pod);
+            components.push(component.status);
+            if (component.issue) issues.push(component.issue);
+        }
+
+        // 3. Leader election leases
+        for (const name of LEADER_LEASES) {
+            const lease = await withRetry(() => coordinationApi.readNamespacedLease({ name, namespace: 'kube-system' }), { maxAttempts: 3, initialDelay: 500 })
+                .catch((error) => {
+                    if (error.code !== 404 && error.statusCode !== 404) {
+                        console.error(`[diagnoseControlPlane] Failed to read lease ${name} (non-fatal):`, error.message);
+                    }
+                    return undefined;
+                });
+
+            if (!lease) {
+                // Managed control planes often don't expose these leases
+                if (selfHosted) {
+                    issues.push({
+                        type: 'Leader Lease Missing',
+                        severity: 'critical',
+                        message: `${name} has no leader lease in kube-system`,
+                        rootCause: `${name} never acquired leadership (not running, or cannot reach the API server). ${LEADER_IMPACT[name]}`,
+                        solution: `Check the ${name} static pod:\n\`\`\`bash\nkubectl get pods -n kube-system -l component=${name} -o wide\nkubectl logs -n kube-system -l component=${name} --tail=50\n\`\`\``,
+                        resource: { kind: 'Lease', name, namespace: 'kube-system' },
+                        timestamp: new Date().toISOString(),
+                    });
+                }
+                continue;
+            }
+
+            const component = checkLease(name, lease, selfHosted);
+            components.push(component.status);
+            if (component.issue) issues.push(component.issue);
+        }
+
+        return { readyz, livez, selfHosted, components, issues };
+    } catch (error: any) {
+        console.error('[diagnoseControlPlane] Fatal error:', error);
+        throw new Error(`Control-plane diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Query /readyz?verbose or /livez?verbose
+ *
+ * The verbose output lists one check per line: "[+]ping ok", "[-]etcd failed: reason withheld"
+ */
+async function checkHealthEndpoint(kc: k8s.KubeConfig, endpoint: string): Promise<HealthEndpointStatus> {
+    try {
+        const { statusCode, body } = await rawGet(kc, `${endpoint}?verbose`);
+
+        if (statusCode === 401 || statusCode === 403) {
+            return { endpoint, status: 'unknown', failedChecks: [], error: `HTTP ${statusCode} (no access to ${endpoint})` };
+        }
+
+        const failedChecks = body
+            .split('\n')
+            .map(line => line.trim())
+            .filter(line => line.startsWith('[-]'))
+            .map(line => line.slice(3));
+
+        if (statusCode === 200) {
+            return { endpoint, status: 'ok', failedChecks };
+        }
+
+        if (failedChecks.length === 0) {
+            failedChecks.push(body.trim().split('\n')[0] || `HTTP ${statusCode}`);
+        }
+        return { endpoint, status: 'failed', failedChecks };
+    } catch (error: any) {
+        console.error(`[checkHealthEndpoint] Failed to query ${endpoint} (non-fatal):`, error.message);
+        return { endpoint, status: 'unknown', failedChecks: [], error: error.message };
+    }
+}
+
+/**
+ * API server readiness / liveness issues
+ */
+function detectEndpointIssues(
+    readyz: HealthEndpointStatus,
+    livez: HealthEndpointStatus,
+    selfHosted: boolean
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+
+    for (const [check, type] of [[readyz, 'API Server Not Ready'], [livez, 'API Server Not Live']] as const) {
+        if (check.status !== 'failed') continue;
+
+        const etcdFailed = check.failedChecks.some(c => c.startsWith('etcd'));
+        const rootCause = etcdFailed
+            ? 'API server cannot reach a healthy etcd (etcd down, lost quorum, or disk too slow)'
+            : `Failed checks: ${check.failedChecks.join(', ')}`;
+
+        const solution = selfHosted
+            ? `\`\`\`bash\nkubectl get --raw '${check.endpoint}?verbose'\nkubectl get pods -n kube-system -l tier=control-plane -o wide\n` +
+              `kubectl logs -n kube-system -l component=${etcdFailed ? 'etcd' : 'kube-apiserver'} --tail=100\n\`\`\``
+            : `Managed control plane: check the cloud provider status page and control-plane logs, then open a support case.\n` +
+              `\`\`\`bash\nkubectl get --raw '${check.endpoint}?verbose'\n\`\`\``;
+
+        issues.push({
+            type,
+            severity: 'critical',
+            message: `${check.endpoint} reports ${check.failedChecks.length} failed check(s)`,
+            rootCause,
+            solution,
+            resource: { kind: 'APIServer', name: 'kube-apiserver', namespace: '' },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Static control-plane pod status
+ */
+function detectStaticPodIssue(pod: k8s.V1Pod): { status: ControlPlaneComponent; issue?: DiagnosticIssue } {
+    const podName = pod.metadata?.name || 'unknown';
+    const name = pod.metadata?.labels?.['component'] || podName;
+    const containers = pod.status?.containerStatuses || [];
+    const restarts = containers.reduce((sum, c) => sum + (c.restartCount || 0), 0);
+    const crashLooping = containers.find(c => c.state?.waiting?.reason === 'CrashLoopBackOff');
+    const ready = pod.status?.phase === 'Running' && isPodReady(pod);
+    const recentExit = containers.find(c => {
+        const finishedAt = c.lastState?.terminated?.finishedAt;
+        return finishedAt && Date.now() - new Date(finishedAt).getTime() < RECENT_EXIT_MINUTES * 60_000;
+    });
+
+    let detail = `${pod.status?.phase || 'Unknown'} on ${pod.spec?.nodeName || 'unknown node'}, ${restarts} restart(s)`;
+    if (!crashLooping && ready && !recentExit) {
+        // Restarts alone may be old (e.g. node reboots or upgrades)
+        if (restarts <= RESTART_THRESHOLD) {
+            return { status: { name, source: 'static-pod', healthy: true, detail } };
+        }
+        return {
+            status: { name, source: 'static-pod', healthy: true, detail },
+            issue: {
+                type: 'Control Plane Pod Restarts',
+                severity: 'low',
+                message: `${name} (${podName}) is Ready but restarted ${restarts} times`,
+                rootCause: `No restart in the last ${RECENT_EXIT_MINUTES} minutes - likely past node reboots, upgrades or a resolved crash`,
+                solution: `Check the last termination if the count keeps growing:\n` +
+                    `\`\`\`bash\nkubectl get pod ${podName} -n kube-system -o jsonpath='{.status.containerStatuses[*].lastState.terminated}'\n\`\`\``,
+                resource: { kind: 'Pod', name: podName, namespace: 'kube-system' },
+                timestamp: new Date().toISOString(),
+            },
+        };
+    }
+
+    let rootCause: string;
+    if (crashLooping) {
+        rootCause = `Container "${crashLooping.name}" is in CrashLoopBackOff`;
+        const lastExit = crashLooping.lastState?.terminated;
+        if (lastExit) {
+            rootCause += ` (last exit code ${lastExit.exitCode}${lastExit.reason ? `, ${lastExit.reason}` : ''})`;
+        }
+    } else if (!ready) {
+        rootCause = `Pod is ${pod.status?.phase || 'Unknown'} and not Ready`;
+    } else {
+        const lastExit = recentExit?.lastState?.terminated;
+        const minutesAgo = Math.floor((Date.now() - new Date(lastExit?.finishedAt || 0).getTime()) / 60_000);
+        rootCause = `Container "${recentExit?.name}" exited ${minutesAgo} minute(s) ago (exit code ${lastExit?.exitCode}${lastExit?.reason ? `, ${lastExit.reason}` : ''}) - the component is unstable`;
+    }
+    detail += crashLooping ? ', CrashLoopBackOff' : '';
+
+    return {
+        status: { name, source: 'static-pod', healthy: false, detail },
+        issue: {
+            type: 'Control Plane Pod Unhealthy',
+            severity: 'critical',
+            message: `${name} (${podName}) is unhealthy`,
+            rootCause,
+            solution: `Static pods are run by the kubelet from /etc/kubernetes/manifests on ${pod.spec?.nodeName || 'the control-plane node'}:\n` +
+                `\`\`\`bash\nkubectl logs -n kube-system ${podName} --previous\n` +
+                `# On the node, if the API server itself is down\ncrictl ps -a --name ${name}\ncrictl logs <container-id>\n\`\`\``,
+            resource: { kind: 'Pod', name: podName, namespace: 'kube-system' },
+            timestamp: new Date().toISOString(),
+        },
+    };
+}
+
+/**
+ * Leader lease status
+ *
+ * A lease not renewed for leaseDurationSeconds (+ grace) means there is no active leader
+ */
+function checkLease(
+    name: string,
+    lease: k8s.V1Lease,
+    selfHosted: boolean
+): { status: ControlPlaneComponent; issue?: DiagnosticIssue } {
+    const holder = lease.spec?.holderIdentity || 'none';
+    const duration = lease.spec?.leaseDurationSeconds || 15;
+    const renewTime = lease.spec?.renewTime ? new Date(lease.spec.renewTime) : undefined;
+    const ageSeconds = renewTime ? Math.floor((Date.now() - renewTime.getTime()) / 1000) : undefined;
+
+    const detail = ageSeconds !== undefined
+        ? `leader ${holder}, renewed ${ageSeconds}s ago (duration ${duration}s)`
+        : `leader ${holder}, never renewed`;
+    const stale = ageSeconds === undefined || ageSeconds > duration + LEASE_GRACE_SECONDS;
+
+    if (!stale) {
+        return { status: { name, source: 'lease', healthy: true, detail } };
+    }
+
+    const solution = selfHosted
+        ? `\`\`\`bash\nkubectl get lease ${name} -n kube-system -o yaml\nkubectl get pods -n kube-system -l component=${name} -o wide\n` +
+          `kubectl logs -n kube-system -l component=${name} --tail=100 | grep -i "leader\\|lease"\n\`\`\``
+        : `Managed control plane: ${name} is run by the provider. Check the provider status page and open a support case.\n` +
+          `\`\`\`bash\nkubectl get lease ${name} -n kube-system -o yaml\n\`\`\``;
+
+    return {
+        status: { name, source: 'lease', healthy: false, detail },
+        issue: {
+            type: 'Stale Leader Lease',
+            severity: 'critical',
+            message: ageSeconds !== undefined
+                ? `${name} leader lease was last renewed ${ageSeconds}s ago (holder: ${holder})`
+                : `${name} leader lease has never been renewed`,
+            rootCause: `No active ${name} leader (crashed, stuck, or cannot reach the API server). ${LEADER_IMPACT[name]}`,
+            solution,
+            resource: { kind: 'Lease', name, namespace: 'kube-system' },
+            timestamp: new Date().toISOString(),
+        },
+    };
+}
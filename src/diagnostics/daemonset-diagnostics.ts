@@ -0,0 +1,336 @@
+/**
+ * DaemonSet diagnostics module
+ *
+ * Compares DaemonSet pods against the node list
+ * to find nodes that are missing a daemon pod and explain why
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type {
+    DaemonSetDiagnostics,
+    DiagnosticIssue,
+    NodeCoverage,
+} from '../types.js';
+import { getResourceEvents, isPodReady } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import {
+    findUntoleratedTaints,
+    formatTaint,
+    matchesNodeSelector,
+    matchesRequiredNodeAffinity,
+} from '../utils/scheduling.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/**
+ * Tolerations the DaemonSet controller adds to every daemon pod automatically
+ */
+const DAEMONSET_DEFAULT_TOLERATIONS: k8s.V1Toleration[] = [
+    { key: 'node.kubernetes.io/not-ready', operator: 'Exists', effect: 'NoExecute' },
+    { key: 'node.kubernetes.io/unreachable', operator: 'Exists', effect: 'NoExecute' },
+    { key: 'node.kubernetes.io/disk-pressure', operator: 'Exists', effect: 'NoSchedule' },
+    { key: 'node.kubernetes.io/memory-pressure', operator: 'Exists', effect: 'NoSchedule' },
+    { key: 'node.kubernetes.io/pid-pressure', operator: 'Exists', effect: 'NoSchedule' },
+    { key: 'node.kubernetes.io/unschedulable', operator: 'Exists', effect: 'NoSchedule' },
+];
+
+/**
+ * Diagnose DaemonSet node coverage
+ *
+ * A daemon missing on a single node is invisible in cluster-wide counts.
+ * Checks every node and names the reason it has no healthy daemon pod
+ */
+export async function diagnoseDaemonSet(
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    daemonSetName: string
+): Promise<DaemonSetDiagnostics> {
+    try {
+        console.error(`[diagnoseDaemonSet] Starting diagnostics for daemonset ${daemonSetName} in namespace ${namespace}`);
+
+        const ds = await withRetry(
+            () => appsApi.readNamespacedDaemonSet({ name: daemonSetName, namespace }),
+            { maxAttempts: 3, initialDelay: 500 }
+        ).catch((error) => {
+            throw new Error(`Cannot read daemonset ${daemonSetName}: ${error.message}`);
+        });
+
+        const [nodesResponse, podsResponse, dsEvents] = await Promise.all([
+            withRetry(() => coreApi.listNode(), { maxAttempts: 2, initialDelay: 500 }),
+            withRetry(() => coreApi.listNamespacedPod({ namespace }), { maxAttempts: 2, initialDelay: 500 }),
+            getResourceEvents(coreApi, namespace, daemonSetName),
+        ]);
+
+        const podSpec = ds.spec?.template?.spec;
+        const tolerations = [...(podSpec?.tolerations || []), ...DAEMONSET_DEFAULT_TOLERATIONS];
+        if (podSpec?.hostNetwork) {
+            tolerations.push({ key: 'node.kubernetes.io/network-unavailable', operator: 'Exists', effect: 'NoSchedule' });
+        }
+
+        const daemonPods = podsResponse.items
+            .filter(p => p.metadata?.ownerReferences?.some(o => o.uid === ds.metadata?.uid));
+        const podsByNode = new Map(daemonPods.map(p => [getTargetNodeName(p), p]));
+
+        // Unbound daemon pods carry the scheduler's verdict in their events
+        const schedulingFailures = new Map(await Promise.all(
+            daemonPods
+                .filter(p => !p.spec?.nodeName)
+                .map(async p => {
+                    const podName = p.metadata?.name || '';
+                    const events = await getResourceEvents(coreApi, namespace, podName);
+                    const failed = events.filter(e => e.reason === 'FailedScheduling').pop();
+                    return [podName, failed?.message] as const;
+                })
+        ));
+
+        // Evaluate every node
+        const nodeCoverage: NodeCoverage[] = nodesResponse.items.map(node => {
+            const nodeName = node.metadata?.name || 'unknown';
+            const pod = podsByNode.get(nodeName);
+
+            if (!pod) {
+                const exclusionReason = getExclusionReason(node, podSpec, tolerations);
+                return exclusionReason
+                    ? { nodeName, status: 'Excluded', reason: exclusionReason }
+                    : { nodeName, status: 'Missing', reason: getMissingReason(dsEvents) };
+            }
+
+            if (!pod.spec?.nodeName) {
+                const podName = pod.metadata?.name || '';
+                const failure = schedulingFailures.get(podName);
+                return {
+                    nodeName,
+                    podName,
+                    status: 'Pending',
+                    reason: failure ? `FailedScheduling: ${failure}` : 'Daemon pod is waiting to be scheduled',
+                };
+            }
+
+            const crashing = pod.status?.containerStatuses?.find(c =>
+                c.state?.waiting?.reason === 'CrashLoopBackOff' || (c.restartCount || 0) > 5
+            );
+            if (crashing) {
+                return {
+                    nodeName,
+                    podName: pod.metadata?.name,
+                    status: 'CrashLooping',
+                    reason: `Container "${crashing.name}" restarted ${crashing.restartCount} times` +
+                        (crashing.lastState?.terminated ? ` (last exit code ${crashing.lastState.terminated.exitCode})` : ''),
+                };
+            }
+
+            if (!isPodReady(pod)) {
+                const waiting = pod.status?.containerStatuses?.find(c => c.state?.waiting)?.state?.waiting;
+                return {
+                    nodeName,
+                    podName: pod.metadata?.name,
+                    status: 'NotReady',
+                    reason: waiting ? `${waiting.reason}${waiting.message ? `: ${waiting.message}` : ''}` : `Pod is ${pod.status?.phase}`,
+                };
+            }
+
+            return { nodeName, podName: pod.metadata?.name, status: 'Running' };
+        });
+
+        const issues = detectCoverageIssues(ds, nodeCoverage);
+        const summary = generateDaemonSetSummary(ds, nodeCoverage, issues);
+
+        return {
+            daemonSetInfo: {
+                name: ds.metadata?.name || daemonSetName,
+                namespace: ds.metadata?.namespace || namespace,
+                desiredNumberScheduled: ds.status?.desiredNumberScheduled ?? 0,
+                currentNumberScheduled: ds.status?.currentNumberScheduled ?? 0,
+                numberReady: ds.status?.numberReady ?? 0,
+                numberAvailable: ds.status?.numberAvailable ?? 0,
+                updatedNumberScheduled: ds.status?.updatedNumberScheduled ?? 0,
+                numberMisscheduled: ds.status?.numberMisscheduled ?? 0,
+            },
+            nodeCoverage,
+            issues,
+            summary,
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseDaemonSet] Fatal error:`, error);
+        throw new Error(`DaemonSet diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Explain why the DaemonSet does not target a node
+ *
+ * Returns undefined when the node is eligible
+ */
+function getExclusionReason(
+    node: k8s.V1Node,
+    podSpec: k8s.V1PodSpec | undefined,
+    tolerations: k8s.V1Toleration[]
+): string | undefined {
+    const labels = node.metadata?.labels || {};
+
+    if (!matchesNodeSelector(podSpec?.nodeSelector, labels)) {
+        const mismatched = Object.entries(podSpec?.nodeSelector || {})
+            .filter(([key, value]) => labels[key] !== value)
+            .map(([key, value]) => `${key}=${value}`);
+        return `nodeSelector mismatch (node lacks ${mismatched.join(', ')})`;
+    }
+
+    if (!matchesRequiredNodeAffinity(podSpec?.affinity, node)) {
+        return 'Required node affinity does not match node labels';
+    }
+
+    const untolerated = findUntoleratedTaints(node.spec?.taints || [], tolerations);
+    if (untolerated.length > 0) {
+        return `Taint not tolerated: ${untolerated.map(formatTaint).join(', ')}`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Node a daemon pod belongs to
+ *
+ * The controller pins daemon pods with a metadata.name matchFields affinity,
+ * so pods the scheduler has not bound yet can still be mapped to their node
+ */
+function getTargetNodeName(pod: k8s.V1Pod): string {
+    if (pod.spec?.nodeName) {
+        return pod.spec.nodeName;
+    }
+
+    const terms = pod.spec?.affinity?.nodeAffinity?.requiredDuringSchedulingIgnoredDuringExecution?.nodeSelectorTerms || [];
+    for (const term of terms) {
+        const field = term.matchFields?.find(f => f.key === 'metadata.name' && f.operator === 'In');
+        if (field?.values?.length) {
+            return field.values[0];
+        }
+    }
+    return '';
+}
+
+/**
+ * Explain why an eligible node has no daemon pod
+ */
+function getMissingReason(dsEvents: { reason: string; message: string }[]): string {
+    const failed = dsEvents.find(e => e.reason === 'FailedCreate' || e.reason === 'FailedPlacement');
+    if (failed) {
+        return `${failed.reason}: ${failed.message}`;
+    }
+    return 'Node is eligible but no daemon pod exists (insufficient resources or controller delay)';
+}
+
+/**
+ * Detect coverage issues
+ */
+function detectCoverageIssues(ds: k8s.V1DaemonSet, nodeCoverage: NodeCoverage[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = ds.metadata?.name || 'unknown';
+    const namespace = ds.metadata?.namespace || 'default';
+    const resource = { kind: 'DaemonSet', name, namespace };
+
+    for (const node of nodeCoverage.filter(n => n.status === 'CrashLooping')) {
+        issues.push({
+            type: 'Daemon Pod CrashLooping',
+            severity: 'critical',
+            message: `Daemon pod "${node.podName}" on node "${node.nodeName}" is crash-looping`,
+            rootCause: node.reason || 'Container is repeatedly failing',
+            solution: `Node-specific failures often come from host paths, kernel modules or node config:\n\`\`\`bash\nkubectl logs ${node.podName} -n ${namespace} --previous\nkubectl describe node ${node.nodeName}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    for (const node of nodeCoverage.filter(n => n.status === 'NotReady')) {
+        issues.push({
+            type: 'Daemon Pod Not Ready',
+            severity: 'high',
+            message: `Daemon pod "${node.podName}" on node "${node.nodeName}" is not ready`,
+            rootCause: node.reason || 'Unknown reason',
+            solution: `\`\`\`bash\nkubectl describe pod ${node.podName} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    for (const node of nodeCoverage.filter(n => n.status === 'Pending')) {
+        issues.push({
+            type: 'Daemon Pod Pending',
+            severity: 'high',
+            message: `Daemon pod "${node.podName}" for node "${node.nodeName}" cannot be scheduled`,
+            rootCause: node.reason || 'Unknown reason',
+            solution: `Daemon pods are pinned to their node, so they cannot move elsewhere. Free up resources or raise the DaemonSet priority:\n\`\`\`bash\nkubectl describe pod ${node.podName} -n ${namespace}\nkubectl describe node ${node.nodeName}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    for (const node of nodeCoverage.filter(n => n.status === 'Missing')) {
+        issues.push({
+            type: 'Daemon Pod Missing',
+            severity: 'high',
+            message: `Node "${node.nodeName}" is eligible but has no daemon pod`,
+            rootCause: node.reason || 'Unknown reason',
+            solution: `\`\`\`bash\nkubectl describe daemonset ${name} -n ${namespace}\nkubectl describe node ${node.nodeName}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // Group excluded nodes by reason
+    const excludedByReason = new Map<string, string[]>();
+    for (const node of nodeCoverage.filter(n => n.status === 'Excluded')) {
+        const reason = node.reason || 'Unknown reason';
+        excludedByReason.set(reason, [...(excludedByReason.get(reason) || []), node.nodeName]);
+    }
+
+    for (const [reason, nodes] of excludedByReason.entries()) {
+        const isTaint = reason.startsWith('Taint');
+        issues.push({
+            type: 'Node Not Covered',
+            severity: 'medium',
+            message: `${nodes.length} node(s) excluded from DaemonSet: ${nodes.join(', ')}`,
+            rootCause: reason,
+            solution: isTaint
+                ? `If the daemon must run everywhere (log shippers, CNI), add a toleration:\n\`\`\`yaml\ntolerations:\n- operator: Exists\n\`\`\``
+                : 'Verify nodeSelector/affinity in the DaemonSet template matches the labels of these nodes:\n```bash\nkubectl get nodes --show-labels\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    const misscheduled = ds.status?.numberMisscheduled ?? 0;
+    if (misscheduled > 0) {
+        issues.push({
+            type: 'Misscheduled Daemon Pods',
+            severity: 'low',
+            message: `${misscheduled} daemon pod(s) run on nodes they should not`,
+            rootCause: 'Node labels or taints changed after the pod was scheduled',
+            solution: 'Pods are removed by the controller. If they stay, check NoExecute taints and node labels',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Generate DaemonSet summary
+ */
+function generateDaemonSetSummary(
+    ds: k8s.V1DaemonSet,
+    nodeCoverage: NodeCoverage[],
+    issues: DiagnosticIssue[]
+): string {
+    const running = nodeCoverage.filter(n => n.status === 'Running').length;
+    const excluded = nodeCoverage.filter(n => n.status === 'Excluded').length;
+
+    let summary = `DaemonSet "${ds.metadata?.name}": ${ds.status?.numberReady ?? 0}/${ds.status?.desiredNumberScheduled ?? 0} ready.\n`;
+    summary += `Nodes: ${running}/${nodeCoverage.length} healthy, ${excluded} excluded\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
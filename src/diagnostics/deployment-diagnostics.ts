@@ -0,0 +1,383 @@
+/**
+ * Deployment diagnostics module
+ *
+ * Follows Deployment -> ReplicaSet -> Pod chain
+ * to explain why a rollout is stuck
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type {
+    DeploymentDiagnostics,
+    DiagnosticIssue,
+    PodDiagnostics,
+    ReplicaSetStatus,
+} from '../types.js';
+import { diagnosePod, getResourceEvents, isPodReady } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { labelSelectorToString } from '../utils/selectors.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+const REVISION_ANNOTATION = 'deployment.kubernetes.io/revision';
+
+/** Maximum number of failing pods to run full diagnostics on */
+const MAX_POD_DIAGNOSES = 3;
+
+/** Waiting reasons of a container that is still being set up */
+const STARTING_REASONS = ['ContainerCreating', 'PodInitializing'];
+
+/**
+ * Diagnose deployment rollout
+ *
+ * Most incidents start as "the deploy hangs", not as a single pod name.
+ * Reads the deployment, its ReplicaSets and pods, and explains what blocks the rollout
+ */
+export async function diagnoseDeployment(
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    deploymentName: string,
+    metricsApi?: k8s.Metrics
+): Promise<DeploymentDiagnostics> {
+    try {
+        console.error(`[diagnoseDeployment] Starting diagnostics for deployment ${deploymentName} in namespace ${namespace}`);
+
+        const deployment = await withRetry(
+            () => appsApi.readNamespacedDeployment({ name: deploymentName, namespace }),
+            { maxAttempts: 3, initialDelay: 500 }
+        ).catch((error) => {
+            throw new Error(`Cannot read deployment ${deploymentName}: ${error.message}`);
+        });
+
+        const labelSelector = labelSelectorToString(deployment.spec?.selector);
+
+        const [rsResponse, podsResponse] = await Promise.all([
+            withRetry(() => appsApi.listNamespacedReplicaSet({ namespace, labelSelector }), {
+                maxAttempts: 2,
+                initialDelay: 500,
+            }),
+            withRetry(() => coreApi.listNamespacedPod({ namespace, labelSelector }), {
+                maxAttempts: 2,
+                initialDelay: 500,
+            }),
+        ]);
+
+        // Only ReplicaSets actually owned by this deployment
+        const ownedReplicaSets = rsResponse.items
+            .filter(rs => rs.metadata?.ownerReferences?.some(o => o.uid === deployment.metadata?.uid))
+            .sort((a, b) => getRevision(b) - getRevision(a));
+
+        const currentRevision = getRevision(deployment);
+        const newRS = ownedReplicaSets.find(rs => getRevision(rs) === currentRevision) || ownedReplicaSets[0];
+
+        const replicaSets: ReplicaSetStatus[] = ownedReplicaSets.map(rs => ({
+            name: rs.metadata?.name || 'unknown',
+            revision: getRevision(rs),
+            desired: rs.spec?.replicas ?? 0,
+            ready: rs.status?.readyReplicas ?? 0,
+            available: rs.status?.availableReplicas ?? 0,
+            isCurrent: rs === newRS,
+            images: (rs.spec?.template?.spec?.containers || []).map(c => c.image || ''),
+        }));
+
+        // Pods created by the new revision
+        const newPods = newRS
+            ? podsResponse.items.filter(p =>
+                p.metadata?.ownerReferences?.some(o => o.kind === 'ReplicaSet' && o.name === newRS.metadata?.name)
+            )
+            : [];
+        // Not-ready pods that are still starting are normal during a rollout
+        const failingNewPods = newPods.filter(p => !isPodReady(p) && isPodFailing(p, deployment));
+        const startingNewPods = newPods.filter(p => !isPodReady(p) && !failingNewPods.includes(p));
+
+        // Events of the new ReplicaSet (FailedCreate etc.)
+        const rsEvents = newRS
+            ? await getResourceEvents(coreApi, namespace, newRS.metadata?.name || '')
+            : [];
+
+        const issues: DiagnosticIssue[] = [];
+        const resource = { kind: 'Deployment', name: deploymentName, namespace };
+
+        // 1. Deployment conditions
+        issues.push(...detectConditionIssues(deployment, resource));
+
+        // 2. Pod creation failures (quota, admission, etc.)
+        if (newRS && (newRS.spec?.replicas ?? 0) > 0 && newPods.length === 0) {
+            const failedCreate = rsEvents.find(e => e.reason === 'FailedCreate');
+            if (failedCreate) {
+                issues.push({
+                    type: 'Pod Creation Failed',
+                    severity: 'critical',
+                    message: `ReplicaSet "${newRS.metadata?.name}" cannot create any pods`,
+                    rootCause: failedCreate.message,
+                    solution: '1. Check ResourceQuota and LimitRange in the namespace\n2. Check admission policies (PodSecurity, webhooks)\n```bash\nkubectl describe rs ' + newRS.metadata?.name + ' -n ' + namespace + '\nkubectl describe quota -n ' + namespace + '\n```',
+                    resource,
+                    relatedEvents: [failedCreate],
+                    timestamp: new Date().toISOString(),
+                });
+            }
+        }
+
+        // 3. Failing pods of the new revision
+        const failingPods: PodDiagnostics[] = [];
+        for (const pod of failingNewPods.slice(0, MAX_POD_DIAGNOSES)) {
+            try {
+                failingPods.push(await diagnosePod(coreApi, namespace, pod.metadata?.name || '', metricsApi));
+            } catch (error: any) {
+                console.error(`[diagnoseDeployment] Failed to diagnose pod ${pod.metadata?.name} (non-fatal):`, error.message);
+            }
+        }
+
+        if (failingNewPods.length > 0) {
+            const topIssue = failingPods
+                .flatMap(d => d.issues)
+                .sort((a, b) => severityRank(a) - severityRank(b))[0];
+
+            issues.push({
+                type: 'New Revision Pods Failing',
+                severity: 'critical',
+                message: `${failingNewPods.length}/${newPods.length} pod(s) of new ReplicaSet "${newRS?.metadata?.name}" (revision ${currentRevision}) are failing`,
+                rootCause: topIssue
+                    ? `${topIssue.type}: ${topIssue.rootCause}`
+                    : 'New pods never become Ready (check readiness probe and startup time)',
+                solution: `See pod diagnostics below, or roll back to the previous revision:\n\`\`\`bash\nkubectl rollout undo deployment/${deploymentName} -n ${namespace}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        // 4. maxUnavailable / maxSurge budget exhausted
+        const blockedIssue = detectRollingUpdateBlock(deployment, failingNewPods.length, resource);
+        if (blockedIssue) {
+            issues.push(blockedIssue);
+        }
+
+        const rolloutStatus = getRolloutStatus(deployment, issues);
+        const summary = generateDeploymentSummary(deployment, rolloutStatus, startingNewPods.length, issues);
+
+        return {
+            deploymentInfo: {
+                name: deployment.metadata?.name || deploymentName,
+                namespace: deployment.metadata?.namespace || namespace,
+                replicas: deployment.spec?.replicas ?? 1,
+                updatedReplicas: deployment.status?.updatedReplicas ?? 0,
+                readyReplicas: deployment.status?.readyReplicas ?? 0,
+                availableReplicas: deployment.status?.availableReplicas ?? 0,
+                unavailableReplicas: deployment.status?.unavailableReplicas ?? 0,
+                revision: currentRevision || undefined,
+                strategy: deployment.spec?.strategy?.type || 'RollingUpdate',
+                paused: deployment.spec?.paused || false,
+            },
+            rolloutStatus,
+            replicaSets,
+            issues,
+            failingPods,
+            summary,
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseDeployment] Fatal error:`, error);
+        throw new Error(`Deployment diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Detect issues from deployment conditions
+ */
+function detectConditionIssues(
+    deployment: k8s.V1Deployment,
+    resource: DiagnosticIssue['resource']
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const conditions = deployment.status?.conditions || [];
+    const name = deployment.metadata?.name;
+    const namespace = deployment.metadata?.namespace;
+
+    const progressing = conditions.find(c => c.type === 'Progressing');
+    if (progressing?.status === 'False' && progressing.reason === 'ProgressDeadlineExceeded') {
+        issues.push({
+            type: 'Rollout Stuck: ProgressDeadlineExceeded',
+            severity: 'critical',
+            message: `Rollout made no progress within ${deployment.spec?.progressDeadlineSeconds ?? 600}s`,
+            rootCause: progressing.message || 'New ReplicaSet did not become available in time',
+            solution: `1. Fix the failing pods of the new revision\n2. Or roll back:\n\`\`\`bash\nkubectl rollout undo deployment/${name} -n ${namespace}\nkubectl rollout status deployment/${name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    const replicaFailure = conditions.find(c => c.type === 'ReplicaFailure' && c.status === 'True');
+    if (replicaFailure) {
+        issues.push({
+            type: `Replica Failure: ${replicaFailure.reason || 'Unknown'}`,
+            severity: 'high',
+            message: 'Deployment controller failed to create or delete pods',
+            rootCause: replicaFailure.message || 'Unknown reason',
+            solution: `Check ResourceQuota and admission policies:\n\`\`\`bash\nkubectl describe quota -n ${namespace}\nkubectl get events -n ${namespace} --field-selector reason=FailedCreate\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    if (deployment.spec?.paused) {
+        issues.push({
+            type: 'Rollout Paused',
+            severity: 'medium',
+            message: 'Deployment rollout is paused',
+            rootCause: 'spec.paused is true, changes to the pod template are not rolled out',
+            solution: `\`\`\`bash\nkubectl rollout resume deployment/${name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect rolling update blocked by maxUnavailable/maxSurge
+ *
+ * When new pods never become ready, the controller cannot remove more old pods
+ * without violating maxUnavailable, and cannot add more new pods beyond maxSurge
+ */
+function detectRollingUpdateBlock(
+    deployment: k8s.V1Deployment,
+    failingNewPodCount: number,
+    resource: DiagnosticIssue['resource']
+): DiagnosticIssue | undefined {
+    if (deployment.spec?.strategy?.type === 'Recreate' || failingNewPodCount === 0) {
+        return undefined;
+    }
+
+    const replicas = deployment.spec?.replicas ?? 1;
+    const updated = deployment.status?.updatedReplicas ?? 0;
+    const available = deployment.status?.availableReplicas ?? 0;
+    const totalPods = deployment.status?.replicas ?? 0;
+
+    if (updated >= replicas && available >= replicas) {
+        return undefined;
+    }
+
+    const rollingUpdate = deployment.spec?.strategy?.rollingUpdate;
+    const maxSurge = resolveIntOrPercent(rollingUpdate?.maxSurge ?? '25%', replicas, true);
+    let maxUnavailable = resolveIntOrPercent(rollingUpdate?.maxUnavailable ?? '25%', replicas, false);
+    if (maxSurge === 0 && maxUnavailable === 0) {
+        maxUnavailable = 1;
+    }
+
+    const minAvailable = replicas - maxUnavailable;
+    const canScaleDownOld = available > minAvailable;
+    const canScaleUpNew = totalPods < replicas + maxSurge;
+
+    if (canScaleDownOld || canScaleUpNew) {
+        return undefined;
+    }
+
+    return {
+        type: 'Rollout Blocked by maxUnavailable',
+        severity: 'high',
+        message: `Rollout cannot proceed: ${available}/${replicas} available (minimum ${minAvailable}), surge budget of ${maxSurge} pod(s) exhausted`,
+        rootCause: `New revision pods are not Ready, so old pods cannot be removed without violating maxUnavailable=${maxUnavailable}, and no more new pods can be added beyond maxSurge=${maxSurge}`,
+        solution: `Fix the failing new pods first. Raising maxSurge/maxUnavailable only helps if new pods can become Ready:\n\`\`\`yaml\nstrategy:\n  rollingUpdate:\n    maxSurge: ${maxSurge + 1}\n    maxUnavailable: ${maxUnavailable}\n\`\`\``,
+        resource,
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * Determine rollout status
+ */
+function getRolloutStatus(
+    deployment: k8s.V1Deployment,
+    issues: DiagnosticIssue[]
+): DeploymentDiagnostics['rolloutStatus'] {
+    if (deployment.spec?.paused) return 'Paused';
+    if (issues.some(i => i.severity === 'critical' || i.type === 'Rollout Blocked by maxUnavailable')) return 'Stuck';
+
+    const replicas = deployment.spec?.replicas ?? 1;
+    const status = deployment.status || {};
+    const observed = (status.observedGeneration ?? 0) >= (deployment.metadata?.generation ?? 0);
+
+    if (
+        observed &&
+        (status.updatedReplicas ?? 0) === replicas &&
+        (status.availableReplicas ?? 0) === replicas &&
+        (status.replicas ?? 0) === replicas
+    ) {
+        return 'Complete';
+    }
+
+    return 'Progressing';
+}
+
+/**
+ * Generate deployment summary
+ */
+function generateDeploymentSummary(
+    deployment: k8s.V1Deployment,
+    rolloutStatus: DeploymentDiagnostics['rolloutStatus'],
+    startingPods: number,
+    issues: DiagnosticIssue[]
+): string {
+    const replicas = deployment.spec?.replicas ?? 1;
+    const status = deployment.status || {};
+
+    let summary = `Deployment "${deployment.metadata?.name}" rollout is ${rolloutStatus}.\n`;
+    summary += `Replicas: ${status.updatedReplicas ?? 0} updated, ${status.readyReplicas ?? 0} ready, ${status.availableReplicas ?? 0} available (desired ${replicas})\n`;
+    if (startingPods > 0) {
+        summary += `New pods still starting: ${startingPods}\n`;
+    }
+    summary += '\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+function getRevision(obj: { metadata?: k8s.V1ObjectMeta }): number {
+    return parseInt(obj.metadata?.annotations?.[REVISION_ANNOTATION] || '0') || 0;
+}
+
+/**
+ * Whether a not-ready pod of the new revision is really failing, not just starting
+ *
+ * Failing: failed phase, unschedulable, an error waiting reason, restarts,
+ * or still not ready after progressDeadlineSeconds (at least minReadySeconds)
+ */
+function isPodFailing(pod: k8s.V1Pod, deployment: k8s.V1Deployment): boolean {
+    if (pod.status?.phase === 'Failed') return true;
+    if (pod.status?.conditions?.some(c => c.type === 'PodScheduled' && c.status === 'False' && c.reason === 'Unschedulable')) {
+        return true;
+    }
+
+    const statuses = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])];
+    if (statuses.some(s => (s.restartCount || 0) > 0)) return true;
+    if (statuses.some(s => s.state?.waiting?.reason && !STARTING_REASONS.includes(s.state.waiting.reason))) return true;
+
+    const created = pod.metadata?.creationTimestamp;
+    if (!created) return false;
+    const deadlineSeconds = Math.max(
+        deployment.spec?.progressDeadlineSeconds ?? 600,
+        deployment.spec?.minReadySeconds ?? 0
+    );
+    return (Date.now() - new Date(created).getTime()) / 1000 > deadlineSeconds;
+}
+
+/**
+ * Resolve IntOrString value ("25%" or 1) against total replicas
+ */
+function resolveIntOrPercent(value: number | string, total: number, roundUp: boolean): number {
+    if (typeof value === 'number') return value;
+    if (value.endsWith('%')) {
+        const raw = (parseInt(value.slice(0, -1)) / 100) * total;
+        return roundUp ? Math.ceil(raw) : Math.floor(raw);
+    }
+    return parseInt(value) || 0;
+}
+
+function severityRank(issue: DiagnosticIssue): number {
+    const severityOrder = { critical: 0, high: 1, medium: 2, low: 3, info: 4 };
+    return severityOrder[issue.severity];
+}
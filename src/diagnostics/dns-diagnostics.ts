@@ -0,0 +1,415 @@
+/**
+ * Cluster DNS diagnostics module
+ *
+ * Turns "DNS lookup failed" in application logs into a concrete
+ * cluster-side finding: CoreDNS health, kube-dns endpoints, Corefile, pod DNS settings
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, NetworkDiagnostics } from '../types.js';
+import { isPodReady } from './pod-diagnostics.js';
+import { countReadyEndpoints } from './service-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+const DNS_NAMESPACE = 'kube-system';
+
+/** Kubernetes default ndots for ClusterFirst pods */
+const DEFAULT_NDOTS = 5;
+
+/** Host name in resolver errors (getaddrinfo ENOTFOUND x, lookup x on 10.96.0.10:53: no such host) */
+const LOOKUP_HOST_PATTERN = /(?:ENOTFOUND|EAI_AGAIN|lookup|resolve)\s+([a-z0-9-]+(?:\.[a-z0-9-]+)+)/gi;
+
+/**
+ * Diagnose cluster DNS
+ *
+ * Cluster-side checks always run; pod DNS settings are checked when a pod is given.
+ * Log lines of that pod, when available, back the ndots finding with real lookups
+ */
+export async function diagnoseDNS(
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api,
+    discoveryApi: k8s.DiscoveryV1Api,
+    namespace?: string,
+    podName?: string,
+    logLines: string[] = []
+): Promise<NetworkDiagnostics> {
+    try {
+        console.error(`[diagnoseDNS] Starting DNS diagnostics${podName ? ` for pod ${namespace}/${podName}` : ''}`);
+
+        const dnsIssues: DiagnosticIssue[] = [];
+
+        // 1. CoreDNS/kube-dns workload
+        dnsIssues.push(...await detectDNSWorkloadIssues(appsApi, coreApi));
+
+        // 2. kube-dns Service endpoints
+        dnsIssues.push(...await detectDNSServiceIssues(coreApi, discoveryApi));
+
+        // 3. Corefile
+        dnsIssues.push(...await detectCorefileIssues(coreApi));
+
+        // 4. Pod dnsPolicy / dnsConfig
+        // Non-fatal: the pod may be gone (e.g. replaced) while cluster-side findings still apply
+        if (namespace && podName) {
+            try {
+                const pod = await withRetry(() => coreApi.readNamespacedPod({ name: podName, namespace }), { maxAttempts: 3, initialDelay: 500 });
+                dnsIssues.push(...detectPodDNSIssues(pod, logLines));
+            } catch (error: any) {
+                console.error(`[diagnoseDNS] Failed to read pod ${namespace}/${podName} (non-fatal):`, error.message);
+            }
+        }
+
+        return {
+            serviceConnectivity: [],
+            serviceIssues: [],
+            dnsIssues,
+            networkPolicyIssues: [],
+            ingressIssues: [],
+            summary: formatIssueCounts(dnsIssues),
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseDNS] Fatal error:`, error);
+        throw new Error(`DNS diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Detect CoreDNS/kube-dns Deployment and pod issues
+ */
+async function detectDNSWorkloadIssues(appsApi: k8s.AppsV1Api, coreApi: k8s.CoreV1Api): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+
+    try {
+        const [deployments, pods] = await Promise.all([
+            withRetry(() => appsApi.listNamespacedDeployment({ namespace: DNS_NAMESPACE, labelSelector: 'k8s-app=kube-dns' }), { maxAttempts: 2, initialDelay: 500 }),
+            withRetry(() => coreApi.listNamespacedPod({ namespace: DNS_NAMESPACE, labelSelector: 'k8s-app=kube-dns' }), { maxAttempts: 2, initialDelay: 500 }),
+        ]);
+
+        const deployment = deployments.items[0];
+        if (!deployment) {
+            issues.push({
+                type: 'DNS Deployment Not Found',
+                severity: 'high',
+                message: 'No CoreDNS/kube-dns Deployment (k8s-app=kube-dns) found in kube-system',
+                rootCause: 'Cluster DNS may not be installed, or it runs under a different label (e.g. managed DNS add-on)',
+                solution: '```bash\nkubectl get deploy,pods -n kube-system | grep -i dns\n```',
+                resource: { kind: 'Deployment', name: 'coredns', namespace: DNS_NAMESPACE },
+                timestamp: new Date().toISOString(),
+            });
+            return issues;
+        }
+
+        const name = deployment.metadata?.name || 'coredns';
+        const desired = deployment.spec?.replicas ?? 1;
+        const ready = deployment.status?.readyReplicas || 0;
+        const resource = { kind: 'Deployment', name, namespace: DNS_NAMESPACE };
+
+        if (ready === 0) {
+            issues.push({
+                type: 'Cluster DNS Down',
+                severity: 'critical',
+                message: `${name} has 0/${desired} ready replicas - all in-cluster name resolution fails`,
+                rootCause: describeDNSPodProblems(pods.items) || 'No ready DNS pods',
+                solution: `\`\`\`bash\nkubectl get pods -n ${DNS_NAMESPACE} -l k8s-app=kube-dns -o wide\nkubectl logs -n ${DNS_NAMESPACE} -l k8s-app=kube-dns --tail=50\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else if (ready < desired) {
+            issues.push({
+                type: 'Cluster DNS Degraded',
+                severity: 'medium',
+                message: `${name} has ${ready}/${desired} ready replicas`,
+                rootCause: describeDNSPodProblems(pods.items) || 'Some DNS pods are not ready; lookups routed to them may time out',
+                solution: `\`\`\`bash\nkubectl get pods -n ${DNS_NAMESPACE} -l k8s-app=kube-dns -o wide\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else if (desired < 2) {
+            issues.push({
+                type: 'Single DNS Replica',
+                severity: 'low',
+                message: `${name} runs a single replica`,
+                rootCause: 'A node drain or DNS pod restart causes a cluster-wide DNS outage',
+                solution: `\`\`\`bash\nkubectl scale deployment ${name} -n ${DNS_NAMESPACE} --replicas=2\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        // CoreDNS "loop" plugin crashes the pod when it detects a forwarding loop
+        const crashLooping = pods.items.filter(p =>
+            p.status?.containerStatuses?.some(c => c.state?.waiting?.reason === 'CrashLoopBackOff')
+        );
+        if (crashLooping.length > 0) {
+            issues.push({
+                type: 'DNS Pods CrashLooping',
+                severity: 'high',
+                message: `${crashLooping.length} DNS pod(s) in CrashLoopBackOff: ${crashLooping.map(p => p.metadata?.name).join(', ')}`,
+                rootCause: 'Most common cause is a forwarding loop: the node\'s /etc/resolv.conf points at a local resolver (e.g. systemd-resolved 127.0.0.53) and CoreDNS forwards to itself',
+                solution: `1. Check logs for "Loop ... detected"\n\`\`\`bash\nkubectl logs -n ${DNS_NAMESPACE} ${crashLooping[0].metadata?.name} --previous\n\`\`\`\n2. Point kubelet --resolv-conf at /run/systemd/resolve/resolv.conf, or forward to an explicit upstream in the Corefile`,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    } catch (error: any) {
+        console.error(`[detectDNSWorkloadIssues] Failed to inspect DNS workload (non-fatal):`, error.message);
+    }
+
+    return issues;
+}
+
+/**
+ * Detect kube-dns Service issues
+ */
+async function detectDNSServiceIssues(coreApi: k8s.CoreV1Api, discoveryApi: k8s.DiscoveryV1Api): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+
+    try {
+        const service = await withRetry(() => coreApi.readNamespacedService({ name: 'kube-dns', namespace: DNS_NAMESPACE }), { maxAttempts: 2, initialDelay: 500 });
+        const readyEndpoints = await countReadyEndpoints(coreApi, discoveryApi, service);
+
+        if (readyEndpoints === 0) {
+            issues.push({
+                type: 'kube-dns Has No Endpoints',
+                severity: 'critical',
+                message: `kube-dns Service (${service.spec?.clusterIP}) has no ready endpoints`,
+                rootCause: 'Pods send queries to the kube-dns ClusterIP, which has nothing behind it - every lookup times out',
+                solution: `\`\`\`bash\nkubectl get endpointslices -n ${DNS_NAMESPACE} -l kubernetes.io/service-name=kube-dns\nkubectl get pods -n ${DNS_NAMESPACE} -l k8s-app=kube-dns\n\`\`\``,
+                resource: { kind: 'Service', name: 'kube-dns', namespace: DNS_NAMESPACE },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    } catch (error: any) {
+        console.error(`[detectDNSServiceIssues] Failed to inspect kube-dns Service (non-fatal):`, error.message);
+    }
+
+    return issues;
+}
+
+/**
+ * Detect Corefile issues (forward / stub domains)
+ */
+async function detectCorefileIssues(coreApi: k8s.CoreV1Api): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+    const resource = { kind: 'ConfigMap', name: 'coredns', namespace: DNS_NAMESPACE };
+
+    let corefile: string | undefined;
+    try {
+        const configMap = await withRetry(() => coreApi.readNamespacedConfigMap({ name: 'coredns', namespace: DNS_NAMESPACE }), { maxAttempts: 2, initialDelay: 500 });
+        corefile = configMap.data?.['Corefile'];
+    } catch (error: any) {
+        console.error(`[detectCorefileIssues] Failed to read coredns ConfigMap (non-fatal):`, error.message);
+        return issues;
+    }
+
+    if (!corefile) {
+        return issues;
+    }
+
+    const blocks = parseCorefile(corefile);
+    const root = blocks.find(b => b.zones.some(z => z === '.' || z.startsWith('.:')));
+
+    if (!root) {
+        issues.push({
+            type: 'Corefile Missing Root Zone',
+            severity: 'high',
+            message: 'Corefile has no server block for "."',
+            rootCause: 'Names outside the configured zones (including cluster.local if it is missing) are not answered',
+            solution: `\`\`\`bash\nkubectl -n ${DNS_NAMESPACE} edit configmap coredns\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    if (!root.plugins.has('kubernetes')) {
+        issues.push({
+            type: 'Corefile Missing kubernetes Plugin',
+            severity: 'critical',
+            message: 'Root server block has no "kubernetes" plugin',
+            rootCause: 'Service names (*.svc.cluster.local) are not resolved at all',
+            solution: 'Restore the plugin in the Corefile:\n```\nkubernetes cluster.local in-addr.arpa ip6.arpa {\n   pods insecure\n   fallthrough in-addr.arpa ip6.arpa\n}\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    if (!root.plugins.has('forward') && !root.plugins.has('proxy')) {
+        issues.push({
+            type: 'Corefile Missing Upstream',
+            severity: 'medium',
+            message: 'Root server block has no "forward" plugin',
+            rootCause: 'External names (e.g. api.github.com) cannot be resolved from pods',
+            solution: 'Add an upstream:\n```\nforward . /etc/resolv.conf\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // Stub domains
+    for (const block of blocks) {
+        if (block === root) continue;
+        if (!block.plugins.has('forward') && !block.plugins.has('proxy') && !block.plugins.has('file')) {
+            issues.push({
+                type: 'Stub Domain Without Upstream',
+                severity: 'medium',
+                message: `Server block "${block.zones.join(' ')}" has no forward target`,
+                rootCause: 'Queries for this stub domain return SERVFAIL',
+                solution: `Forward the domain to its nameserver:\n\`\`\`\n${block.zones[0]} {\n    forward . 10.0.0.10\n}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect pod dnsPolicy / dnsConfig issues
+ */
+export function detectPodDNSIssues(pod: k8s.V1Pod, logLines: string[] = []): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = pod.metadata?.name || 'unknown';
+    const namespace = pod.metadata?.namespace || 'default';
+    const resource = { kind: 'Pod', name, namespace };
+    const dnsPolicy = pod.spec?.dnsPolicy || 'ClusterFirst';
+    const dnsConfig = pod.spec?.dnsConfig;
+
+    // 1. dnsPolicy
+    if (dnsPolicy === 'Default') {
+        issues.push({
+            type: 'dnsPolicy Default',
+            severity: 'high',
+            message: `Pod ${name} uses dnsPolicy "Default" (node's resolv.conf)`,
+            rootCause: 'Despite the name, "Default" bypasses cluster DNS - Service names do not resolve',
+            solution: 'Use cluster DNS:\n```yaml\nspec:\n  dnsPolicy: ClusterFirst\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    } else if (dnsPolicy === 'ClusterFirst' && pod.spec?.hostNetwork) {
+        issues.push({
+            type: 'hostNetwork Without ClusterFirstWithHostNet',
+            severity: 'high',
+            message: `Pod ${name} uses hostNetwork with dnsPolicy ClusterFirst`,
+            rootCause: 'hostNetwork pods fall back to the node\'s resolv.conf unless dnsPolicy is ClusterFirstWithHostNet',
+            solution: '```yaml\nspec:\n  hostNetwork: true\n  dnsPolicy: ClusterFirstWithHostNet\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    } else if (dnsPolicy === 'None' && !(dnsConfig?.nameservers?.length)) {
+        issues.push({
+            type: 'dnsPolicy None Without Nameservers',
+            severity: 'critical',
+            message: `Pod ${name} uses dnsPolicy "None" without dnsConfig.nameservers`,
+            rootCause: 'The pod has no resolver at all',
+            solution: '```yaml\nspec:\n  dnsPolicy: None\n  dnsConfig:\n    nameservers: [<kube-dns ClusterIP>]\n    searches: [<ns>.svc.cluster.local, svc.cluster.local, cluster.local]\n    options:\n    - name: ndots\n      value: "5"\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 2. ndots
+    const ndotsOption = dnsConfig?.options?.find(o => o.name === 'ndots');
+    const ndots = ndotsOption?.value !== undefined ? parseInt(ndotsOption.value) : DEFAULT_NDOTS;
+
+    if (dnsPolicy !== 'Default' && !isNaN(ndots)) {
+        if (ndots < 2) {
+            issues.push({
+                type: 'Low ndots',
+                severity: 'medium',
+                message: `Pod ${name} sets ndots:${ndots}`,
+                rootCause: 'Names with a dot such as "my-svc.my-namespace" are tried as absolute names first and never get the cluster search suffix, so cross-namespace short names fail',
+                solution: 'Use fully qualified names (my-svc.my-namespace.svc.cluster.local) or raise ndots:\n```yaml\ndnsConfig:\n  options:\n  - name: ndots\n    value: "2"\n```',
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else if (ndots >= DEFAULT_NDOTS && !ndotsOption) {
+            // Only worth raising when the pod is seen resolving external names
+            const external = findExternalLookups(logLines, ndots);
+            if (external.hosts.length > 0) {
+                issues.push({
+                    type: 'Default ndots:5',
+                    severity: 'low',
+                    message: `Pod ${name} uses the default ndots:5 and looks up external names (${external.hosts.slice(0, 3).join(', ')})`,
+                    rootCause: 'Each external lookup first walks all search domains, multiplying DNS queries and adding latency',
+                    solution: `Use trailing-dot FQDNs (${external.hosts[0]}.) or lower ndots:\n\`\`\`yaml\ndnsConfig:\n  options:\n  - name: ndots\n    value: "2"\n\`\`\``,
+                    resource,
+                    relevantLogs: external.lines.slice(0, 5),
+                    timestamp: new Date().toISOString(),
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Minimal Corefile parser: server block zones and top-level plugin names
+ */
+function parseCorefile(corefile: string): { zones: string[]; plugins: Set<string> }[] {
+    const blocks: { zones: string[]; plugins: Set<string> }[] = [];
+    let current: { zones: string[]; plugins: Set<string> } | undefined;
+    let depth = 0;
+
+    for (const rawLine of corefile.split('\n')) {
+        const line = rawLine.replace(/#.*/, '').trim();
+        if (!line) continue;
+
+        if (depth === 0 && line.endsWith('{')) {
+            current = { zones: line.slice(0, -1).trim().split(/\s+/), plugins: new Set() };
+            blocks.push(current);
+            depth = 1;
+            continue;
+        }
+
+        if (depth === 1 && current && !line.startsWith('}')) {
+            current.plugins.add(line.split(/\s+/)[0].replace(/\{$/, ''));
+        }
+
+        depth += (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
+        if (depth < 0) depth = 0;
+    }
+
+    return blocks;
+}
+
+function describeDNSPodProblems(pods: k8s.V1Pod[]): string {
+    return pods
+        .filter(p => !isPodReady(p))
+        .map(p => {
+            const waiting = p.status?.containerStatuses?.find(c => c.state?.waiting)?.state?.waiting?.reason;
+            return `${p.metadata?.name}: ${waiting || p.status?.phase || 'Unknown'}`;
+        })
+        .join(', ');
+}
+
+/**
+ * Find lookups of names outside the cluster that ndots sends through the search list
+ */
+function findExternalLookups(logLines: string[], ndots: number): { hosts: string[]; lines: string[] } {
+    const hosts = new Set<string>();
+    const lines: string[] = [];
+
+    for (const line of logLines) {
+        let matched = false;
+        for (const match of line.matchAll(LOOKUP_HOST_PATTERN)) {
+            const host = match[1].toLowerCase().replace(/\.$/, '');
+            const dots = host.split('.').length - 1;
+            const isInternal = host.endsWith('.local') || host.includes('.svc');
+            const isIP = /^[\d.]+$/.test(host);
+            if (!isInternal && !isIP && dots < ndots) {
+                hosts.add(host);
+                matched = true;
+            }
+        }
+        if (matched) lines.push(line);
+    }
+
+    return { hosts: [...hosts], lines };
+}
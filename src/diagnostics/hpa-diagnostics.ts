@@ -0,0 +1,381 @@
+/**
+ * HorizontalPodAutoscaler diagnostics module
+ *
+ * Finds HPAs that silently cannot scale: unreadable metrics,
+ * pinned at maxReplicas, inactive scaling and flapping
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type {
+    DiagnosticIssue,
+    HPADiagnostics,
+    HPAMetricStatus,
+    K8sEvent,
+} from '../types.js';
+import { getResourceEvents, parseCPU, parseMemory } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/** Rescale direction changes in recent events that count as flapping */
+const FLAPPING_DIRECTION_CHANGES = 3;
+
+/**
+ * Diagnose HPAs
+ *
+ * Analyzes a single HPA, or every HPA in the namespace when no name is given
+ */
+export async function diagnoseHPA(
+    autoscalingApi: k8s.AutoscalingV2Api,
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    hpaName?: string
+): Promise<HPADiagnostics[]> {
+    try {
+        console.error(`[diagnoseHPA] Starting diagnostics for ${hpaName ? `HPA ${hpaName}` : 'all HPAs'} in namespace ${namespace}`);
+
+        const hpas = hpaName
+            ? [await withRetry(
+                () => autoscalingApi.readNamespacedHorizontalPodAutoscaler({ name: hpaName, namespace }),
+                { maxAttempts: 3, initialDelay: 500 }
+            )]
+            : (await withRetry(
+                () => autoscalingApi.listNamespacedHorizontalPodAutoscaler({ namespace }),
+                { maxAttempts: 3, initialDelay: 500 }
+            )).items;
+
+        const results: HPADiagnostics[] = [];
+        for (const hpa of hpas) {
+            results.push(await analyzeHPA(hpa, appsApi, coreApi));
+        }
+
+        return results;
+    } catch (error: any) {
+        console.error(`[diagnoseHPA] Fatal error:`, error);
+        throw new Error(`HPA diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Analyze a single HPA
+ */
+async function analyzeHPA(
+    hpa: k8s.V2HorizontalPodAutoscaler,
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api
+): Promise<HPADiagnostics> {
+    const name = hpa.metadata?.name || 'unknown';
+    const namespace = hpa.metadata?.namespace || 'default';
+    const targetRef = hpa.spec?.scaleTargetRef;
+
+    const [podTemplate, events] = await Promise.all([
+        getScaleTargetTemplate(appsApi, namespace, targetRef),
+        getResourceEvents(coreApi, namespace, name),
+    ]);
+
+    const metrics = buildMetricStatuses(hpa);
+
+    const issues: DiagnosticIssue[] = [];
+    issues.push(...detectMetricIssues(hpa, metrics, podTemplate));
+    issues.push(...detectConditionIssues(hpa, issues));
+    issues.push(...detectReplicaLimitIssues(hpa));
+
+    const flapping = detectFlapping(hpa, events);
+    if (flapping) {
+        issues.push(flapping);
+    }
+
+    const summary = generateHPASummary(hpa, metrics, issues);
+
+    return {
+        hpaInfo: {
+            name,
+            namespace,
+            scaleTarget: `${targetRef?.kind}/${targetRef?.name}`,
+            minReplicas: hpa.spec?.minReplicas ?? 1,
+            maxReplicas: hpa.spec?.maxReplicas ?? 0,
+            currentReplicas: hpa.status?.currentReplicas ?? 0,
+            desiredReplicas: hpa.status?.desiredReplicas ?? 0,
+            lastScaleTime: hpa.status?.lastScaleTime ? new Date(hpa.status.lastScaleTime).toISOString() : undefined,
+        },
+        metrics,
+        issues,
+        summary,
+    };
+}
+
+/**
+ * Build current vs target view of each configured metric
+ */
+function buildMetricStatuses(hpa: k8s.V2HorizontalPodAutoscaler): HPAMetricStatus[] {
+    const currentMetrics = hpa.status?.currentMetrics || [];
+
+    return (hpa.spec?.metrics || []).map(spec => {
+        const name = getMetricName(spec);
+        const status = currentMetrics.find(m => m.type === spec.type && getMetricName(m) === name);
+
+        const target = spec.resource?.target || spec.containerResource?.target ||
+            spec.pods?.target || spec.object?.target || spec.external?.target;
+        const current = status?.resource?.current || status?.containerResource?.current ||
+            status?.pods?.current || status?.object?.current || status?.external?.current;
+
+        return {
+            type: spec.type,
+            name,
+            current: formatMetricValue(current) || '<unknown>',
+            target: formatMetricValue(target) || 'N/A',
+        };
+    });
+}
+
+/**
+ * Detect metrics the HPA cannot read
+ *
+ * Utilization targets are computed against container requests.
+ * A single container without requests makes the metric <unknown>
+ */
+function detectMetricIssues(
+    hpa: k8s.V2HorizontalPodAutoscaler,
+    metrics: HPAMetricStatus[],
+    podTemplate: k8s.V1PodTemplateSpec | undefined
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = hpa.metadata?.name || 'unknown';
+    const namespace = hpa.metadata?.namespace || 'default';
+    const resource = { kind: 'HorizontalPodAutoscaler', name, namespace };
+    const containers = podTemplate?.spec?.containers || [];
+
+    for (const spec of hpa.spec?.metrics || []) {
+        const metric = metrics.find(m => m.type === spec.type && m.name === getMetricName(spec));
+        if (metric?.current !== '<unknown>') continue;
+
+        const resourceName = spec.resource?.name || spec.containerResource?.name;
+        const usesUtilization = (spec.resource?.target || spec.containerResource?.target)?.type === 'Utilization';
+
+        if (resourceName && usesUtilization) {
+            // Same request parsing as analyzeResourceUsage
+            const checked = spec.containerResource
+                ? containers.filter(c => c.name === spec.containerResource?.container)
+                : containers;
+            const missing = checked.filter(c => {
+                const request = c.resources?.requests?.[resourceName];
+                return resourceName === 'cpu'
+                    ? parseCPU(request || '0') === 0
+                    : parseMemory(request || '0') === 0;
+            });
+
+            if (missing.length > 0) {
+                issues.push({
+                    type: 'HPA Metric Unknown: Missing Requests',
+                    severity: 'critical',
+                    message: `${resourceName} utilization is <unknown> - ${missing.length} container(s) have no ${resourceName} request: ${missing.map(c => c.name).join(', ')}`,
+                    rootCause: `Utilization is calculated as usage / request. Without a ${resourceName} request on every container the HPA cannot compute it and will not scale`,
+                    solution: `Add ${resourceName} requests to ${hpa.spec?.scaleTargetRef?.kind}/${hpa.spec?.scaleTargetRef?.name}:\n\`\`\`yaml\nresources:\n  requests:\n    ${resourceName === 'cpu' ? 'cpu: "100m"' : 'memory: "128Mi"'}\n\`\`\``,
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+                continue;
+            }
+        }
+
+        issues.push({
+            type: 'HPA Metric Unknown',
+            severity: 'high',
+            message: `${spec.type} metric "${metric.name}" is <unknown>`,
+            rootCause: spec.type === 'Resource' || spec.type === 'ContainerResource'
+                ? 'Metrics Server is not returning pod metrics (not installed, unhealthy, or pods not ready yet)'
+                : 'Custom/external metrics adapter is not serving this metric',
+            solution: spec.type === 'Resource' || spec.type === 'ContainerResource'
+                ? '```bash\nkubectl top pods -n ' + namespace + '\nkubectl get apiservice v1beta1.metrics.k8s.io\n```'
+                : '```bash\nkubectl get apiservice | grep -E "custom.metrics|external.metrics"\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect ScalingActive=False / AbleToScale=False conditions
+ */
+function detectConditionIssues(
+    hpa: k8s.V2HorizontalPodAutoscaler,
+    existingIssues: DiagnosticIssue[]
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = hpa.metadata?.name || 'unknown';
+    const namespace = hpa.metadata?.namespace || 'default';
+    const resource = { kind: 'HorizontalPodAutoscaler', name, namespace };
+    const conditions = hpa.status?.conditions || [];
+
+    const scalingActive = conditions.find(c => c.type === 'ScalingActive');
+    if (scalingActive?.status === 'False') {
+        const explainedByRequests = existingIssues.some(i => i.type === 'HPA Metric Unknown: Missing Requests');
+        issues.push({
+            type: `Scaling Inactive: ${scalingActive.reason || 'Unknown'}`,
+            severity: 'high',
+            message: 'HPA is not computing replica counts (ScalingActive=False)',
+            rootCause: scalingActive.message || 'Unknown reason',
+            solution: explainedByRequests
+                ? 'Add missing resource requests (see above)'
+                : scalingActive.reason === 'ScalingDisabled'
+                    ? 'Scale target has 0 replicas - HPA is disabled until it is scaled up'
+                    : `\`\`\`bash\nkubectl describe hpa ${name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    const ableToScale = conditions.find(c => c.type === 'AbleToScale');
+    if (ableToScale?.status === 'False') {
+        issues.push({
+            type: `Unable to Scale: ${ableToScale.reason || 'Unknown'}`,
+            severity: 'high',
+            message: 'HPA cannot update the scale target (AbleToScale=False)',
+            rootCause: ableToScale.message || 'Unknown reason',
+            solution: `Verify the scale target exists and supports the scale subresource:\n\`\`\`bash\nkubectl get ${hpa.spec?.scaleTargetRef?.kind?.toLowerCase()} ${hpa.spec?.scaleTargetRef?.name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect HPA pinned at maxReplicas
+ *
+ * Sitting at max is not a problem by itself - only when load asks for more
+ */
+function detectReplicaLimitIssues(hpa: k8s.V2HorizontalPodAutoscaler): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = hpa.metadata?.name || 'unknown';
+    const namespace = hpa.metadata?.namespace || 'default';
+    const maxReplicas = hpa.spec?.maxReplicas ?? 0;
+    const minReplicas = hpa.spec?.minReplicas ?? 1;
+    const current = hpa.status?.currentReplicas ?? 0;
+    const desired = hpa.status?.desiredReplicas ?? 0;
+
+    const limited = hpa.status?.conditions?.find(c =>
+        c.type === 'ScalingLimited' && c.status === 'True' && c.reason === 'TooManyReplicas'
+    );
+
+    // min == max is a fixed size on purpose
+    if (maxReplicas > 0 && minReplicas < maxReplicas && (limited || desired > maxReplicas)) {
+        issues.push({
+            type: 'HPA Pinned at maxReplicas',
+            severity: 'high',
+            message: `Running at maxReplicas (${current}/${maxReplicas}), desired ${desired}`,
+            rootCause: limited?.message || 'Load requires more replicas than allowed - latency increases while the HPA cannot scale further',
+            solution: `1. Raise maxReplicas if the cluster has capacity\n2. Check whether per-pod efficiency dropped (slow dependency, higher CPU per request)\n\`\`\`bash\nkubectl patch hpa ${name} -n ${namespace} -p '{"spec":{"maxReplicas":${maxReplicas * 2}}}'\n\`\`\``,
+            resource: { kind: 'HorizontalPodAutoscaler', name, namespace },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect flapping replica counts from SuccessfulRescale events
+ */
+function detectFlapping(hpa: k8s.V2HorizontalPodAutoscaler, events: K8sEvent[]): DiagnosticIssue | undefined {
+    const rescales = events
+        .filter(e => e.reason === 'SuccessfulRescale')
+        .map(e => ({ event: e, size: parseInt(e.message.match(/New size: (\d+)/)?.[1] || '') }))
+        .filter(r => !isNaN(r.size))
+        .sort((a, b) => new Date(a.event.lastTimestamp).getTime() - new Date(b.event.lastTimestamp).getTime());
+
+    let directionChanges = 0;
+    let lastDirection = 0;
+    for (let i = 1; i < rescales.length; i++) {
+        const direction = Math.sign(rescales[i].size - rescales[i - 1].size);
+        if (direction !== 0 && lastDirection !== 0 && direction !== lastDirection) {
+            directionChanges++;
+        }
+        if (direction !== 0) lastDirection = direction;
+    }
+
+    if (directionChanges < FLAPPING_DIRECTION_CHANGES) {
+        return undefined;
+    }
+
+    const name = hpa.metadata?.name || 'unknown';
+    const namespace = hpa.metadata?.namespace || 'default';
+    const totalRescales = rescales.reduce((sum, r) => sum + r.event.count, 0);
+
+    return {
+        type: 'Replica Count Flapping',
+        severity: 'medium',
+        message: `${totalRescales} rescale(s) with ${directionChanges} direction changes: ${rescales.map(r => r.size).join(' → ')}`,
+        rootCause: 'Metric oscillates around the target - scale up raises capacity, usage per pod drops, HPA scales down again',
+        solution: `Add a scale-down stabilization window:\n\`\`\`yaml\nspec:\n  behavior:\n    scaleDown:\n      stabilizationWindowSeconds: 300\n\`\`\``,
+        resource: { kind: 'HorizontalPodAutoscaler', name, namespace },
+        relatedEvents: rescales.slice(-5).map(r => r.event),
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * Generate HPA summary
+ */
+function generateHPASummary(
+    hpa: k8s.V2HorizontalPodAutoscaler,
+    metrics: HPAMetricStatus[],
+    issues: DiagnosticIssue[]
+): string {
+    let summary = `HPA "${hpa.metadata?.name}" → ${hpa.spec?.scaleTargetRef?.kind}/${hpa.spec?.scaleTargetRef?.name}\n`;
+    summary += `Replicas: ${hpa.status?.currentReplicas ?? 0} (min ${hpa.spec?.minReplicas ?? 1}, max ${hpa.spec?.maxReplicas})\n`;
+    summary += `Metrics: ${metrics.map(m => `${m.name} ${m.current}/${m.target}`).join(', ') || 'none'}\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Read pod template of the scale target (Deployment, StatefulSet, ReplicaSet)
+ */
+async function getScaleTargetTemplate(
+    appsApi: k8s.AppsV1Api,
+    namespace: string,
+    targetRef?: k8s.V2CrossVersionObjectReference
+): Promise<k8s.V1PodTemplateSpec | undefined> {
+    if (!targetRef) return undefined;
+
+    try {
+        switch (targetRef.kind) {
+            case 'Deployment':
+                return (await appsApi.readNamespacedDeployment({ name: targetRef.name, namespace })).spec?.template;
+            case 'StatefulSet':
+                return (await appsApi.readNamespacedStatefulSet({ name: targetRef.name, namespace })).spec?.template;
+            case 'ReplicaSet':
+                return (await appsApi.readNamespacedReplicaSet({ name: targetRef.name, namespace })).spec?.template;
+            default:
+                return undefined;
+        }
+    } catch (error: any) {
+        console.error(`[diagnoseHPA] Failed to read scale target ${targetRef.kind}/${targetRef.name} (non-fatal):`, error.message);
+        return undefined;
+    }
+}
+
+function getMetricName(metric: k8s.V2MetricSpec | k8s.V2MetricStatus): string {
+    if (metric.resource) return metric.resource.name;
+    if (metric.containerResource) return `${metric.containerResource.container}/${metric.containerResource.name}`;
+    if (metric.pods) return metric.pods.metric.name;
+    if (metric.object) return metric.object.metric.name;
+    if (metric.external) return metric.external.metric.name;
+    return metric.type;
+}
+
+function formatMetricValue(value?: { averageUtilization?: number; averageValue?: string; value?: string }): string | undefined {
+    if (!value) return undefined;
+    if (value.averageUtilization !== undefined) return `${value.averageUtilization}%`;
+    return value.averageValue || value.value;
+}
@@ -0,0 +1,369 @@
+/**
+ * Ingress diagnostics module
+ *
+ * Traces 404/503 at the edge to backend, TLS and IngressClass misconfiguration
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, NetworkDiagnostics } from '../types.js';
+import { countReadyEndpoints } from './service-diagnostics.js';
+import { inspectTLSSecret } from './certificate-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+interface IngressBackendRef {
+    host: string;
+    path: string;
+    serviceName: string;
+    port?: number | string;
+}
+
+/**
+ * Diagnose ingresses
+ *
+ * Checks a single ingress, or every ingress in the namespace when no name is given
+ */
+export async function diagnoseIngress(
+    networkingApi: k8s.NetworkingV1Api,
+    coreApi: k8s.CoreV1Api,
+    discoveryApi: k8s.DiscoveryV1Api,
+    namespace: string,
+    ingressName?: string
+): Promise<NetworkDiagnostics> {
+    try {
+        console.error(`[diagnoseIngress] Starting diagnostics for ${ingressName ? `ingress ${ingressName}` : 'all ingresses'} in namespace ${namespace}`);
+
+        const ingresses = ingressName
+            ? [await withRetry(() => networkingApi.readNamespacedIngress({ name: ingressName, namespace }), { maxAttempts: 3, initialDelay: 500 })]
+            : (await withRetry(() => networkingApi.listNamespacedIngress({ namespace }), { maxAttempts: 3, initialDelay: 500 })).items;
+
+        // IngressClasses and cluster-wide ingresses are best effort (may be forbidden by RBAC)
+        const ingressClasses = await withRetry(() => networkingApi.listIngressClass(), { maxAttempts: 2, initialDelay: 500 })
+            .then(r => r.items)
+            .catch((error) => {
+                console.error(`[diagnoseIngress] Failed to list IngressClasses (non-fatal):`, error.message);
+                return undefined;
+            });
+
+        const allIngresses = await withRetry(() => networkingApi.listIngressForAllNamespaces(), { maxAttempts: 2, initialDelay: 500 })
+            .then(r => r.items)
+            .catch((error) => {
+                console.error(`[diagnoseIngress] Failed to list ingresses in all namespaces (non-fatal):`, error.message);
+                return ingresses;
+            });
+
+        const ingressIssues: DiagnosticIssue[] = [];
+        // Service lookups are shared between rules pointing at the same backend
+        const serviceCache = new Map<string, Promise<k8s.V1Service | undefined>>();
+        const endpointCache = new Map<string, Promise<number>>();
+
+        for (const ingress of ingresses) {
+            ingressIssues.push(...detectIngressClassIssues(ingress, ingressClasses));
+            ingressIssues.push(...await detectTLSIssues(coreApi, ingress));
+            ingressIssues.push(...await detectBackendIssues(coreApi, discoveryApi, ingress, serviceCache, endpointCache));
+            ingressIssues.push(...detectDuplicateRules(ingress, allIngresses));
+        }
+
+        return {
+            serviceConnectivity: [],
+            serviceIssues: [],
+            dnsIssues: [],
+            networkPolicyIssues: [],
+            ingressIssues,
+            summary: generateIngressSummary(ingresses.length, ingressIssues),
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseIngress] Fatal error:`, error);
+        throw new Error(`Ingress diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Detect IngressClass issues
+ */
+function detectIngressClassIssues(
+    ingress: k8s.V1Ingress,
+    ingressClasses: k8s.V1IngressClass[] | undefined
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = ingress.metadata?.name || 'unknown';
+    const namespace = ingress.metadata?.namespace || 'default';
+
+    if (!ingressClasses) return issues;
+
+    const className = ingress.spec?.ingressClassName
+        || ingress.metadata?.annotations?.['kubernetes.io/ingress.class'];
+    const available = ingressClasses.map(c => `${c.metadata?.name} (${c.spec?.controller})`).join(', ') || 'none';
+
+    if (className) {
+        if (!ingressClasses.some(c => c.metadata?.name === className)) {
+            issues.push({
+                type: 'IngressClass Not Found',
+                severity: 'critical',
+                message: `Ingress "${name}" uses class "${className}", which is not installed`,
+                rootCause: `No ingress controller watches this class, so the ingress is ignored. Installed classes: ${available}`,
+                solution: `Use an installed class:\n\`\`\`bash\nkubectl get ingressclass\nkubectl patch ingress ${name} -n ${namespace} -p '{"spec":{"ingressClassName":"<class>"}}'\n\`\`\``,
+                resource: { kind: 'Ingress', name, namespace },
+                timestamp: new Date().toISOString(),
+            });
+        }
+        return issues;
+    }
+
+    const defaults = ingressClasses.filter(c =>
+        c.metadata?.annotations?.['ingressclass.kubernetes.io/is-default-class'] === 'true'
+    );
+
+    if (defaults.length !== 1) {
+        issues.push({
+            type: 'No IngressClass',
+            severity: 'high',
+            message: `Ingress "${name}" has no ingressClassName and ${defaults.length === 0 ? 'no default IngressClass exists' : `${defaults.length} default IngressClasses exist`}`,
+            rootCause: `Without a single default class no controller is guaranteed to pick up the ingress. Installed classes: ${available}`,
+            solution: `Set ingressClassName explicitly:\n\`\`\`yaml\nspec:\n  ingressClassName: ${ingressClasses[0]?.metadata?.name || 'nginx'}\n\`\`\``,
+            resource: { kind: 'Ingress', name, namespace },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect TLS secret issues
+ */
+async function detectTLSIssues(coreApi: k8s.CoreV1Api, ingress: k8s.V1Ingress): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+    const name = ingress.metadata?.name || 'unknown';
+    const namespace = ingress.metadata?.namespace || 'default';
+    const ruleHosts = (ingress.spec?.rules || []).map(r => r.host).filter((h): h is string => !!h);
+
+    for (const tls of ingress.spec?.tls || []) {
+        // No secretName means the controller's default certificate is used
+        if (!tls.secretName) continue;
+
+        const hosts = (tls.hosts || []).join(', ') || '*';
+
+        try {
+            const secret = await coreApi.readNamespacedSecret({ name: tls.secretName, namespace });
+
+            if (secret.type !== 'kubernetes.io/tls') {
+                issues.push({
+                    type: 'Invalid TLS Secret Type',
+                    severity: 'high',
+                    message: `TLS secret "${tls.secretName}" for ${hosts} has type "${secret.type}" instead of kubernetes.io/tls`,
+                    rootCause: 'Most controllers reject non-TLS secrets and serve their default (self-signed) certificate',
+                    solution: `Recreate the secret as a TLS secret:\n\`\`\`bash\nkubectl create secret tls ${tls.secretName} -n ${namespace} --cert=tls.crt --key=tls.key --dry-run=client -o yaml | kubectl apply -f -\n\`\`\``,
+                    resource: { kind: 'Ingress', name, namespace },
+                    timestamp: new Date().toISOString(),
+                });
+            } else if (!secret.data?.['tls.crt'] || !secret.data?.['tls.key']) {
+                issues.push({
+                    type: 'Incomplete TLS Secret',
+                    severity: 'high',
+                    message: `TLS secret "${tls.secretName}" for ${hosts} is missing tls.crt or tls.key`,
+                    rootCause: 'The controller cannot load the certificate and falls back to its default certificate',
+                    solution: `\`\`\`bash\nkubectl describe secret ${tls.secretName} -n ${namespace}\n\`\`\``,
+                    resource: { kind: 'Ingress', name, namespace },
+                    timestamp: new Date().toISOString(),
+                });
+            } else {
+                // Expiry, hostname and chain of the certificate itself
+                issues.push(...inspectTLSSecret(secret, [{ ingress: name, hosts: tls.hosts?.length ? tls.hosts : ruleHosts }]).issues);
+            }
+        } catch (error: any) {
+            if (error.code !== 404 && error.statusCode !== 404) {
+                console.error(`[detectTLSIssues] Failed to read secret ${tls.secretName} (non-fatal):`, error.message);
+                continue;
+            }
+            issues.push({
+                type: 'TLS Secret Not Found',
+                severity: 'high',
+                message: `TLS secret "${tls.secretName}" for ${hosts} does not exist in namespace ${namespace}`,
+                rootCause: 'Secrets must be in the same namespace as the ingress. If cert-manager manages it, the Certificate may not be issued yet',
+                solution: `\`\`\`bash\nkubectl get secret ${tls.secretName} -n ${namespace}\nkubectl get certificate -n ${namespace}  # if using cert-manager\n\`\`\``,
+                resource: { kind: 'Ingress', name, namespace },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect backend service issues
+ */
+async function detectBackendIssues(
+    coreApi: k8s.CoreV1Api,
+    discoveryApi: k8s.DiscoveryV1Api,
+    ingress: k8s.V1Ingress,
+    serviceCache: Map<string, Promise<k8s.V1Service | undefined>>,
+    endpointCache: Map<string, Promise<number>>
+): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+    const name = ingress.metadata?.name || 'unknown';
+    const namespace = ingress.metadata?.namespace || 'default';
+    const resource = { kind: 'Ingress', name, namespace };
+
+    for (const backend of getBackendRefs(ingress)) {
+        const route = `${backend.host}${backend.path}`;
+
+        if (!serviceCache.has(backend.serviceName)) {
+            serviceCache.set(
+                backend.serviceName,
+                coreApi.readNamespacedService({ name: backend.serviceName, namespace }).catch(() => undefined)
+            );
+        }
+        const service = await serviceCache.get(backend.serviceName);
+
+        // 1. Service missing
+        if (!service) {
+            issues.push({
+                type: 'Backend Service Not Found',
+                severity: 'critical',
+                message: `Route ${route} points to service "${backend.serviceName}", which does not exist`,
+                rootCause: 'The controller has no upstream for this route and returns 503 (or 404 for the default backend)',
+                solution: `\`\`\`bash\nkubectl get svc -n ${namespace}\n\`\`\`\nFix spec.rules[].http.paths[].backend.service.name`,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+            continue;
+        }
+
+        // 2. Port missing
+        const ports = service.spec?.ports || [];
+        const portFound = backend.port === undefined || ports.some(p =>
+            typeof backend.port === 'number' ? p.port === backend.port : p.name === backend.port
+        );
+        if (!portFound) {
+            issues.push({
+                type: 'Backend Port Not Found',
+                severity: 'critical',
+                message: `Route ${route} uses port ${backend.port} on service "${backend.serviceName}", which the service does not expose`,
+                rootCause: `Service ports: ${ports.map(p => p.name ? `${p.name}:${p.port}` : `${p.port}`).join(', ') || 'none'}`,
+                solution: `Use one of the service ports:\n\`\`\`yaml\nbackend:\n  service:\n    name: ${backend.serviceName}\n    port:\n      number: ${ports[0]?.port ?? 80}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+            continue;
+        }
+
+        // 3. No ready endpoints
+        if (service.spec?.type === 'ExternalName') continue;
+
+        if (!endpointCache.has(backend.serviceName)) {
+            endpointCache.set(backend.serviceName, countReadyEndpoints(coreApi, discoveryApi, service));
+        }
+        const readyEndpoints = await endpointCache.get(backend.serviceName);
+
+        if (readyEndpoints === 0) {
+            issues.push({
+                type: 'Backend Has No Endpoints',
+                severity: 'critical',
+                message: `Route ${route} -> service "${backend.serviceName}" has no ready endpoints (503 Service Unavailable)`,
+                rootCause: 'No Ready pods back the service',
+                solution: `Diagnose the service:\n\`\`\`bash\nkubectl get endpointslices -n ${namespace} -l kubernetes.io/service-name=${backend.serviceName}\n\`\`\`\nOr run the diagnose-service tool for "${backend.serviceName}"`,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect host/path rules claimed by more than one ingress
+ */
+function detectDuplicateRules(ingress: k8s.V1Ingress, allIngresses: k8s.V1Ingress[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = ingress.metadata?.name || 'unknown';
+    const namespace = ingress.metadata?.namespace || 'default';
+    const className = getIngressClassName(ingress);
+    const reported = new Set<string>();
+
+    for (const backend of getBackendRefs(ingress)) {
+        // Default backend is not a host/path rule
+        if (!backend.host && !backend.path) continue;
+
+        const key = `${backend.host}${backend.path}`;
+        if (reported.has(key)) continue;
+
+        const conflicts = allIngresses.filter(other =>
+            other.metadata?.uid !== ingress.metadata?.uid &&
+            getIngressClassName(other) === className &&
+            getBackendRefs(other).some(b => b.host === backend.host && b.path === backend.path)
+        );
+
+        if (conflicts.length > 0) {
+            reported.add(key);
+            issues.push({
+                type: 'Duplicate Ingress Rule',
+                severity: 'high',
+                message: `Host/path ${key} is also defined by ${conflicts.map(c => `${c.metadata?.namespace}/${c.metadata?.name}`).join(', ')}`,
+                rootCause: 'Controllers merge or pick one rule nondeterministically, so requests may reach the wrong backend',
+                solution: `Keep the rule in a single ingress:\n\`\`\`bash\nkubectl get ingress -A | grep '${backend.host || '*'}'\n\`\`\``,
+                resource: { kind: 'Ingress', name, namespace },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Generate ingress summary
+ */
+function generateIngressSummary(ingressCount: number, issues: DiagnosticIssue[]): string {
+    let summary = `Ingresses checked: ${ingressCount}\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Flatten default backend and rules into service backend references
+ */
+function getBackendRefs(ingress: k8s.V1Ingress): IngressBackendRef[] {
+    const refs: IngressBackendRef[] = [];
+    const defaultService = ingress.spec?.defaultBackend?.service;
+
+    if (defaultService) {
+        refs.push({
+            host: '',
+            path: '',
+            serviceName: defaultService.name,
+            port: defaultService.port?.number ?? defaultService.port?.name,
+        });
+    }
+
+    for (const rule of ingress.spec?.rules || []) {
+        for (const path of rule.http?.paths || []) {
+            // Resource backends (e.g. storage buckets) are not checked
+            const service = path.backend.service;
+            if (!service) continue;
+
+            refs.push({
+                host: rule.host || '*',
+                path: path.path || '/',
+                serviceName: service.name,
+                port: service.port?.number ?? service.port?.name,
+            });
+        }
+    }
+
+    return refs;
+}
+
+function getIngressClassName(ingress: k8s.V1Ingress): string {
+    return ingress.spec?.ingressClassName
+        || ingress.metadata?.annotations?.['kubernetes.io/ingress.class']
+        || '';
+}
@@ -0,0 +1,465 @@
+/**
+ * Job / CronJob diagnostics module
+ *
+ * Explains failed batch runs: backoffLimit, deadlines, missed schedules
+ * and exit codes of the failed Job pods
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type {
+    CronJobDiagnostics,
+    DiagnosticIssue,
+    FailedJobContainer,
+    JobDiagnostics,
+} from '../types.js';
+import { analyzeExitCode, getResourceEvents } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { labelSelectorToString } from '../utils/selectors.js';
+import { getNextSchedule, getSchedulesBetween } from '../utils/cron.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/** Maximum number of recent Jobs of a CronJob to diagnose */
+const MAX_RECENT_JOBS = 3;
+
+/** Controller gives up scheduling after this many missed start times */
+const MAX_MISSED_SCHEDULES = 100;
+
+/**
+ * Diagnose Job
+ *
+ * Analyzes Job conditions and exit codes of all its pods, including already-completed ones
+ */
+export async function diagnoseJob(
+    batchApi: k8s.BatchV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    jobName: string
+): Promise<JobDiagnostics> {
+    try {
+        console.error(`[diagnoseJob] Starting diagnostics for job ${jobName} in namespace ${namespace}`);
+
+        const job = await withRetry(
+            () => batchApi.readNamespacedJob({ name: jobName, namespace }),
+            { maxAttempts: 3, initialDelay: 500 }
+        ).catch((error) => {
+            throw new Error(`Cannot read job ${jobName}: ${error.message}`);
+        });
+
+        return await analyzeJob(job, coreApi);
+    } catch (error: any) {
+        console.error(`[diagnoseJob] Fatal error:`, error);
+        throw new Error(`Job diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Diagnose CronJob
+ *
+ * Detects suspended CronJobs, missed schedules, concurrencyPolicy=Forbid blocking
+ * and failures of recent Jobs
+ */
+export async function diagnoseCronJob(
+    batchApi: k8s.BatchV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    cronJobName: string
+): Promise<CronJobDiagnostics> {
+    try {
+        console.error(`[diagnoseCronJob] Starting diagnostics for cronjob ${cronJobName} in namespace ${namespace}`);
+
+        const cronJob = await withRetry(
+            () => batchApi.readNamespacedCronJob({ name: cronJobName, namespace }),
+            { maxAttempts: 3, initialDelay: 500 }
+        ).catch((error) => {
+            throw new Error(`Cannot read cronjob ${cronJobName}: ${error.message}`);
+        });
+
+        const [jobsResponse, cronEvents] = await Promise.all([
+            withRetry(() => batchApi.listNamespacedJob({ namespace }), { maxAttempts: 2, initialDelay: 500 }),
+            getResourceEvents(coreApi, namespace, cronJobName),
+        ]);
+
+        // Jobs owned by this CronJob, newest first
+        const jobs = jobsResponse.items
+            .filter(j => j.metadata?.ownerReferences?.some(o => o.uid === cronJob.metadata?.uid))
+            .sort((a, b) =>
+                new Date(b.metadata?.creationTimestamp || 0).getTime() -
+                new Date(a.metadata?.creationTimestamp || 0).getTime()
+            );
+
+        const schedule = cronJob.spec?.schedule || '';
+        const timeZone = cronJob.spec?.timeZone;
+        const suspended = cronJob.spec?.suspend || false;
+        const concurrencyPolicy = cronJob.spec?.concurrencyPolicy || 'Allow';
+        const activeJobs = (cronJob.status?.active || []).map(ref => ref.name || '');
+        const now = new Date();
+
+        const issues: DiagnosticIssue[] = [];
+        const resource = { kind: 'CronJob', name: cronJobName, namespace };
+
+        let nextScheduleTime: Date | undefined;
+        let scheduleValid = true;
+        try {
+            nextScheduleTime = suspended ? undefined : getNextSchedule(schedule, now, timeZone);
+        } catch (error: any) {
+            scheduleValid = false;
+            issues.push({
+                type: 'Invalid Schedule',
+                severity: 'high',
+                message: `Schedule "${schedule}" cannot be parsed`,
+                rootCause: error.message,
+                solution: 'Use standard 5-field cron format: "minute hour day-of-month month day-of-week"',
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        // 1. Suspended
+        if (suspended) {
+            issues.push({
+                type: 'CronJob Suspended',
+                severity: 'medium',
+                message: 'CronJob is suspended, no new Jobs are created',
+                rootCause: 'spec.suspend is true',
+                solution: `\`\`\`bash\nkubectl patch cronjob ${cronJobName} -n ${namespace} -p '{"spec":{"suspend":false}}'\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        // 2. Missed schedules / Forbid blocking
+        if (!suspended && scheduleValid) {
+            issues.push(...detectMissedSchedules(cronJob, jobs, cronEvents, now));
+        }
+
+        // 3. Recent Job failures
+        const recentJobs: JobDiagnostics[] = [];
+        for (const job of jobs.slice(0, MAX_RECENT_JOBS)) {
+            try {
+                recentJobs.push(await analyzeJob(job, coreApi));
+            } catch (error: any) {
+                console.error(`[diagnoseCronJob] Failed to diagnose job ${job.metadata?.name} (non-fatal):`, error.message);
+            }
+        }
+
+        const lastFinished = jobs.find(j => j.status?.conditions?.some(c =>
+            (c.type === 'Complete' || c.type === 'Failed') && c.status === 'True'
+        ));
+        const lastFailed = lastFinished?.status?.conditions?.find(c => c.type === 'Failed' && c.status === 'True');
+        if (lastFinished && lastFailed) {
+            const lastSuccess = cronJob.status?.lastSuccessfulTime;
+            issues.push({
+                type: 'Last Run Failed',
+                severity: 'high',
+                message: `Most recent Job "${lastFinished.metadata?.name}" failed (${lastFailed.reason || 'Failed'})`,
+                rootCause: lastFailed.message || 'See Job diagnostics below',
+                solution: lastSuccess
+                    ? `Last successful run: ${new Date(lastSuccess).toISOString()}. See failed pod exit codes below`
+                    : 'No successful run recorded. See failed pod exit codes below',
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        const summary = generateCronJobSummary(cronJob, jobs, nextScheduleTime, issues);
+
+        return {
+            cronJobInfo: {
+                name: cronJob.metadata?.name || cronJobName,
+                namespace: cronJob.metadata?.namespace || namespace,
+                schedule,
+                timeZone,
+                suspended,
+                concurrencyPolicy,
+                lastScheduleTime: toISO(cronJob.status?.lastScheduleTime),
+                lastSuccessfulTime: toISO(cronJob.status?.lastSuccessfulTime),
+                nextScheduleTime: nextScheduleTime?.toISOString(),
+                activeJobs,
+            },
+            recentJobs,
+            issues,
+            summary,
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseCronJob] Fatal error:`, error);
+        throw new Error(`CronJob diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Analyze a Job object and its pods
+ */
+async function analyzeJob(job: k8s.V1Job, coreApi: k8s.CoreV1Api): Promise<JobDiagnostics> {
+    const name = job.metadata?.name || 'unknown';
+    const namespace = job.metadata?.namespace || 'default';
+
+    const podsResponse = await withRetry(() => coreApi.listNamespacedPod({
+        namespace,
+        labelSelector: labelSelectorToString(job.spec?.selector) || `job-name=${name}`,
+    }), { maxAttempts: 2, initialDelay: 500 });
+
+    const failedContainers = collectFailedContainers(podsResponse.items);
+    const issues = detectJobIssues(job, failedContainers);
+    const summary = generateJobSummary(job, issues);
+
+    return {
+        jobInfo: {
+            name,
+            namespace,
+            completions: job.spec?.completions ?? 1,
+            succeeded: job.status?.succeeded ?? 0,
+            failed: job.status?.failed ?? 0,
+            active: job.status?.active ?? 0,
+            backoffLimit: job.spec?.backoffLimit ?? 6,
+            activeDeadlineSeconds: job.spec?.activeDeadlineSeconds,
+            suspended: job.spec?.suspend || false,
+            startTime: toISO(job.status?.startTime),
+            completionTime: toISO(job.status?.completionTime),
+        },
+        failedContainers,
+        issues,
+        summary,
+    };
+}
+
+/**
+ * Collect failed containers from Job pods
+ *
+ * Uses both current state (restartPolicy: Never) and last state (restartPolicy: OnFailure)
+ */
+function collectFailedContainers(pods: k8s.V1Pod[]): FailedJobContainer[] {
+    const failed: FailedJobContainer[] = [];
+
+    for (const pod of pods) {
+        for (const status of pod.status?.containerStatuses || []) {
+            for (const terminated of [status.state?.terminated, status.lastState?.terminated]) {
+                if (!terminated || terminated.exitCode === 0) continue;
+
+                failed.push({
+                    podName: pod.metadata?.name || 'unknown',
+                    containerName: status.name,
+                    exitCode: terminated.exitCode,
+                    reason: terminated.reason || 'Error',
+                    finishedAt: toISO(terminated.finishedAt),
+                });
+            }
+        }
+    }
+
+    return failed.sort((a, b) =>
+        new Date(b.finishedAt || 0).getTime() - new Date(a.finishedAt || 0).getTime()
+    );
+}
+
+/**
+ * Detect Job issues
+ */
+function detectJobIssues(job: k8s.V1Job, failedContainers: FailedJobContainer[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = job.metadata?.name || 'unknown';
+    const namespace = job.metadata?.namespace || 'default';
+    const resource = { kind: 'Job', name, namespace };
+    const conditions = job.status?.conditions || [];
+
+    const failedCondition = conditions.find(c => c.type === 'Failed' && c.status === 'True');
+
+    // 1. backoffLimit exceeded
+    if (failedCondition?.reason === 'BackoffLimitExceeded') {
+        const backoffLimit = job.spec?.backoffLimit ?? 6;
+        issues.push({
+            type: 'BackoffLimitExceeded',
+            severity: 'critical',
+            message: `Job failed after ${job.status?.failed ?? 0} failed pod(s) (backoffLimit=${backoffLimit})`,
+            rootCause: failedContainers.length > 0
+                ? `Pods keep failing with exit code ${failedContainers[0].exitCode} (${failedContainers[0].reason})`
+                : failedCondition.message || 'Job has reached the specified backoff limit',
+            solution: `Fix the pod failure below, then re-run the Job:\n\`\`\`bash\nkubectl get job ${name} -n ${namespace} -o yaml | kubectl replace --force -f -\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 2. activeDeadlineSeconds hit
+    if (failedCondition?.reason === 'DeadlineExceeded') {
+        issues.push({
+            type: 'DeadlineExceeded',
+            severity: 'critical',
+            message: `Job was terminated after activeDeadlineSeconds=${job.spec?.activeDeadlineSeconds}`,
+            rootCause: 'Job ran longer than its deadline, all running pods were killed',
+            solution: '1. Check whether the workload became slower (data volume, dependencies)\n2. Increase the deadline if the runtime is expected:\n```yaml\nspec:\n  activeDeadlineSeconds: 7200\n```',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    } else if (failedCondition && failedCondition.reason !== 'BackoffLimitExceeded') {
+        issues.push({
+            type: `Job Failed: ${failedCondition.reason || 'Unknown'}`,
+            severity: 'critical',
+            message: 'Job has failed',
+            rootCause: failedCondition.message || 'Unknown reason',
+            solution: `\`\`\`bash\nkubectl describe job ${name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 3. Suspended Job
+    if (job.spec?.suspend) {
+        issues.push({
+            type: 'Job Suspended',
+            severity: 'medium',
+            message: 'Job is suspended, no pods are running',
+            rootCause: 'spec.suspend is true',
+            solution: `\`\`\`bash\nkubectl patch job ${name} -n ${namespace} -p '{"spec":{"suspend":false}}'\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 4. Exit code analysis, one issue per distinct exit code
+    const byExitCode = new Map<number, FailedJobContainer[]>();
+    for (const container of failedContainers) {
+        // OOMKilled is reported as 137 regardless of signal details
+        const code = container.reason === 'OOMKilled' ? 137 : container.exitCode;
+        byExitCode.set(code, [...(byExitCode.get(code) || []), container]);
+    }
+
+    for (const [exitCode, containers] of byExitCode.entries()) {
+        const latest = containers[0];
+        const { rootCause, solution } = analyzeExitCode(exitCode, latest.podName, namespace, latest.containerName);
+
+        issues.push({
+            type: `Job Pod Failed (exit code ${exitCode})`,
+            severity: 'high',
+            message: `${containers.length} container failure(s) with exit code ${exitCode} (${latest.reason}), latest: ${latest.podName}/${latest.containerName}`,
+            rootCause,
+            solution: `${solution}\n\nLogs of the failed pod (kept until the Job is deleted):\n\`\`\`bash\nkubectl logs ${latest.podName} -n ${namespace} -c ${latest.containerName}\n\`\`\``,
+            resource: { kind: 'Pod', name: latest.podName, namespace },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect missed schedules and concurrencyPolicy=Forbid blocking
+ */
+function detectMissedSchedules(
+    cronJob: k8s.V1CronJob,
+    jobs: k8s.V1Job[],
+    cronEvents: { reason: string; message: string }[],
+    now: Date
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = cronJob.metadata?.name || 'unknown';
+    const namespace = cronJob.metadata?.namespace || 'default';
+    const resource = { kind: 'CronJob', name, namespace };
+
+    const baseline = cronJob.status?.lastScheduleTime || cronJob.metadata?.creationTimestamp;
+    if (!baseline) {
+        return issues;
+    }
+
+    // Allow one minute for the controller to pick up the schedule
+    const until = new Date(now.getTime() - 60_000);
+    const missed = getSchedulesBetween(
+        cronJob.spec?.schedule || '',
+        new Date(baseline),
+        until,
+        cronJob.spec?.timeZone,
+        MAX_MISSED_SCHEDULES + 1
+    );
+
+    if (missed.length === 0) {
+        return issues;
+    }
+
+    const activeRefs = cronJob.status?.active || [];
+    if (cronJob.spec?.concurrencyPolicy === 'Forbid' && activeRefs.length > 0) {
+        const activeJob = jobs.find(j => j.metadata?.name === activeRefs[0].name);
+        const startTime = activeJob?.status?.startTime;
+
+        issues.push({
+            type: 'Forbid Concurrency Blocking Runs',
+            severity: 'high',
+            message: `${missed.length} scheduled run(s) skipped while Job "${activeRefs[0].name}" is still active`,
+            rootCause: `concurrencyPolicy is Forbid and the previous run${startTime ? ` (started ${new Date(startTime).toISOString()})` : ''} has not finished`,
+            solution: `1. Check why the active Job is hanging\n2. Set activeDeadlineSeconds on the Job template so hung runs are killed\n\`\`\`bash\nkubectl describe job ${activeRefs[0].name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    const controllerEvent = cronEvents.find(e =>
+        e.reason === 'TooManyMissedTimes' || e.reason === 'FailedNeedsStart' || e.reason === 'FailedCreate'
+    );
+
+    let rootCause = 'CronJob controller did not create Jobs for these schedules';
+    if (missed.length > MAX_MISSED_SCHEDULES) {
+        rootCause = `More than ${MAX_MISSED_SCHEDULES} start times were missed - the controller stops scheduling this CronJob until startingDeadlineSeconds is set`;
+    } else if (controllerEvent) {
+        rootCause = `${controllerEvent.reason}: ${controllerEvent.message}`;
+    } else if (cronJob.spec?.startingDeadlineSeconds !== undefined) {
+        rootCause = `startingDeadlineSeconds=${cronJob.spec.startingDeadlineSeconds} may be too short - runs that cannot start in time are skipped`;
+    }
+
+    issues.push({
+        type: 'Missed Schedules',
+        severity: 'high',
+        message: `${missed.length > MAX_MISSED_SCHEDULES ? `${MAX_MISSED_SCHEDULES}+` : missed.length} scheduled run(s) missed since ${new Date(baseline).toISOString()} (first: ${missed[0].toISOString()})`,
+        rootCause,
+        solution: `1. Check kube-controller-manager health\n2. Set startingDeadlineSeconds to bound catch-up\n3. Trigger a run manually:\n\`\`\`bash\nkubectl create job ${name}-manual --from=cronjob/${name} -n ${namespace}\n\`\`\``,
+        resource,
+        timestamp: new Date().toISOString(),
+    });
+
+    return issues;
+}
+
+/**
+ * Generate Job summary
+ */
+function generateJobSummary(job: k8s.V1Job, issues: DiagnosticIssue[]): string {
+    const status = job.status || {};
+    const conditions = status.conditions || [];
+    const state = conditions.find(c => c.type === 'Complete' && c.status === 'True') ? 'Complete' :
+                  conditions.find(c => c.type === 'Failed' && c.status === 'True') ? 'Failed' :
+                  job.spec?.suspend ? 'Suspended' : 'Running';
+
+    let summary = `Job "${job.metadata?.name}" is ${state}.\n`;
+    summary += `Pods: ${status.succeeded ?? 0} succeeded, ${status.failed ?? 0} failed, ${status.active ?? 0} active (completions ${job.spec?.completions ?? 1})\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+/**
+ * Generate CronJob summary
+ */
+function generateCronJobSummary(
+    cronJob: k8s.V1CronJob,
+    jobs: k8s.V1Job[],
+    nextScheduleTime: Date | undefined,
+    issues: DiagnosticIssue[]
+): string {
+    let summary = `CronJob "${cronJob.metadata?.name}" (${cronJob.spec?.schedule}${cronJob.spec?.timeZone ? ` ${cronJob.spec.timeZone}` : ''})\n`;
+    summary += `Jobs: ${jobs.length} retained, ${cronJob.status?.active?.length ?? 0} active\n`;
+    if (nextScheduleTime) {
+        summary += `Next run: ${nextScheduleTime.toISOString()}\n`;
+    }
+    summary += '\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+function toISO(date?: Date | string): string | undefined {
+    return date ? new Date(date).toISOString() : undefined;
+}
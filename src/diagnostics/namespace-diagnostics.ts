@@ -0,0 +1,166 @@
+/**
+ * Namespace report cards
+ *
+ * Cheap checks across every namespace (one pod list, one event list)
+ * to rank which team's namespace needs attention first
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { NamespaceReportCard, ScoreDeduction } from '../types.js';
+import { withRetry } from '../utils/retry.js';
+import { getScoreWeights, type ScoreWeights } from '../utils/config.js';
+
+/** Skipped unless includeSystem is set */
+const SYSTEM_NAMESPACES = ['kube-system', 'kube-public', 'kube-node-lease'];
+
+/**
+ * Build report cards for all namespaces, worst first
+ */
+export async function rankNamespaces(
+    coreApi: k8s.CoreV1Api,
+    includeSystem: boolean = false,
+    weights: ScoreWeights['namespace'] = getScoreWeights().namespace
+): Promise<NamespaceReportCard[]> {
+    try {
+        console.error('[rankNamespaces] Starting namespace report cards');
+
+        const [namespaces, pods, events] = await Promise.all([
+            withRetry(() => coreApi.listNamespace(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => coreApi.listPodForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => coreApi.listEventForAllNamespaces({ fieldSelector: 'type=Warning' }), { maxAttempts: 3, initialDelay: 500 })
+                .then(r => r.items)
+                .catch((error) => {
+                    console.error('[rankNamespaces] Failed to list events (non-fatal):', error.message);
+                    return [] as k8s.CoreV1Event[];
+                }),
+        ]);
+
+        const podsByNamespace = groupByNamespace(pods.items);
+        const eventsByNamespace = groupByNamespace(events);
+
+        const cards: NamespaceReportCard[] = [];
+        for (const ns of namespaces.items) {
+            const name = ns.metadata?.name || 'unknown';
+            if (!includeSystem && SYSTEM_NAMESPACES.includes(name)) continue;
+            cards.push(buildReportCard(name, podsByNamespace.get(name) || [], eventsByNamespace.get(name) || [], weights));
+        }
+
+        // Worst first, busier namespace first on ties
+        return cards.sort((a, b) => a.score - b.score || b.pods.total - a.pods.total);
+    } catch (error: any) {
+        console.error('[rankNamespaces] Fatal error:', error);
+        throw new Error(`Namespace ranking failed: ${error.message}`);
+    }
+}
+
+/**
+ * Report card of one namespace
+ */
+function buildReportCard(
+    namespace: string,
+    pods: k8s.V1Pod[],
+    events: k8s.CoreV1Event[],
+    weights: ScoreWeights['namespace']
+): NamespaceReportCard {
+    const byPhase = (phase: string) => pods.filter(p => p.status?.phase === phase);
+    const crashLooping = pods.filter(p =>
+        p.status?.containerStatuses?.some(c =>
+            c.state?.waiting?.reason === 'CrashLoopBackOff' || (c.restartCount || 0) > 5
+        )
+    );
+    const failed = byPhase('Failed');
+    const pending = byPhase('Pending');
+    const restarts = pods.reduce((sum, p) =>
+        sum + (p.status?.containerStatuses || []).reduce((s, c) => s + (c.restartCount || 0), 0), 0);
+
+    // Hygiene of running workloads (finished pods don't matter)
+    const active = pods.filter(p => p.status?.phase !== 'Succeeded' && p.status?.phase !== 'Failed');
+    const containers = active.flatMap(p => p.spec?.containers || []);
+    const missingLimits = containers.filter(c => !c.resources?.limits);
+    // Job pods run to completion and don't need probes
+    const longRunning = active
+        .filter(p => !p.metadata?.ownerReferences?.some(o => o.kind === 'Job'))
+        .flatMap(p => p.spec?.containers || []);
+    const missingProbes = longRunning.filter(c => !c.readinessProbe || !c.livenessProbe);
+
+    const warningEvents = events.reduce((sum, e) => sum + (e.count || 1), 0);
+
+    const percent = (count: number, total: number) => total > 0 ? (count / total) * 100 : 0;
+    const names = (list: k8s.V1Pod[]) =>
+        list.slice(0, 3).map(p => p.metadata?.name).join(', ') + (list.length > 3 ? `, +${list.length - 3}` : '');
+
+    const breakdown: ScoreDeduction[] = [];
+    if (crashLooping.length > 0) {
+        breakdown.push({ rule: `CrashLooping pods: ${crashLooping.length}`, weight: weights.crashLoopPod, points: crashLooping.length * weights.crashLoopPod, issue: names(crashLooping) });
+    }
+    if (failed.length > 0) {
+        breakdown.push({ rule: `Failed pods: ${failed.length}`, weight: weights.failedPod, points: failed.length * weights.failedPod, issue: names(failed) });
+    }
+    if (pending.length > 0) {
+        breakdown.push({ rule: `Pending pods: ${pending.length}`, weight: weights.pendingPod, points: pending.length * weights.pendingPod, issue: names(pending) });
+    }
+    if (restarts > 0) {
+        breakdown.push({ rule: `Container restarts: ${restarts}`, weight: weights.restart, points: Math.min(restarts * weights.restart, weights.restartCap) });
+    }
+    if (missingLimits.length > 0) {
+        const pct = percent(missingLimits.length, containers.length);
+        breakdown.push({ rule: `Containers without limits: ${pct.toFixed(0)}%`, weight: weights.missingLimitsPercent, points: pct * weights.missingLimitsPercent });
+    }
+    if (missingProbes.length > 0) {
+        const pct = percent(missingProbes.length, longRunning.length);
+        breakdown.push({ rule: `Containers without readiness/liveness probe: ${pct.toFixed(0)}%`, weight: weights.missingProbesPercent, points: pct * weights.missingProbesPercent });
+    }
+    if (warningEvents > 0) {
+        breakdown.push({ rule: `Warning events: ${warningEvents}`, weight: weights.warningEvent, points: Math.min(warningEvents * weights.warningEvent, weights.warningEventCap), issue: `mostly ${topReason(events)}` });
+    }
+
+    const score = Math.max(0, 100 - breakdown.reduce((sum, d) => sum + d.points, 0));
+    const top = [...breakdown].sort((a, b) => b.points - a.points)[0];
+
+    return {
+        namespace,
+        score,
+        pods: {
+            total: pods.length,
+            running: byPhase('Running').length,
+            pending: pending.length,
+            failed: failed.length,
+            succeeded: byPhase('Succeeded').length,
+            crashLooping: crashLooping.length,
+        },
+        restarts,
+        containers: {
+            total: containers.length,
+            missingLimits: missingLimits.length,
+            missingProbes: missingProbes.length,
+        },
+        warningEvents,
+        topIssue: top ? `${top.rule}${top.issue ? ` (${top.issue})` : ''}` : undefined,
+        scoreBreakdown: breakdown.filter(d => d.points > 0),
+    };
+}
+
+// ===== Helper functions =====
+
+function groupByNamespace<T extends { metadata?: { namespace?: string } }>(items: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const ns = item.metadata?.namespace || '';
+        if (!groups.has(ns)) groups.set(ns, []);
+        groups.get(ns)!.push(item);
+    }
+    return groups;
+}
+
+/**
+ * Most frequent Warning reason (counting repeats)
+ */
+function topReason(events: k8s.CoreV1Event[]): string {
+    const counts = new Map<string, number>();
+    for (const e of events) {
+        counts.set(e.reason || 'Unknown', (counts.get(e.reason || 'Unknown') || 0) + (e.count || 1));
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'Unknown';
+}
@@ -0,0 +1,449 @@
+/**
+ * Node diagnostics module
+ *
+ * Goes beyond Ready/NotReady: pressure conditions, cordon/taints,
+ * version skew, allocation and kubelet events
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, K8sEvent, NodeDiagnostics, NodePodStatus } from '../types.js';
+import { getNodeEvents, isPodReady, parseCPU, parseMemory } from './pod-diagnostics.js';
+import { getPodRequests } from './scheduling-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { formatBytes, formatCPU, formatIssueCounts } from '../utils/formatters.js';
+import { formatTaint } from '../utils/scheduling.js';
+
+/** Supported kubelet minor versions behind the API server */
+const MAX_KUBELET_SKEW = 3;
+
+/** Node events worth reporting, with severity */
+const NODE_EVENT_SEVERITY: Record<string, 'critical' | 'high' | 'medium'> = {
+    NodeNotReady: 'high',
+    Rebooted: 'high',
+    SystemOOM: 'high',
+    OOMKilling: 'high',
+    EvictionThresholdMet: 'high',
+    FreeDiskSpaceFailed: 'medium',
+    ImageGCFailed: 'medium',
+    ContainerGCFailed: 'medium',
+    KubeletSetupFailed: 'critical',
+    InvalidDiskCapacity: 'medium',
+};
+
+/**
+ * Diagnose a node
+ */
+export async function diagnoseNode(
+    coreApi: k8s.CoreV1Api,
+    versionApi: k8s.VersionApi,
+    nodeName: string
+): Promise<NodeDiagnostics> {
+    try {
+        console.error(`[diagnoseNode] Starting diagnostics for node ${nodeName}`);
+
+        const node = await withRetry(() => coreApi.readNode({ name: nodeName }), { maxAttempts: 3, initialDelay: 500 });
+
+        const [podsResponse, events, controlPlaneVersion] = await Promise.all([
+            withRetry(() => coreApi.listPodForAllNamespaces({ fieldSelector: `spec.nodeName=${nodeName}` }), { maxAttempts: 3, initialDelay: 500 }),
+            getNodeEvents(coreApi, nodeName),
+            versionApi.getCode()
+                .then(v => v.gitVersion)
+                .catch((error) => {
+                    console.error(`[diagnoseNode] Failed to get server version (non-fatal):`, error.message);
+                    return undefined;
+                }),
+        ]);
+
+        const activePods = podsResponse.items.filter(p =>
+            p.status?.phase !== 'Succeeded' && p.status?.phase !== 'Failed'
+        );
+
+        const pods: NodePodStatus[] = podsResponse.items.map(p => {
+            const requests = getPodRequests(p);
+            return {
+                name: p.metadata?.name || 'unknown',
+                namespace: p.metadata?.namespace || 'default',
+                phase: p.status?.phase || 'Unknown',
+                ready: isPodReady(p),
+                restarts: (p.status?.containerStatuses || []).reduce((sum, c) => sum + c.restartCount, 0),
+                cpuRequest: requests.cpu,
+                memoryRequest: requests.memory,
+            };
+        });
+
+        const capacity = calculateCapacity(node, activePods);
+        const conditions = (node.status?.conditions || []).map(c => ({
+            type: c.type,
+            status: c.status,
+            reason: c.reason,
+            message: c.message,
+            lastTransitionTime: c.lastTransitionTime?.toISOString(),
+        }));
+
+        const issues: DiagnosticIssue[] = [];
+        issues.push(...detectConditionIssues(node));
+        issues.push(...detectSchedulabilityIssues(node));
+        issues.push(...detectVersionIssues(node, controlPlaneVersion));
+        issues.push(...detectCapacityIssues(nodeName, capacity));
+        issues.push(...detectEventIssues(nodeName, events));
+
+        const ready = node.status?.conditions?.some(c => c.type === 'Ready' && c.status === 'True') || false;
+
+        return {
+            nodeInfo: {
+                name: nodeName,
+                ready,
+                roles: getNodeRoles(node),
+                unschedulable: node.spec?.unschedulable || false,
+                taints: (node.spec?.taints || []).map(formatTaint),
+                kubeletVersion: node.status?.nodeInfo?.kubeletVersion || 'unknown',
+                containerRuntime: node.status?.nodeInfo?.containerRuntimeVersion || 'unknown',
+                osImage: node.status?.nodeInfo?.osImage || 'unknown',
+                kernelVersion: node.status?.nodeInfo?.kernelVersion || 'unknown',
+                controlPlaneVersion,
+            },
+            conditions,
+            capacity,
+            pods,
+            events,
+            issues,
+            summary: generateNodeSummary(ready, pods, issues),
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseNode] Fatal error:`, error);
+        throw new Error(`Node diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Detect Ready / pressure / network conditions
+ */
+function detectConditionIssues(node: k8s.V1Node): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = node.metadata?.name || 'unknown';
+    const resource = { kind: 'Node', name, namespace: '' };
+
+    for (const condition of node.status?.conditions || []) {
+        const since = condition.lastTransitionTime ? ` since ${condition.lastTransitionTime.toISOString()}` : '';
+
+        if (condition.type === 'Ready' && condition.status !== 'True') {
+            const unknown = condition.status === 'Unknown';
+            issues.push({
+                type: 'Node Not Ready',
+                severity: 'critical',
+                message: `Node ${name} is ${unknown ? 'unreachable (Ready=Unknown)' : 'NotReady'}${since}`,
+                rootCause: unknown
+                    ? `Kubelet stopped posting status (last heartbeat ${condition.lastHeartbeatTime?.toISOString() || 'unknown'}): node down, network partition, or kubelet crashed`
+                    : `${condition.reason || 'KubeletNotReady'}: ${condition.message || 'no message'}`,
+                solution: unknown
+                    ? `1. Check the machine is running and reachable\n2. On the node:\n\`\`\`bash\nsystemctl status kubelet\njournalctl -u kubelet --since "30 min ago"\n\`\`\``
+                    : `Check kubelet and container runtime on the node:\n\`\`\`bash\nsystemctl status kubelet containerd\njournalctl -u kubelet --since "30 min ago"\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+            continue;
+        }
+
+        if (condition.status !== 'True') continue;
+
+        switch (condition.type) {
+            case 'MemoryPressure':
+                issues.push({
+                    type: 'Memory Pressure',
+                    severity: 'high',
+                    message: `Node ${name} has MemoryPressure${since}`,
+                    rootCause: condition.message || 'Available memory is below the kubelet eviction threshold',
+                    solution: `Kubelet evicts BestEffort/Burstable pods first. Find the largest consumers:\n\`\`\`bash\nkubectl top pods -A --sort-by=memory | head\n\`\`\`\nSet memory requests close to real usage so scheduling reflects reality`,
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+                break;
+            case 'DiskPressure':
+                issues.push({
+                    type: 'Disk Pressure',
+                    severity: 'high',
+                    message: `Node ${name} has DiskPressure${since}`,
+                    rootCause: condition.message || 'nodefs or imagefs is below the eviction threshold',
+                    solution: `1. Clean unused images: \`crictl rmi --prune\`\n2. Check container logs and emptyDir usage\n3. Pods get evicted and new pods are not scheduled until resolved`,
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+                break;
+            case 'PIDPressure':
+                issues.push({
+                    type: 'PID Pressure',
+                    severity: 'high',
+                    message: `Node ${name} has PIDPressure${since}`,
+                    rootCause: condition.message || 'Too many processes - usually a fork bomb or process leak in a container',
+                    solution: 'Find the pod spawning processes and set podPidsLimit in the kubelet configuration',
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+                break;
+            case 'NetworkUnavailable':
+                issues.push({
+                    type: 'Network Unavailable',
+                    severity: 'critical',
+                    message: `Node ${name} has NetworkUnavailable${since}`,
+                    rootCause: condition.message || 'Pod network (CNI / routes) is not configured on this node',
+                    solution: `\`\`\`bash\nkubectl get pods -n kube-system -o wide --field-selector spec.nodeName=${name}\n\`\`\`\nCheck the CNI DaemonSet pod on this node`,
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+                break;
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect cordon and taints
+ */
+function detectSchedulabilityIssues(node: k8s.V1Node): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = node.metadata?.name || 'unknown';
+
+    if (node.spec?.unschedulable) {
+        issues.push({
+            type: 'Node Cordoned',
+            severity: 'medium',
+            message: `Node ${name} is cordoned - no new pods are scheduled`,
+            rootCause: 'Node was cordoned (kubectl cordon/drain), possibly by maintenance or an autoscaler that did not finish',
+            solution: `If maintenance is done:\n\`\`\`bash\nkubectl uncordon ${name}\n\`\`\``,
+            resource: { kind: 'Node', name, namespace: '' },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // Built-in condition taints are already explained by the conditions
+    const customTaints = (node.spec?.taints || []).filter(t =>
+        !t.key.startsWith('node.kubernetes.io/') &&
+        !t.key.startsWith('node-role.kubernetes.io/') &&
+        t.effect !== 'PreferNoSchedule'
+    );
+
+    if (customTaints.length > 0) {
+        issues.push({
+            type: 'Node Tainted',
+            severity: 'info',
+            message: `Node ${name} has taints: ${customTaints.map(formatTaint).join(', ')}`,
+            rootCause: 'Only pods with matching tolerations are scheduled here' +
+                (customTaints.some(t => t.effect === 'NoExecute') ? '; NoExecute also evicts running pods without tolerations' : ''),
+            solution: `Remove a taint if it is no longer needed:\n\`\`\`bash\nkubectl taint node ${name} ${customTaints[0].key}:${customTaints[0].effect}-\n\`\`\``,
+            resource: { kind: 'Node', name, namespace: '' },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect kubelet / control plane version skew
+ */
+function detectVersionIssues(node: k8s.V1Node, controlPlaneVersion: string | undefined): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = node.metadata?.name || 'unknown';
+    const kubeletVersion = node.status?.nodeInfo?.kubeletVersion;
+
+    const kubelet = parseMinorVersion(kubeletVersion);
+    const server = parseMinorVersion(controlPlaneVersion);
+    if (!kubelet || !server || kubelet.major !== server.major) return issues;
+
+    const skew = server.minor - kubelet.minor;
+
+    if (skew < 0) {
+        issues.push({
+            type: 'Kubelet Newer Than Control Plane',
+            severity: 'high',
+            message: `Kubelet ${kubeletVersion} on ${name} is newer than the API server ${controlPlaneVersion}`,
+            rootCause: 'Kubelet must never be newer than kube-apiserver - this is an unsupported configuration',
+            solution: 'Upgrade the control plane first, then nodes',
+            resource: { kind: 'Node', name, namespace: '' },
+            timestamp: new Date().toISOString(),
+        });
+    } else if (skew > MAX_KUBELET_SKEW) {
+        issues.push({
+            type: 'Kubelet Version Skew',
+            severity: 'high',
+            message: `Kubelet ${kubeletVersion} on ${name} is ${skew} minor versions behind the API server ${controlPlaneVersion}`,
+            rootCause: `Supported skew is at most ${MAX_KUBELET_SKEW} minor versions`,
+            solution: `Upgrade or replace the node:\n\`\`\`bash\nkubectl drain ${name} --ignore-daemonsets --delete-emptydir-data\n\`\`\``,
+            resource: { kind: 'Node', name, namespace: '' },
+            timestamp: new Date().toISOString(),
+        });
+    } else if (skew > 1) {
+        issues.push({
+            type: 'Kubelet Behind Control Plane',
+            severity: 'low',
+            message: `Kubelet ${kubeletVersion} on ${name} is ${skew} minor versions behind the API server ${controlPlaneVersion}`,
+            rootCause: 'Still supported, but blocks the next control plane upgrade',
+            solution: 'Plan a node upgrade before upgrading the control plane again',
+            resource: { kind: 'Node', name, namespace: '' },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect allocation issues (requests vs allocatable)
+ */
+function detectCapacityIssues(nodeName: string, capacity: NodeDiagnostics['capacity']): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const resource = { kind: 'Node', name: nodeName, namespace: '' };
+
+    const cpuPercent = capacity.cpu.allocatable > 0 ? (capacity.cpu.requested / capacity.cpu.allocatable) * 100 : 0;
+    const memPercent = capacity.memory.allocatable > 0 ? (capacity.memory.requested / capacity.memory.allocatable) * 100 : 0;
+
+    if (cpuPercent >= 90 || memPercent >= 90) {
+        issues.push({
+            type: 'Node Nearly Full',
+            severity: 'medium',
+            message: `Node ${nodeName} requests: CPU ${cpuPercent.toFixed(0)}%, memory ${memPercent.toFixed(0)}% of allocatable`,
+            rootCause: 'New pods with requests will not fit on this node',
+            solution: 'Add nodes or right-size requests of pods on this node',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    const memLimitPercent = capacity.memory.allocatable > 0 ? (capacity.memory.limits / capacity.memory.allocatable) * 100 : 0;
+    if (memLimitPercent > 150) {
+        issues.push({
+            type: 'Memory Overcommitted',
+            severity: 'medium',
+            message: `Memory limits on ${nodeName} total ${formatBytes(capacity.memory.limits)} (${memLimitPercent.toFixed(0)}% of ${formatBytes(capacity.memory.allocatable)} allocatable)`,
+            rootCause: 'If pods use memory up to their limits at the same time, the node hits MemoryPressure and the kernel OOM killer',
+            solution: 'Raise memory requests closer to limits for critical workloads (Guaranteed QoS)',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    if (capacity.pods.allocatable > 0 && capacity.pods.running >= capacity.pods.allocatable) {
+        issues.push({
+            type: 'Pod Limit Reached',
+            severity: 'high',
+            message: `Node ${nodeName} runs ${capacity.pods.running}/${capacity.pods.allocatable} pods`,
+            rootCause: 'Kubelet maxPods (or the CNI IP limit per node) is reached',
+            solution: 'Add nodes, or raise maxPods if the CNI has enough IPs',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect issues from node events
+ */
+function detectEventIssues(nodeName: string, events: K8sEvent[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const seen = new Set<string>();
+
+    // Events are sorted newest first - report each reason once
+    for (const event of events) {
+        const severity = NODE_EVENT_SEVERITY[event.reason];
+        if (!severity || seen.has(event.reason)) continue;
+        seen.add(event.reason);
+
+        const occurrences = events.filter(e => e.reason === event.reason).reduce((sum, e) => sum + e.count, 0);
+
+        issues.push({
+            type: `Node Event: ${event.reason}`,
+            severity,
+            message: `${event.reason} on ${nodeName} (${occurrences}x, last ${event.lastTimestamp || 'unknown'})`,
+            rootCause: event.message,
+            solution: getEventSolution(event.reason, nodeName),
+            resource: { kind: 'Node', name: nodeName, namespace: '' },
+            relatedEvents: [event],
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Generate node summary
+ */
+function generateNodeSummary(ready: boolean, pods: NodePodStatus[], issues: DiagnosticIssue[]): string {
+    const running = pods.filter(p => p.phase === 'Running').length;
+    const unhealthy = pods.filter(p => p.phase !== 'Succeeded' && !p.ready).length;
+
+    let summary = `${ready ? '✅ Ready' : '❌ NotReady'}\n`;
+    summary += `Pods: ${running}/${pods.length} Running`;
+    if (unhealthy > 0) summary += `, ${unhealthy} not ready`;
+    summary += '\n\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Allocatable vs requested/limits of active pods
+ */
+export function calculateCapacity(node: k8s.V1Node, activePods: k8s.V1Pod[]): NodeDiagnostics['capacity'] {
+    const allocatable = node.status?.allocatable || {};
+    let cpuRequested = 0;
+    let memRequested = 0;
+    let cpuLimits = 0;
+    let memLimits = 0;
+
+    for (const pod of activePods) {
+        const requests = getPodRequests(pod);
+        cpuRequested += requests.cpu;
+        memRequested += requests.memory;
+
+        for (const container of pod.spec?.containers || []) {
+            cpuLimits += parseCPU(container.resources?.limits?.['cpu'] || '0');
+            memLimits += parseMemory(container.resources?.limits?.['memory'] || '0');
+        }
+    }
+
+    return {
+        cpu: { allocatable: parseCPU(allocatable['cpu'] || '0'), requested: cpuRequested, limits: cpuLimits },
+        memory: { allocatable: parseMemory(allocatable['memory'] || '0'), requested: memRequested, limits: memLimits },
+        pods: { allocatable: parseInt(allocatable['pods'] || '0'), running: activePods.length },
+    };
+}
+
+function getNodeRoles(node: k8s.V1Node): string[] {
+    const roles = Object.keys(node.metadata?.labels || {})
+        .filter(key => key.startsWith('node-role.kubernetes.io/'))
+        .map(key => key.slice('node-role.kubernetes.io/'.length));
+    return roles.length > 0 ? roles : ['worker'];
+}
+
+function parseMinorVersion(version: string | undefined): { major: number; minor: number } | undefined {
+    const match = version?.match(/^v?(\d+)\.(\d+)/);
+    return match ? { major: parseInt(match[1]), minor: parseInt(match[2]) } : undefined;
+}
+
+function getEventSolution(reason: string, nodeName: string): string {
+    switch (reason) {
+        case 'Rebooted':
+            return `Node restarted unexpectedly. Check the machine (kernel panic, hardware, cloud maintenance):\n\`\`\`bash\njournalctl --list-boots\n\`\`\``;
+        case 'SystemOOM':
+        case 'OOMKilling':
+            return 'The kernel OOM killer ran on the node (outside cgroup limits). Set memory limits on all pods and reserve memory for system daemons (kube-reserved/system-reserved)';
+        case 'EvictionThresholdMet':
+            return `Kubelet started evicting pods. Check:\n\`\`\`bash\nkubectl get pods -A --field-selector spec.nodeName=${nodeName},status.phase=Failed\n\`\`\``;
+        case 'FreeDiskSpaceFailed':
+        case 'ImageGCFailed':
+            return 'Image garbage collection cannot free enough space - enlarge the disk or clean unused images';
+        case 'NodeNotReady':
+            return `The node flapped NotReady. Check kubelet logs and network to the control plane:\n\`\`\`bash\njournalctl -u kubelet --since "1 hour ago"\n\`\`\``;
+        default:
+            return `\`\`\`bash\nkubectl describe node ${nodeName}\n\`\`\``;
+    }
+}
@@ -0,0 +1,275 @@
+/**
+ * Placement audit module
+ *
+ * Cross-references node taints with workload tolerations and node affinity:
+ * single-node workloads, tolerations nothing needs, NoExecute evictions
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, PlacementAudit, WorkloadPlacement } from '../types.js';
+import { withRetry } from '../utils/retry.js';
+import {
+    findUntoleratedTaints,
+    formatTaint,
+    matchesNodeSelector,
+    matchesRequiredNodeAffinity,
+    toleratesTaint,
+} from '../utils/scheduling.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/** Taints added by the node lifecycle controller - tolerating them is normal even when no node has them */
+const CONDITION_TAINT_PREFIXES = ['node.kubernetes.io/', 'node.cloudprovider.kubernetes.io/'];
+
+/**
+ * Audit workload placement against node taints and labels
+ */
+export async function auditPlacement(
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace?: string
+): Promise<PlacementAudit> {
+    try {
+        console.error(`[auditPlacement] Starting placement audit in ${namespace ? `namespace ${namespace}` : 'all namespaces'}`);
+
+        const [nodesResponse, deployments, statefulSets, daemonSets, podsResponse] = await Promise.all([
+            withRetry(() => coreApi.listNode(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => namespace
+                ? appsApi.listNamespacedDeployment({ namespace })
+                : appsApi.listDeploymentForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => namespace
+                ? appsApi.listNamespacedStatefulSet({ namespace })
+                : appsApi.listStatefulSetForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => namespace
+                ? appsApi.listNamespacedDaemonSet({ namespace })
+                : appsApi.listDaemonSetForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => namespace
+                ? coreApi.listNamespacedPod({ namespace })
+                : coreApi.listPodForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 }),
+        ]);
+        const nodes = nodesResponse.items;
+
+        const workloads: WorkloadPlacement[] = [];
+        const issues: DiagnosticIssue[] = [];
+
+        const controllers = [
+            ...deployments.items.map(d => ({ kind: 'Deployment', obj: d, replicas: d.spec?.replicas ?? 1, template: d.spec?.template })),
+            ...statefulSets.items.map(s => ({ kind: 'StatefulSet', obj: s, replicas: s.spec?.replicas ?? 1, template: s.spec?.template })),
+        ];
+
+        // 1. Workloads that fit on a single node (or none)
+        for (const { kind, obj, replicas, template } of controllers) {
+            const placement = evaluatePlacement(kind, obj.metadata, replicas, template?.spec, nodes);
+            workloads.push(placement);
+            if (replicas > 0) {
+                const issue = detectSinglePointOfFailure(placement, nodes.length);
+                if (issue) issues.push(issue);
+            }
+        }
+
+        // 2. Tolerations for taints no node has (DaemonSets too - they carry the most tolerations)
+        const taints = nodes.flatMap(n => n.spec?.taints || []);
+        for (const { kind, obj, template } of [
+            ...controllers,
+            ...daemonSets.items.map(d => ({ kind: 'DaemonSet', obj: d, template: d.spec?.template })),
+        ]) {
+            const unused = (template?.spec?.tolerations || []).filter(t =>
+                t.key &&
+                !CONDITION_TAINT_PREFIXES.some(prefix => t.key!.startsWith(prefix)) &&
+                !taints.some(taint => toleratesTaint(t, taint))
+            );
+            if (unused.length === 0) continue;
+
+            const name = obj.metadata?.name || 'unknown';
+            const ns = obj.metadata?.namespace || 'default';
+            issues.push({
+                type: 'Unused Toleration',
+                severity: 'low',
+                message: `${kind} "${name}" tolerates ${unused.map(formatToleration).join(', ')}, but no node has ${unused.length === 1 ? 'that taint' : 'those taints'}`,
+                rootCause: 'Dead config: the node pool it was written for was removed or renamed its taints. If the pods are meant for dedicated nodes, they now run anywhere',
+                solution: `Remove the toleration, or fix it to match the current node taints:\n\`\`\`bash\nkubectl get nodes -o custom-columns=NAME:.metadata.name,TAINTS:.spec.taints\nkubectl edit ${kind.toLowerCase()} ${name} -n ${ns}\n\`\`\``,
+                resource: { kind, name, namespace: ns },
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        // 3. NoExecute taints evicting pods right now
+        issues.push(...detectNoExecuteEvictions(nodes, podsResponse.items));
+
+        const summary = generatePlacementSummary(nodes.length, workloads, issues);
+
+        return { nodeCount: nodes.length, workloads, issues, summary };
+    } catch (error: any) {
+        console.error('[auditPlacement] Fatal error:', error);
+        throw new Error(`Placement audit failed: ${error.message}`);
+    }
+}
+
+/**
+ * Nodes a pod template can be placed on
+ *
+ * Eligible: taints, nodeSelector and required affinity allow it.
+ * Available: eligible and currently Ready and schedulable
+ */
+function evaluatePlacement(
+    kind: string,
+    metadata: k8s.V1ObjectMeta | undefined,
+    replicas: number,
+    podSpec: k8s.V1PodSpec | undefined,
+    nodes: k8s.V1Node[]
+): WorkloadPlacement {
+    const eligible = nodes.filter(node =>
+        findUntoleratedTaints(node.spec?.taints || [], podSpec?.tolerations || [])
+            // Condition taints (not-ready, unschedulable) are transient - judged by availability instead
+            .filter(t => !CONDITION_TAINT_PREFIXES.some(prefix => t.key.startsWith(prefix)))
+            .length === 0 &&
+        matchesNodeSelector(podSpec?.nodeSelector, node.metadata?.labels || {}) &&
+        matchesRequiredNodeAffinity(podSpec?.affinity, node)
+    );
+    const available = eligible.filter(node =>
+        !node.spec?.unschedulable &&
+        node.status?.conditions?.some(c => c.type === 'Ready' && c.status === 'True')
+    );
+
+    return {
+        kind,
+        name: metadata?.name || 'unknown',
+        namespace: metadata?.namespace || 'default',
+        replicas,
+        eligibleNodes: eligible.map(n => n.metadata?.name || 'unknown'),
+        availableNodes: available.map(n => n.metadata?.name || 'unknown'),
+    };
+}
+
+/**
+ * Workload that can only run on one node (or none)
+ */
+function detectSinglePointOfFailure(placement: WorkloadPlacement, nodeCount: number): DiagnosticIssue | undefined {
+    const { kind, name, namespace, replicas, eligibleNodes, availableNodes } = placement;
+    const resource = { kind, name, namespace };
+    const inspect = `\`\`\`bash\nkubectl get ${kind.toLowerCase()} ${name} -n ${namespace} -o jsonpath='{.spec.template.spec.nodeSelector}{"\\n"}{.spec.template.spec.affinity.nodeAffinity}{"\\n"}{.spec.template.spec.tolerations}'\n\`\`\``;
+
+    if (eligibleNodes.length === 0) {
+        return {
+            type: 'No Eligible Node',
+            severity: 'critical',
+            message: `${kind} "${name}" matches none of the ${nodeCount} node(s)`,
+            rootCause: 'nodeSelector / required node affinity / tolerations exclude every node - new pods stay Pending',
+            solution: `Run explain-scheduling on a Pending pod for the per-node reason, then fix the selector or node labels:\n${inspect}`,
+            resource,
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    if (eligibleNodes.length === 1) {
+        return {
+            type: 'Single Node Workload',
+            severity: replicas > 1 ? 'high' : 'medium',
+            message: `${kind} "${name}" (${replicas} replica(s)) can only run on node ${eligibleNodes[0]}`,
+            rootCause: 'Only one node satisfies its nodeSelector / node affinity / tolerations. Draining or losing that node takes the whole workload down',
+            solution: `Widen the placement rules (label more nodes, use a node pool label instead of a hostname) or add nodes to the pool:\n${inspect}`,
+            resource,
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    if (availableNodes.length <= 1) {
+        const unavailable = eligibleNodes.filter(n => !availableNodes.includes(n));
+        return {
+            type: availableNodes.length === 0 ? 'No Available Node' : 'Single Available Node',
+            severity: availableNodes.length === 0 ? 'critical' : 'high',
+            message: availableNodes.length === 0
+                ? `All ${eligibleNodes.length} node(s) eligible for ${kind} "${name}" are cordoned or NotReady`
+                : `${kind} "${name}" can currently only be scheduled on ${availableNodes[0]}`,
+            rootCause: `Eligible nodes cordoned or NotReady: ${unavailable.join(', ')}. A pool drain is in progress or nodes are failing`,
+            solution: `\`\`\`bash\nkubectl get nodes ${unavailable.join(' ')}\nkubectl uncordon <node>  # when maintenance is done\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * NoExecute taints evicting pods that don't tolerate them (or only for tolerationSeconds)
+ */
+function detectNoExecuteEvictions(nodes: k8s.V1Node[], pods: k8s.V1Pod[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+
+    for (const node of nodes) {
+        const nodeName = node.metadata?.name || 'unknown';
+        const noExecute = (node.spec?.taints || []).filter(t => t.effect === 'NoExecute');
+        if (noExecute.length === 0) continue;
+
+        const nodePods = pods.filter(p =>
+            p.spec?.nodeName === nodeName &&
+            p.status?.phase !== 'Succeeded' && p.status?.phase !== 'Failed'
+        );
+
+        for (const taint of noExecute) {
+            const evicting: string[] = [];
+            const scheduled: string[] = [];
+            for (const pod of nodePods) {
+                const podName = `${pod.metadata?.namespace}/${pod.metadata?.name}`;
+                const toleration = (pod.spec?.tolerations || []).find(t => toleratesTaint(t, taint));
+                if (!toleration) {
+                    evicting.push(podName);
+                } else if (toleration.tolerationSeconds !== undefined) {
+                    const added = taint.timeAdded ? new Date(taint.timeAdded).getTime() : Date.now();
+                    const remaining = Math.round((added + toleration.tolerationSeconds * 1000 - Date.now()) / 1000);
+                    if (remaining <= 0) evicting.push(podName);
+                    else scheduled.push(`${podName} (in ${remaining}s)`);
+                }
+            }
+            if (evicting.length === 0 && scheduled.length === 0) continue;
+
+            const isCondition = CONDITION_TAINT_PREFIXES.some(prefix => taint.key.startsWith(prefix));
+            const list = (items: string[]) => items.slice(0, 5).join(', ') + (items.length > 5 ? ` and ${items.length - 5} more` : '');
+
+            issues.push({
+                type: 'NoExecute Taint Evicting Pods',
+                severity: evicting.length > 0 ? 'high' : 'medium',
+                message: `Taint ${formatTaint(taint)} on node ${nodeName} is evicting ${evicting.length} pod(s)` +
+                    (scheduled.length > 0 ? `, ${scheduled.length} more after tolerationSeconds` : ''),
+                rootCause: (isCondition
+                    ? 'Added by the node lifecycle controller (node NotReady/unreachable) - pods are evicted after tolerationSeconds (default 300s)'
+                    : 'A NoExecute taint was added (drain, dedicated pool, or an operator) - pods without a matching toleration are evicted immediately') +
+                    (evicting.length > 0 ? `. Evicting: ${list(evicting)}` : '') +
+                    (scheduled.length > 0 ? `. Scheduled: ${list(scheduled)}` : ''),
+                solution: isCondition
+                    ? `Run diagnose-node for the node condition:\n\`\`\`bash\nkubectl describe node ${nodeName}\n\`\`\``
+                    : `If the taint is unintended, remove it; otherwise make sure evicted workloads have room elsewhere:\n\`\`\`bash\nkubectl taint nodes ${nodeName} ${taint.key}:NoExecute-\n\`\`\``,
+                resource: { kind: 'Node', name: nodeName, namespace: '' },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Generate audit summary
+ */
+function generatePlacementSummary(nodeCount: number, workloads: WorkloadPlacement[], issues: DiagnosticIssue[]): string {
+    const singleNode = workloads.filter(w => w.replicas > 0 && w.eligibleNodes.length <= 1).length;
+
+    let summary = `Audited ${workloads.length} workload(s) against ${nodeCount} node(s).\n`;
+    if (singleNode > 0) {
+        summary += `⚠️ Workloads limited to one node or none: ${singleNode}\n`;
+    }
+    summary += '\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+function formatToleration(toleration: k8s.V1Toleration): string {
+    const value = toleration.operator === 'Exists' ? '' : `=${toleration.value || ''}`;
+    return `${toleration.key}${value}${toleration.effect ? `:${toleration.effect}` : ''}`;
+}
@@ -8,15 +8,25 @@
  */
 
 import * as k8s from '@kubernetes/client-node';
+import { Writable } from 'node:stream';
+import { finished } from 'node:stream/promises';
 import type {
     PodDiagnostics,
     DiagnosticIssue,
     ContainerStatus,
+    InitContainerStatus,
     ResourceUsage,
     K8sEvent,
     PodPhase,
+    RestartAttribution,
+    ScoreDeduction,
 } from '../types.js';
 import { withRetry } from '../utils/retry.js';
+import { getScoreWeights, type ScoreWeights } from '../utils/config.js';
+import { validateConfigReferences } from './config-reference-diagnostics.js';
+import { analyzeProbes } from './probe-diagnostics.js';
+import { attributeRestarts, explainRestartCause, getRestartCauseLabel } from '../analyzers/restart-analyzer.js';
+import { formatIssueCounts } from '../utils/formatters.js';
 
 /**
  * Comprehensive pod diagnostics
@@ -28,7 +38,8 @@ export async function diagnosePod(
     coreApi: k8s.CoreV1Api,
     namespace: string,
     podName: string,
-    metricsApi?: k8s.Metrics
+    metricsApi?: k8s.Metrics,
+    logApi?: k8s.Log
 ): Promise<PodDiagnostics> {
     try {
         console.error(`[diagnosePod] Starting diagnostics for pod ${podName} in namespace ${namespace}`);
@@ -69,9 +80,19 @@ export async function diagnosePod(
         // Container-related issues
         issues.push(...detectContainerIssues(pod, containers, events));
 
+        // Init containers (the pod cannot start until they all complete)
+        const { initContainers, issues: initIssues } = await diagnoseInitContainers(coreApi, pod, events, logApi);
+        issues.push(...initIssues);
+
         // Image pull issues
         issues.push(...detectImagePullIssues(pod, events));
 
+        // ConfigMap / Secret references (env, envFrom, volumes)
+        issues.push(...await validateConfigReferences(coreApi, pod));
+
+        // Liveness / readiness / startup probes
+        issues.push(...analyzeProbes(pod, events));
+
         // Resource-related issues
         const resources = await analyzeResourceUsage(pod, namespace, podName, metricsApi);
         issues.push(...detectResourceIssues(pod, resources));
@@ -83,10 +104,10 @@ export async function diagnosePod(
         issues.push(...detectNetworkIssues(pod, events));
 
         // 5. Calculate health score
-        const healthScore = calculateHealthScore(pod, issues);
+        const { score: healthScore, breakdown: scoreBreakdown } = calculateHealthScore(pod, issues);
 
         // 6. Generate summary
-        const summary = generatePodSummary(pod, issues, healthScore);
+        const summary = generatePodSummary(pod, initContainers, issues, healthScore);
 
         return {
             podInfo: {
@@ -99,11 +120,13 @@ export async function diagnosePod(
                 podIP: pod.status?.podIP,
             },
             containers,
+            initContainers,
             issues,
             resources,
             events,
             summary,
             healthScore,
+            scoreBreakdown,
         };
     } catch (error: any) {
         console.error(`[diagnosePod] Fatal error:`, error);
@@ -133,114 +156,29 @@ export async function diagnoseCrashLoop(
             { maxAttempts: 3 }
         );
 
-        const containerStatuses = pod.status?.containerStatuses || [];
+        // Init containers first - they run before (and block) the app containers
+        const initNames = new Set((pod.spec?.initContainers || []).map(c => c.name));
+        const containerStatuses = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])];
+
+        // Exit codes alone can't tell OOM, probe kills, evictions and preemption apart
+        const [events, nodeEvents] = await Promise.all([
+            getResourceEvents(coreApi, namespace, podName),
+            pod.spec?.nodeName ? getNodeEvents(coreApi, pod.spec.nodeName) : Promise.resolve([]),
+        ]);
+        const attributions = attributeRestarts(pod, events, nodeEvents);
 
         for (const status of containerStatuses) {
             // If containerName specified, only that container
             if (containerName && status.name !== containerName) continue;
 
-            const restartCount = status.restartCount || 0;
-
             // Detect CrashLoop
-            if (restartCount > 3 || status.state?.waiting?.reason === 'CrashLoopBackOff') {
-                // Check termination reason from previous state
-                const lastTerminated = status.lastState?.terminated;
-                let rootCause = 'unknown';
-                let solution = '';
-
-                if (lastTerminated) {
-                    const exitCode = lastTerminated.exitCode;
-
-                    // Analyze exit code
-                    if (exitCode === 0) {
-                        rootCause = 'Container exited normally but keeps restarting due to restart policy';
-                        solution = 'Change spec.restartPolicy to "Never" or "OnFailure"\n```yaml\nspec:\n  restartPolicy: OnFailure\n```';
-                    } else if (exitCode === 1) {
-                        rootCause = 'Application error caused termination';
-                        solution = 'Check logs to fix application errors\n```bash\nkubectl logs ' + podName + ' -n ' + namespace + ' -c ' + status.name + ' --previous\n```';
-                    } else if (exitCode === 137) {
-                        rootCause = 'OOM (Out Of Memory) - Container was killed due to insufficient memory';
-                        solution = 'Increase memory limit or optimize application memory usage\n```yaml\nresources:\n  limits:\n    memory: "512Mi"  # Set higher than current\n```';
-                    } else if (exitCode === 143) {
-                        rootCause = 'Terminated by SIGTERM - Received normal termination signal';
-                        solution = 'Graceful shutdown may not be properly implemented. Try increasing terminationGracePeriodSeconds';
-                    } else if (exitCode === 126) {
-                        rootCause = 'Permission denied - Executable file lacks execute permission';
-                        solution = 'Grant execute permission with chmod +x in Dockerfile';
-                    } else if (exitCode === 127) {
-                        rootCause = 'Command not found - CMD/ENTRYPOINT command does not exist';
-                        solution = 'Verify CMD/ENTRYPOINT path in Dockerfile';
-                    } else {
-                        rootCause = `Unknown error (exit code ${exitCode})`;
-                        solution = 'Check logs to identify detailed cause';
-                    }
-                }
-
-                // Find additional clues in logs
-                try {
-                    const { Writable } = require('stream');
-                    const stream = new Writable();
-                    let logData = '';
-
-                    stream._write = (chunk: any, _encoding: string, next: Function) => {
-                        logData += chunk.toString();
-                        next();
-                    };
-
-                    await withRetry(
-                        () => logApi.log(namespace, podName, status.name, stream, {
-                            previous: true,
-                            tailLines: 50,
-                        }),
-                        { maxAttempts: 2 }
-                    );
-
-                    // Find error patterns in logs
-                    const relevantLogs: string[] = [];
-                    const lines = logData.split('\n');
-
-                    for (const line of lines) {
-                        if (
-                            line.toLowerCase().includes('error') ||
-                            line.toLowerCase().includes('exception') ||
-                            line.toLowerCase().includes('fatal') ||
-                            line.toLowerCase().includes('panic')
-                        ) {
-                            relevantLogs.push(line.trim());
-                        }
-                    }
-
-                    issues.push({
-                        type: 'CrashLoopBackOff',
-                        severity: 'critical',
-                        message: `Container "${status.name}" has restarted ${restartCount} times`,
-                        rootCause,
-                        solution,
-                        resource: {
-                            kind: 'Pod',
-                            name: podName,
-                            namespace,
-                        },
-                        relevantLogs: relevantLogs.slice(0, 10), // Max 10 lines
-                        timestamp: new Date().toISOString(),
-                    });
-                } catch (logError: any) {
+            if ((status.restartCount || 0) > 3 || status.state?.waiting?.reason === 'CrashLoopBackOff') {
+                const previousLogs = await readContainerLogs(logApi, namespace, podName, status.name, true, 50).catch((logError) => {
+                    // Report the issue even if logs cannot be retrieved
                     console.error(`[diagnoseCrashLoop] Failed to retrieve logs for ${status.name}:`, logError.message);
-                    // Add issue even if logs cannot be retrieved
-                    issues.push({
-                        type: 'CrashLoopBackOff',
-                        severity: 'critical',
-                        message: `Container "${status.name}" has restarted ${restartCount} times`,
-                        rootCause,
-                        solution,
-                        resource: {
-                            kind: 'Pod',
-                            name: podName,
-                            namespace,
-                        },
-                        timestamp: new Date().toISOString(),
-                    });
-                }
+                    return undefined;
+                });
+                issues.push(analyzeCrashLoopContainer(pod, status, attributions, initNames.has(status.name), previousLogs));
             }
         }
     } catch (error: any) {
@@ -250,6 +188,116 @@ export async function diagnoseCrashLoop(
     return issues;
 }
 
+/**
+ * CrashLoop analysis of one container (regular or init)
+ *
+ * Exit code, restart attribution and error lines from the previous run's logs
+ */
+function analyzeCrashLoopContainer(
+    pod: k8s.V1Pod,
+    status: k8s.V1ContainerStatus,
+    attributions: RestartAttribution[],
+    isInit: boolean,
+    previousLogs?: string[]
+): DiagnosticIssue {
+    const podName = pod.metadata?.name || 'unknown';
+    const namespace = pod.metadata?.namespace || 'default';
+    const restartCount = status.restartCount || 0;
+
+    // Check termination reason from previous state
+    const lastTerminated = status.lastState?.terminated;
+    let rootCause = 'unknown';
+    let solution = '';
+
+    if (lastTerminated) {
+        ({ rootCause, solution } = analyzeExitCode(lastTerminated.exitCode, podName, namespace, status.name));
+    }
+
+    // Restart attribution overrides the exit code guess (137 is not always OOM)
+    const containerAttributions = attributions.filter(a => a.container === status.name);
+    const latest = containerAttributions[0];
+    if (latest && latest.cause !== 'ApplicationError' && latest.cause !== 'Completed') {
+        ({ rootCause, solution } = explainRestartCause(latest, podName, namespace));
+    }
+    if (containerAttributions.length > 0) {
+        rootCause += '\n\nRestart attribution (most recent first):\n' + containerAttributions
+            .map(a => `- ${a.count}x ${getRestartCauseLabel(a.cause)} [${a.confidence} confidence]${a.time ? ` at ${a.time}` : ''}: ${a.evidence.join('; ')}`)
+            .join('\n');
+    }
+
+    // Find additional clues in logs
+    const relevantLogs = previousLogs
+        ?.filter(line => /error|exception|fatal|panic/i.test(line))
+        .map(line => line.trim())
+        .slice(0, 10); // Max 10 lines
+
+    return {
+        type: isInit ? 'Init:CrashLoopBackOff' : 'CrashLoopBackOff',
+        severity: 'critical',
+        message: isInit
+            ? `Init container "${status.name}" has restarted ${restartCount} times - the pod cannot start until it succeeds`
+            : `Container "${status.name}" has restarted ${restartCount} times`,
+        rootCause,
+        solution,
+        resource: {
+            kind: 'Pod',
+            name: podName,
+            namespace,
+        },
+        relevantLogs,
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * Analyze container exit code
+ *
+ * Maps exit codes to likely root cause and solution
+ */
+export function analyzeExitCode(
+    exitCode: number,
+    podName: string,
+    namespace: string,
+    containerName: string
+): { rootCause: string; solution: string } {
+    if (exitCode === 0) {
+        return {
+            rootCause: 'Container exited normally but keeps restarting due to restart policy',
+            solution: 'Change spec.restartPolicy to "Never" or "OnFailure"\n```yaml\nspec:\n  restartPolicy: OnFailure\n```',
+        };
+    } else if (exitCode === 1) {
+        return {
+            rootCause: 'Application error caused termination',
+            solution: 'Check logs to fix application errors\n```bash\nkubectl logs ' + podName + ' -n ' + namespace + ' -c ' + containerName + ' --previous\n```',
+        };
+    } else if (exitCode === 137) {
+        return {
+            rootCause: 'Killed by SIGKILL - an OOM kill only if the termination reason is OOMKilled, otherwise a liveness probe kill, eviction or external kill',
+            solution: 'If the reason is OOMKilled, increase memory limit or optimize application memory usage\n```yaml\nresources:\n  limits:\n    memory: "512Mi"  # Set higher than current\n```\nOtherwise check Killing/Evicted events before touching memory (debug-crashloop attributes each restart)',
+        };
+    } else if (exitCode === 143) {
+        return {
+            rootCause: 'Terminated by SIGTERM - Received normal termination signal',
+            solution: 'Graceful shutdown may not be properly implemented. Try increasing terminationGracePeriodSeconds',
+        };
+    } else if (exitCode === 126) {
+        return {
+            rootCause: 'Permission denied - Executable file lacks execute permission',
+            solution: 'Grant execute permission with chmod +x in Dockerfile',
+        };
+    } else if (exitCode === 127) {
+        return {
+            rootCause: 'Command not found - CMD/ENTRYPOINT command does not exist',
+            solution: 'Verify CMD/ENTRYPOINT path in Dockerfile',
+        };
+    }
+
+    return {
+        rootCause: `Unknown error (exit code ${exitCode})`,
+        solution: 'Check logs to identify detailed cause',
+    };
+}
+
 /**
  * Parse container statuses
  */
@@ -268,7 +316,7 @@ function parseContainerStatuses(statuses: any[]): ContainerStatus[] {
 /**
  * Parse events
  */
-function parseEvents(items: any[]): K8sEvent[] {
+export function parseEvents(items: any[]): K8sEvent[] {
     return items
         .map(e => ({
             type: e.type,
@@ -278,12 +326,57 @@ function parseEvents(items: any[]): K8sEvent[] {
             firstTimestamp: e.firstTimestamp,
             lastTimestamp: e.lastTimestamp,
             source: e.source?.component,
+            fieldPath: e.involvedObject?.fieldPath,
         }))
         .sort((a, b) =>
             new Date(b.lastTimestamp).getTime() - new Date(a.lastTimestamp).getTime()
         );
 }
 
+/**
+ * Get events for a named resource
+ *
+ * Events are not critical, returns empty list on failure
+ */
+export async function getResourceEvents(
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    name: string
+): Promise<K8sEvent[]> {
+    try {
+        const response = await withRetry(() => coreApi.listNamespacedEvent({
+            namespace,
+            fieldSelector: `involvedObject.name=${name}`,
+        }), { maxAttempts: 2, initialDelay: 500 });
+        return parseEvents(response.items);
+    } catch (error: any) {
+        console.error(`[getResourceEvents] Failed to get events for ${name} (non-fatal):`, error.message);
+        return [];
+    }
+}
+
+/**
+ * Events of a node (non-fatal, empty list on failure)
+ */
+export async function getNodeEvents(coreApi: k8s.CoreV1Api, nodeName: string): Promise<K8sEvent[]> {
+    try {
+        const response = await withRetry(() => coreApi.listEventForAllNamespaces({
+            fieldSelector: `involvedObject.kind=Node,involvedObject.name=${nodeName}`,
+        }), { maxAttempts: 2, initialDelay: 500 });
+        return parseEvents(response.items);
+    } catch (error: any) {
+        console.error(`[getNodeEvents] Failed to get events for node ${nodeName} (non-fatal):`, error.message);
+        return [];
+    }
+}
+
+/**
+ * Check pod Ready condition
+ */
+export function isPodReady(pod: any): boolean {
+    return pod.status?.conditions?.some((c: any) => c.type === 'Ready' && c.status === 'True') || false;
+}
+
 /**
  * Detect container issues
  */
@@ -305,6 +398,11 @@ function detectContainerIssues(
                 continue;
             }
 
+            if (reason === 'PodInitializing') {
+                // Waiting on init containers, which are diagnosed separately
+                continue;
+            }
+
             issues.push({
                 type: `Container Waiting: ${reason}`,
                 severity: 'high',
@@ -341,6 +439,129 @@ function detectContainerIssues(
     return issues;
 }
 
+/** Init container running longer than this is considered stuck */
+const INIT_STUCK_SECONDS = 300;
+
+/**
+ * Diagnose init containers
+ *
+ * Finds the init container the pod is waiting on and explains why
+ */
+async function diagnoseInitContainers(
+    coreApi: k8s.CoreV1Api,
+    pod: k8s.V1Pod,
+    events: K8sEvent[],
+    logApi?: k8s.Log
+): Promise<{ initContainers: InitContainerStatus[]; issues: DiagnosticIssue[] }> {
+    const issues: DiagnosticIssue[] = [];
+    const podName = pod.metadata?.name || 'unknown';
+    const namespace = pod.metadata?.namespace || 'default';
+    const statuses = pod.status?.initContainerStatuses || [];
+
+    const initContainers: InitContainerStatus[] = (pod.spec?.initContainers || []).map((spec, index) => {
+        const status = statuses.find(s => s.name === spec.name);
+        const sidecar = spec.restartPolicy === 'Always';
+        return {
+            ...parseContainerStatuses([status || { name: spec.name, image: spec.image }])[0],
+            order: index + 1,
+            sidecar,
+            completed: sidecar ? status?.started === true : status?.state?.terminated?.exitCode === 0,
+            blocking: false,
+        };
+    });
+
+    // They run in order, so the first unfinished one blocks the rest
+    const initialized = pod.status?.conditions?.some(c => c.type === 'Initialized' && c.status === 'True');
+    const blocking = initialized ? undefined : initContainers.find(c => !c.completed);
+    const status = blocking && statuses.find(s => s.name === blocking.name);
+    if (!blocking || !status) {
+        // Not started yet (e.g. pod not scheduled) - covered by other checks
+        return { initContainers, issues };
+    }
+    blocking.blocking = true;
+
+    const name = blocking.name;
+    const position = `${blocking.order}/${initContainers.length}`;
+    const resource = { kind: 'Pod', name: podName, namespace };
+    const lastTerminated = status.lastState?.terminated;
+    const restarted = !!lastTerminated;
+    const waiting = status.state?.waiting;
+    const terminated = status.state?.terminated;
+    // Same threshold as diagnoseCrashLoop
+    const crashLooping = (status.restartCount || 0) > 3 || waiting?.reason === 'CrashLoopBackOff';
+
+    // Logs of the previous run when it restarted, otherwise of the current one
+    let logs: string[] | undefined;
+    if (logApi) {
+        logs = await readContainerLogs(logApi, namespace, podName, name, restarted, 50).catch((error) => {
+            console.error(`[diagnosePod] Failed to retrieve logs for init container ${name} (non-fatal):`, error.message);
+            return undefined;
+        });
+        blocking.logs = logs?.slice(-10);
+    }
+
+    if (crashLooping) {
+        // Same analysis as debug-crashloop
+        const nodeEvents = pod.spec?.nodeName ? await getNodeEvents(coreApi, pod.spec.nodeName) : [];
+        issues.push(analyzeCrashLoopContainer(pod, status, attributeRestarts(pod, events, nodeEvents), true, logs));
+    } else if (terminated && terminated.exitCode !== 0) {
+        // Failed without retry (restartPolicy: Never)
+        const { rootCause, solution } = analyzeExitCode(terminated.exitCode, podName, namespace, name);
+        issues.push({
+            type: 'Init Container Failed',
+            severity: 'critical',
+            message: `Init container "${name}" (${position}) failed with exit code ${terminated.exitCode} - the pod will not start`,
+            rootCause,
+            solution,
+            resource,
+            relevantLogs: logs?.filter(line => /error|exception|fatal|panic/i.test(line)).slice(0, 10),
+            timestamp: new Date().toISOString(),
+        });
+    } else if (waiting && waiting.reason !== 'ErrImagePull' && waiting.reason !== 'ImagePullBackOff') {
+        // Image pull issues are handled in a separate function
+        issues.push({
+            type: `Init Container Waiting: ${waiting.reason}`,
+            severity: 'high',
+            message: `Init container "${name}" (${position}) is in ${waiting.reason} state - the pod cannot start`,
+            rootCause: waiting.message || 'Unknown reason',
+            solution: getWaitingSolution(waiting.reason || ''),
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    } else if (status.state?.running?.startedAt) {
+        const runningSeconds = (Date.now() - new Date(status.state.running.startedAt).getTime()) / 1000;
+        if (runningSeconds > INIT_STUCK_SECONDS) {
+            issues.push({
+                type: 'Init Container Stuck',
+                severity: 'high',
+                message: `Init container "${name}" (${position}) has been running for ${Math.round(runningSeconds / 60)} minutes - the pod is still initializing`,
+                rootCause: 'Init containers usually hang waiting for a dependency (database, service, migration lock) or on a job that never finishes',
+                solution: `Check what it is waiting for:\n\`\`\`bash\nkubectl logs ${podName} -n ${namespace} -c ${name} --tail=50\n\`\`\``,
+                resource,
+                relevantLogs: blocking.logs,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    // A few failed attempts are retried normally - context only, not a crash loop yet
+    if (!crashLooping && lastTerminated && lastTerminated.exitCode !== 0) {
+        const { rootCause, solution } = analyzeExitCode(lastTerminated.exitCode, podName, namespace, name);
+        issues.push({
+            type: 'Init Container Restarted',
+            severity: 'medium',
+            message: `Init container "${name}" (${position}) failed ${status.restartCount || 1} time(s) (last exit code ${lastTerminated.exitCode}) and is being retried`,
+            rootCause,
+            solution,
+            resource,
+            relevantLogs: logs?.filter(line => /error|exception|fatal|panic/i.test(line)).slice(0, 10),
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return { initContainers, issues };
+}
+
 /**
  * Detect image pull issues
  */
@@ -579,7 +800,22 @@ function detectVolumeIssues(pod: any, events: K8sEvent[]): DiagnosticIssue[] {
     );
 
     for (const event of volumeEvents) {
-        if (event.type === 'Warning') {
+        if (event.type === 'Warning' && (event.message.includes('Multi-Attach error') || event.reason === 'FailedAttachVolume')) {
+            issues.push({
+                type: event.message.includes('Multi-Attach error') ? 'Multi-Attach Error' : 'Volume Attach Failed',
+                severity: 'critical',
+                message: 'Volume cannot be attached to this node',
+                rootCause: event.message,
+                solution: '1. A ReadWriteOnce volume is usually still attached to another node (old pod stuck Terminating or node down)\n2. Run diagnose-storage for this namespace to find the node/pod holding the volume\n3. For Deployments with RWO volumes, use strategy.type: Recreate',
+                resource: {
+                    kind: 'Pod',
+                    name: pod.metadata?.name,
+                    namespace: pod.metadata?.namespace,
+                },
+                relatedEvents: [event],
+                timestamp: new Date().toISOString(),
+            });
+        } else if (event.type === 'Warning') {
             issues.push({
                 type: 'Volume Mount Issue',
                 severity: 'high',
@@ -634,57 +870,138 @@ function detectNetworkIssues(pod: any, events: K8sEvent[]): DiagnosticIssue[] {
 
 /**
  * Calculate health score
+ *
+ * Returns the score and every deduction that went into it
  */
-function calculateHealthScore(pod: any, issues: DiagnosticIssue[]): number {
-    let score = 100;
+function calculateHealthScore(
+    pod: any,
+    issues: DiagnosticIssue[],
+    weights: ScoreWeights['pod'] = getScoreWeights().pod
+): { score: number; breakdown: ScoreDeduction[] } {
+    const breakdown: ScoreDeduction[] = [];
 
     // Deductions based on pod phase
     const phase = pod.status?.phase;
-    if (phase === 'Failed') score -= 100;
-    else if (phase === 'Pending') score -= 30;
-    else if (phase === 'Unknown') score -= 50;
+    const phaseWeight = phase === 'Failed' ? weights.phaseFailed
+        : phase === 'Unknown' ? weights.phaseUnknown
+        : phase === 'Pending' ? weights.phasePending
+        : 0;
+    if (phaseWeight > 0) {
+        breakdown.push({ rule: `Pod phase: ${phase}`, weight: phaseWeight, points: phaseWeight });
+    }
 
     // Deductions based on issues
     for (const issue of issues) {
-        if (issue.severity === 'critical') score -= 30;
-        else if (issue.severity === 'high') score -= 20;
-        else if (issue.severity === 'medium') score -= 10;
-        else if (issue.severity === 'low') score -= 5;
+        const issueWeight = issue.severity === 'info' ? 0 : weights[issue.severity];
+        if (issueWeight > 0) {
+            breakdown.push({
+                rule: `Issue severity: ${issue.severity}`,
+                weight: issueWeight,
+                points: issueWeight,
+                issue: `${issue.type}: ${issue.message}`,
+            });
+        }
     }
 
-    return Math.max(0, Math.min(100, score));
+    const score = 100 - breakdown.reduce((sum, d) => sum + d.points, 0);
+    return { score: Math.max(0, Math.min(100, score)), breakdown };
 }
 
 /**
  * Generate pod summary
  */
-function generatePodSummary(pod: any, issues: DiagnosticIssue[], healthScore: number): string {
+function generatePodSummary(
+    pod: any,
+    initContainers: InitContainerStatus[],
+    issues: DiagnosticIssue[],
+    healthScore: number
+): string {
     const phase = pod.status?.phase || 'Unknown';
     const containerCount = pod.spec?.containers?.length || 0;
     const readyContainers = pod.status?.containerStatuses?.filter((c: any) => c.ready).length || 0;
 
     let summary = `Pod "${pod.metadata?.name}" is currently in ${phase} state.\n`;
+    if (initContainers.length > 0) {
+        const blocking = initContainers.find(c => c.blocking);
+        summary += `Init containers: ${initContainers.filter(c => c.completed).length}/${initContainers.length} completed`;
+        summary += blocking ? ` (waiting on "${blocking.name}")\n` : '\n';
+    }
     summary += `Containers: ${readyContainers}/${containerCount} ready\n`;
     summary += `Health: ${healthScore}/100\n\n`;
 
-    if (issues.length === 0) {
-        summary += '✅ No issues found!';
-    } else {
-        summary += `⚠️ ${issues.length} issue(s) detected.\n`;
-        const critical = issues.filter(i => i.severity === 'critical').length;
-        const high = issues.filter(i => i.severity === 'high').length;
-        if (critical > 0) summary += `  - Critical: ${critical}\n`;
-        if (high > 0) summary += `  - High: ${high}\n`;
-    }
+    summary += formatIssueCounts(issues);
 
     return summary;
 }
 
 // ===== Helper functions =====
 
+/** Give up on a log stream that stalls without ending */
+const LOG_READ_TIMEOUT_MS = 15_000;
+
+/**
+ * Read container logs as lines
+ *
+ * Log.log() resolves once streaming starts, so wait for the stream to end.
+ * Each attempt gets a fresh stream; the whole read, connect included,
+ * is aborted after LOG_READ_TIMEOUT_MS
+ */
+async function readContainerLogs(
+    logApi: k8s.Log,
+    namespace: string,
+    podName: string,
+    containerName: string,
+    previous: boolean,
+    tailLines: number
+): Promise<string[]> {
+    let timedOut = false;
+    let request: AbortController | undefined;
+    let stream: Writable | undefined;
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            timedOut = true;
+            request?.abort();
+            stream?.destroy();
+            reject(new Error(`Timed out reading logs of container ${containerName} after ${LOG_READ_TIMEOUT_MS / 1000}s`));
+        }, LOG_READ_TIMEOUT_MS);
+    });
+
+    const read = withRetry(async () => {
+        if (timedOut) throw new Error('Log read timed out');
+
+        let logData = '';
+        const attemptStream = new Writable({
+            write(chunk, _encoding, next) {
+                logData += chunk.toString();
+                next();
+            },
+        });
+        stream = attemptStream;
+
+        const attemptRequest = await logApi.log(namespace, podName, containerName, attemptStream, { previous, tailLines });
+        request = attemptRequest;
+        // The deadline passed while connecting
+        if (timedOut) {
+            attemptRequest.abort();
+            attemptStream.destroy();
+        }
+
+        await finished(attemptStream);
+        return logData.split('\n').filter(line => line.trim());
+    }, { maxAttempts: 2 });
+
+    try {
+        return await Promise.race([read, deadline]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
 function getWaitingSolution(reason: string): string {
     const solutions: Record<string, string> = {
-        'CreateContainerConfigError': 'Check container configuration (ConfigMap, Secret, etc.)',
+        'CreateContainerConfigError': 'Check the ConfigMaps/Secrets and keys the container references (missing ones are reported as separate issues)',
         'InvalidImageName': 'Verify image name format',
         'CreateContainerError': 'Check container creation settings',
     };
@@ -694,7 +1011,7 @@ function getWaitingSolution(reason: string): string {
 function getTerminatedSolution(exitCode: number): string {
     const solutions: Record<number, string> = {
         1: 'Check application logs to fix errors',
-        137: 'Increase memory limit (OOM killed)',
+        137: 'Killed by SIGKILL - increase memory limit only if the reason is OOMKilled; otherwise run debug-crashloop to attribute the restart',
         143: 'Verify graceful shutdown implementation',
         126: 'Check executable permissions (chmod +x)',
         127: 'Verify CMD/ENTRYPOINT path',
@@ -702,21 +1019,23 @@ function getTerminatedSolution(exitCode: number): string {
     return solutions[exitCode] || `Check logs for exit code ${exitCode}`;
 }
 
-function parseCPU(cpu: string): number {
+export function parseCPU(cpu: string): number {
     if (cpu.endsWith('m')) {
         return parseInt(cpu.slice(0, -1));
     }
     return parseFloat(cpu) * 1000;
 }
 
-function parseMemory(mem: string): number {
+export function parseMemory(mem: string): number {
     const units: Record<string, number> = {
         'Ki': 1024,
         'Mi': 1024 * 1024,
         'Gi': 1024 * 1024 * 1024,
+        'Ti': 1024 * 1024 * 1024 * 1024,
         'K': 1000,
         'M': 1000 * 1000,
         'G': 1000 * 1000 * 1000,
+        'T': 1000 * 1000 * 1000 * 1000,
     };
 
     for (const [unit, multiplier] of Object.entries(units)) {
@@ -732,7 +1051,7 @@ function parseMemory(mem: string): number {
  * Parse CPU from Metrics API format
  * Metrics API returns nanocores (e.g., "123456789n") or millicores (e.g., "123m")
  */
-function parseMetricCPU(cpu: string): number {
+export function parseMetricCPU(cpu: string): number {
     if (cpu.endsWith('n')) {
         // Nanocores to millicores: divide by 1,000,000
         return parseInt(cpu.slice(0, -1)) / 1_000_000;
@@ -749,7 +1068,7 @@ function parseMetricCPU(cpu: string): number {
  * Parse Memory from Metrics API format
  * Metrics API returns in Ki (e.g., "123456Ki")
  */
-function parseMetricMemory(mem: string): number {
+export function parseMetricMemory(mem: string): number {
     if (mem.endsWith('Ki')) {
         return parseInt(mem.slice(0, -2)) * 1024;
     } else if (mem.endsWith('Mi')) {
@@ -0,0 +1,399 @@
+/**
+ * Probe diagnostics module
+ *
+ * Checks liveness/readiness/startup probes against what the pod actually did:
+ * probe failure events, observed start time, port and handler mistakes
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, K8sEvent } from '../types.js';
+
+type ProbeKind = 'Liveness' | 'Readiness' | 'Startup';
+
+/** Kubernetes probe defaults */
+const PROBE_DEFAULTS = { initialDelaySeconds: 0, periodSeconds: 10, timeoutSeconds: 1, failureThreshold: 3 };
+
+/** Containers taking longer than this to become ready should use a startupProbe */
+const SLOW_START_SECONDS = 30;
+
+/**
+ * A ready transition later than this many readiness periods after start
+ * is more likely a later readiness blip than the end of startup
+ */
+const MAX_START_PERIODS = 30;
+
+/**
+ * Parsed "<Kind> probe failed: ..." event message
+ */
+export interface ProbeFailure {
+    probe: ProbeKind;
+    /** e.g. "HTTP 503", "timeout", "connection refused" */
+    cause: string;
+}
+
+/**
+ * Analyze probes of all containers of a pod
+ */
+export function analyzeProbes(pod: k8s.V1Pod, events: K8sEvent[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const resource = { kind: 'Pod', name: pod.metadata?.name || 'unknown', namespace: pod.metadata?.namespace || 'default' };
+
+    // 1. Probe failure events
+    issues.push(...detectProbeFailures(pod, events, resource));
+
+    for (const container of pod.spec?.containers || []) {
+        const status = pod.status?.containerStatuses?.find(s => s.name === container.name);
+
+        // 2. Start time vs initialDelaySeconds / missing startupProbe
+        const issue = detectSlowStart(pod, container, status, resource);
+        if (issue) issues.push(issue);
+
+        // 3. Liveness probe identical to readiness probe
+        if (container.livenessProbe && container.readinessProbe &&
+            handlerKey(container.livenessProbe) === handlerKey(container.readinessProbe)) {
+            issues.push({
+                type: 'Identical Liveness and Readiness Probe',
+                severity: 'medium',
+                message: `Container "${container.name}" uses the same check for liveness and readiness (${describeHandler(container.livenessProbe)})`,
+                rootCause: 'When the check fails because a dependency (database, downstream API) is down, the kubelet restarts every replica instead of just taking them out of the Service - restarts cannot fix a dependency and turn a partial outage into a full one',
+                solution: 'Keep readiness for "can serve traffic" (may check dependencies) and point liveness at a cheap "process is alive" endpoint:\n```yaml\nlivenessProbe:\n  httpGet:\n    path: /livez    # no dependency checks\n    port: 8080\nreadinessProbe:\n  httpGet:\n    path: /readyz\n    port: 8080\n```',
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+
+        // 4. Probe port not exposed by the container
+        issues.push(...detectProbePortIssues(container, resource));
+    }
+
+    return issues;
+}
+
+/**
+ * Parse a probe failure event message
+ *
+ * e.g. "Liveness probe failed: HTTP probe failed with statuscode: 503"
+ */
+export function parseProbeFailure(message: string): ProbeFailure | undefined {
+    const match = message.match(/^(Liveness|Readiness|Startup) probe (?:failed|errored):\s*([\s\S]*)$/);
+    if (!match) return undefined;
+
+    const detail = match[2];
+    const status = detail.match(/statuscode: (\d+)/);
+    let cause: string;
+    if (status) {
+        cause = `HTTP ${status[1]}`;
+    } else if (/deadline exceeded|Client\.Timeout|timed out|timeout/i.test(detail)) {
+        cause = 'timeout';
+    } else if (/connection refused/i.test(detail)) {
+        cause = 'connection refused';
+    } else if (/connection reset|EOF/i.test(detail)) {
+        cause = 'connection reset';
+    } else {
+        cause = detail.split('\n')[0].trim().slice(0, 120) || 'unknown';
+    }
+
+    return { probe: match[1] as ProbeKind, cause };
+}
+
+/**
+ * Container an event is about (from fieldPath, or the only container)
+ */
+export function eventContainer(pod: k8s.V1Pod, event: K8sEvent): string | undefined {
+    const match = event.fieldPath?.match(/spec\.(?:initContainers|containers)\{(.+)\}/);
+    if (match) return match[1];
+    const containers = pod.spec?.containers || [];
+    return containers.length === 1 ? containers[0].name : undefined;
+}
+
+/**
+ * Restarts the kubelet caused by failing liveness/startup probes
+ */
+function findProbeRestarts(
+    pod: k8s.V1Pod,
+    events: K8sEvent[],
+    containerName: string
+): { kills: number; failures: ProbeFailure[] } | undefined {
+    const forContainer = events.filter(e => eventContainer(pod, e) === containerName);
+    const kills = forContainer
+        .filter(e => e.reason === 'Killing' && /failed (liveness|startup) probe/i.test(e.message))
+        .reduce((sum, e) => sum + e.count, 0);
+    if (kills === 0) return undefined;
+
+    const failures = forContainer
+        .filter(e => e.reason === 'Unhealthy')
+        .map(e => parseProbeFailure(e.message))
+        .filter((f): f is ProbeFailure => !!f && f.probe !== 'Readiness');
+
+    return { kills, failures };
+}
+
+/**
+ * Group "probe failed" events per container and probe
+ */
+function detectProbeFailures(pod: k8s.V1Pod, events: K8sEvent[], resource: DiagnosticIssue['resource']): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const groups = new Map<string, { container: string; probe: ProbeKind; count: number; causes: Map<string, number>; events: K8sEvent[] }>();
+
+    for (const event of events) {
+        if (event.reason !== 'Unhealthy') continue;
+        const failure = parseProbeFailure(event.message);
+        if (!failure) continue;
+
+        const container = eventContainer(pod, event) || 'unknown';
+        const key = `${container}|${failure.probe}`;
+        if (!groups.has(key)) {
+            groups.set(key, { container, probe: failure.probe, count: 0, causes: new Map(), events: [] });
+        }
+        const group = groups.get(key)!;
+        group.count += event.count;
+        group.causes.set(failure.cause, (group.causes.get(failure.cause) || 0) + event.count);
+        group.events.push(event);
+    }
+
+    for (const { container: containerName, probe: kind, count, causes, events: related } of groups.values()) {
+        const container = pod.spec?.containers?.find(c => c.name === containerName);
+        const probe = container ? getProbe(container, kind) : undefined;
+        const topCause = [...causes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+        const kills = kind === 'Readiness' ? 0 : (findProbeRestarts(pod, events, containerName)?.kills || 0);
+
+        let rootCause = `${kind} probe: ${probe ? describeProbe(probe) : 'no longer in the pod spec'}. ${explainCause(topCause, probe)}`;
+        if (kind === 'Readiness') {
+            rootCause += '. While it fails the pod is removed from Service endpoints';
+        } else if (kills > 0) {
+            rootCause += `. The kubelet restarted the container ${kills} time(s) for this - these restarts are probe kills, not application crashes`;
+        }
+
+        issues.push({
+            type: `${kind} Probe Failing`,
+            severity: kind === 'Readiness' ? 'medium' : 'high',
+            message: `${kind} probe of container "${containerName}" failed ${count} time(s): ${[...causes.keys()].join(', ')}`,
+            rootCause,
+            solution: probeFailureSolution(topCause, kind, container, probe, resource),
+            resource,
+            relatedEvents: related.slice(0, 3),
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Liveness probe starting before the container is ready / slow starter without startupProbe
+ */
+function detectSlowStart(
+    pod: k8s.V1Pod,
+    container: k8s.V1Container,
+    status: k8s.V1ContainerStatus | undefined,
+    resource: DiagnosticIssue['resource']
+): DiagnosticIssue | undefined {
+    const liveness = container.livenessProbe;
+    // A startupProbe holds liveness back until the app is up
+    if (!liveness || container.startupProbe) return undefined;
+
+    const startSeconds = observedStartSeconds(pod, container, status);
+    if (startSeconds === undefined) return undefined;
+
+    const initialDelay = liveness.initialDelaySeconds ?? PROBE_DEFAULTS.initialDelaySeconds;
+    if (startSeconds <= initialDelay) return undefined;
+
+    // Time liveness allows before the first kill
+    const grace = initialDelay + (liveness.periodSeconds ?? PROBE_DEFAULTS.periodSeconds) * (liveness.failureThreshold ?? PROBE_DEFAULTS.failureThreshold);
+    const slow = startSeconds >= SLOW_START_SECONDS;
+    const threshold = Math.ceil(startSeconds * 1.5 / (liveness.periodSeconds ?? PROBE_DEFAULTS.periodSeconds));
+
+    return {
+        type: slow ? 'Missing startupProbe' : 'Liveness Initial Delay Too Short',
+        severity: startSeconds >= grace ? 'high' : 'medium',
+        message: `Container "${container.name}" took ~${startSeconds}s to become ready, but liveness probing starts after ${initialDelay}s` +
+            (slow ? ' and there is no startupProbe' : ''),
+        rootCause: `Liveness allows ${grace}s (initialDelaySeconds + periodSeconds × failureThreshold) before the first restart. ` +
+            (startSeconds >= grace
+                ? 'The observed start time already exceeds that - the container survived only because the liveness endpoint answered before readiness did'
+                : 'A slower start (cold cache, CPU throttling, busy node) gets the container killed before it is up, and the restart makes the next start no faster'),
+        solution: slow
+            ? `Add a startupProbe so liveness only starts once the app is up:\n\`\`\`yaml\nstartupProbe:\n  ${describeHandlerYaml(liveness)}\n  periodSeconds: ${liveness.periodSeconds ?? PROBE_DEFAULTS.periodSeconds}\n  failureThreshold: ${threshold}  # ~1.5x the observed start time\n\`\`\``
+            : `Raise initialDelaySeconds above the observed start time:\n\`\`\`yaml\nlivenessProbe:\n  initialDelaySeconds: ${Math.ceil(startSeconds * 1.5)}\n\`\`\``,
+        resource,
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * Probe ports that the container does not expose
+ */
+function detectProbePortIssues(container: k8s.V1Container, resource: DiagnosticIssue['resource']): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const ports = container.ports || [];
+
+    for (const kind of ['Liveness', 'Readiness', 'Startup'] as ProbeKind[]) {
+        const probe = getProbe(container, kind);
+        const port = probe?.httpGet?.port ?? probe?.tcpSocket?.port ?? probe?.grpc?.port;
+        if (port === undefined) continue;
+
+        const declared = ports.map(p => p.name ? `${p.containerPort} (${p.name})` : `${p.containerPort}`).join(', ');
+
+        if (typeof port === 'string' && !/^\d+$/.test(port)) {
+            // Named port must exist, otherwise the probe can never succeed
+            if (ports.some(p => p.name === port)) continue;
+            issues.push({
+                type: 'Probe Port Not Found',
+                severity: 'high',
+                message: `${kind} probe of container "${container.name}" uses named port "${port}", which the container does not define`,
+                rootCause: `Declared ports: ${declared || 'none'}. The kubelet cannot resolve the port and every probe fails`,
+                solution: `Use an existing port name or number:\n\`\`\`yaml\n${kind.toLowerCase()}Probe:\n  ${probe!.grpc ? 'grpc' : probe!.tcpSocket ? 'tcpSocket' : 'httpGet'}:\n    port: ${ports[0]?.name || ports[0]?.containerPort || 8080}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else if (ports.length > 0 && !ports.some(p => p.containerPort === Number(port))) {
+            // containerPorts are informational, so only judge when some are declared
+            issues.push({
+                type: 'Probe Port Mismatch',
+                severity: 'medium',
+                message: `${kind} probe of container "${container.name}" checks port ${port}, which is not one of its containerPorts (${declared})`,
+                rootCause: 'Usually a leftover after the app port changed - the probe hits a port nothing listens on (connection refused)',
+                solution: `Point the probe at the port the app listens on, or declare the extra port if it is a separate health port:\n\`\`\`yaml\n${kind.toLowerCase()}Probe:\n  ${probe!.grpc ? 'grpc' : probe!.tcpSocket ? 'tcpSocket' : 'httpGet'}:\n    port: ${ports[0].containerPort}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+// ===== Helper functions =====
+
+function getProbe(container: k8s.V1Container, kind: ProbeKind): k8s.V1Probe | undefined {
+    return kind === 'Liveness' ? container.livenessProbe
+        : kind === 'Readiness' ? container.readinessProbe
+        : container.startupProbe;
+}
+
+/**
+ * Seconds between container start and the container becoming ready
+ *
+ * Kubernetes keeps no per-container ready time, so the ContainersReady transition is used
+ * only when it can belong to this container's startup: no other container could have held
+ * it back, and it happened within MAX_START_PERIODS readiness periods of the start
+ */
+function observedStartSeconds(
+    pod: k8s.V1Pod,
+    container: k8s.V1Container,
+    status: k8s.V1ContainerStatus | undefined
+): number | undefined {
+    const startedAt = status?.state?.running?.startedAt;
+    const ready = pod.status?.conditions?.find(c => c.type === 'ContainersReady' && c.status === 'True');
+    if (!status?.ready || status.started === false || !startedAt || !ready?.lastTransitionTime) return undefined;
+
+    // Others must be ready as soon as they run (no readiness/startup probe) and have started first
+    const sidecars = (pod.spec?.initContainers || []).filter(c => c.restartPolicy === 'Always');
+    const statuses = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])];
+    const othersGateReadiness = [...sidecars, ...(pod.spec?.containers || [])]
+        .filter(c => c.name !== container.name)
+        .some(c => {
+            const otherStartedAt = statuses.find(s => s.name === c.name)?.state?.running?.startedAt;
+            return !!c.readinessProbe || !!c.startupProbe ||
+                !otherStartedAt || new Date(otherStartedAt).getTime() > new Date(startedAt).getTime();
+        });
+    if (othersGateReadiness) return undefined;
+
+    const readiness = container.readinessProbe;
+    const window = (readiness?.initialDelaySeconds ?? PROBE_DEFAULTS.initialDelaySeconds) +
+        (readiness?.periodSeconds ?? PROBE_DEFAULTS.periodSeconds) * MAX_START_PERIODS;
+
+    const seconds = Math.round((new Date(ready.lastTransitionTime).getTime() - new Date(startedAt).getTime()) / 1000);
+    return seconds > 0 && seconds <= window ? seconds : undefined;
+}
+
+/**
+ * Handler part of a probe, for comparing probes regardless of timings
+ */
+function handlerKey(probe: k8s.V1Probe): string {
+    const { httpGet, tcpSocket, exec, grpc } = probe;
+    return JSON.stringify({ httpGet, tcpSocket, exec, grpc });
+}
+
+/**
+ * e.g. httpGet :8080/healthz
+ */
+function describeHandler(probe: k8s.V1Probe): string {
+    if (probe.httpGet) return `httpGet :${probe.httpGet.port}${probe.httpGet.path || '/'}`;
+    if (probe.tcpSocket) return `tcpSocket :${probe.tcpSocket.port}`;
+    if (probe.grpc) return `grpc :${probe.grpc.port}`;
+    if (probe.exec) return `exec ${(probe.exec.command || []).join(' ')}`;
+    return 'no handler';
+}
+
+/**
+ * e.g. httpGet :8080/healthz (timeout 1s, every 10s, 3 failures)
+ */
+function describeProbe(probe: k8s.V1Probe): string {
+    const timeout = probe.timeoutSeconds ?? PROBE_DEFAULTS.timeoutSeconds;
+    const period = probe.periodSeconds ?? PROBE_DEFAULTS.periodSeconds;
+    const threshold = probe.failureThreshold ?? PROBE_DEFAULTS.failureThreshold;
+    return `${describeHandler(probe)} (timeout ${timeout}s, every ${period}s, ${threshold} failures)`;
+}
+
+/**
+ * Handler as a YAML line for solution snippets
+ */
+function describeHandlerYaml(probe: k8s.V1Probe): string {
+    if (probe.httpGet) return `httpGet:\n    path: ${probe.httpGet.path || '/'}\n    port: ${probe.httpGet.port}`;
+    if (probe.tcpSocket) return `tcpSocket:\n    port: ${probe.tcpSocket.port}`;
+    if (probe.grpc) return `grpc:\n    port: ${probe.grpc.port}`;
+    return `exec:\n    command: ${JSON.stringify(probe.exec?.command || [])}`;
+}
+
+function explainCause(cause: string, probe: k8s.V1Probe | undefined): string {
+    const status = cause.match(/^HTTP (\d+)$/);
+    if (status) {
+        const code = parseInt(status[1]);
+        return code >= 500
+            ? `The health endpoint answered ${cause} - the app reports itself unhealthy`
+            : code === 404 ? `The health endpoint answered ${cause} - wrong path`
+            : code === 401 || code === 403 ? `The health endpoint answered ${cause} - it requires authentication`
+            : `The health endpoint answered ${cause} (only 200-399 counts as success)`;
+    }
+    if (cause === 'timeout') {
+        return `No answer within timeoutSeconds (${probe?.timeoutSeconds ?? PROBE_DEFAULTS.timeoutSeconds}s) - app overloaded, CPU-throttled, or the handler waits on slow dependencies`;
+    }
+    if (cause === 'connection refused') {
+        return 'Nothing listening on the probe port - the app is still starting, has crashed, listens on another port, or binds to 127.0.0.1 instead of 0.0.0.0';
+    }
+    if (cause === 'connection reset') {
+        return 'The connection was dropped - the app is restarting or closed the connection before answering';
+    }
+    return `Probe output: ${cause}`;
+}
+
+function probeFailureSolution(
+    cause: string,
+    kind: ProbeKind,
+    container: k8s.V1Container | undefined,
+    probe: k8s.V1Probe | undefined,
+    resource: DiagnosticIssue['resource']
+): string {
+    const probeField = `${kind.toLowerCase()}Probe`;
+    const port = probe?.httpGet?.port ?? probe?.tcpSocket?.port ?? probe?.grpc?.port ?? '<port>';
+    const check = `\`\`\`bash\nkubectl port-forward pod/${resource?.name} ${port} -n ${resource?.namespace}\ncurl -i localhost:${port}${probe?.httpGet?.path || '/'}\n\`\`\``;
+    let solution: string;
+
+    if (cause === 'timeout') {
+        solution = `Make the health handler cheap, or give it more time:\n\`\`\`yaml\n${probeField}:\n  timeoutSeconds: 5\n  failureThreshold: 5\n\`\`\`\nIf the container is CPU-throttled, raise its CPU limit`;
+    } else if (cause === 'connection refused') {
+        solution = `Check that the app listens on port ${port} on all interfaces:\n${check}`;
+    } else if (cause.startsWith('HTTP')) {
+        solution = `Call the endpoint yourself and check the app logs around the failures:\n${check}`;
+    } else {
+        solution = 'Run the probe command manually in the container and check its output and exit code';
+    }
+
+    if (kind === 'Liveness' && container && !container.startupProbe) {
+        solution += '\n\nIf the failures happen during startup, add a startupProbe instead of raising initialDelaySeconds';
+    }
+    return solution;
+}
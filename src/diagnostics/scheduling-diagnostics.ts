@@ -0,0 +1,571 @@
+/**
+ * Scheduling diagnostics module
+ *
+ * Explains why a pod stays Pending: evaluates every node the way
+ * the scheduler does and reports "why not here" per node
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, NodeFitResult, SchedulingDiagnostics } from '../types.js';
+import { getResourceEvents, parseCPU, parseMemory } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { formatBytes, formatCPU, formatIssueCounts } from '../utils/formatters.js';
+import { matchesLabelSelector } from '../utils/selectors.js';
+import {
+    findUntoleratedTaints,
+    formatTaint,
+    matchesNodeSelector,
+    matchesRequiredNodeAffinity,
+    toleratesTaint,
+} from '../utils/scheduling.js';
+
+/** Reason category, used to find the dominant blocker across nodes */
+type FitCategory =
+    | 'NotReady'
+    | 'Cordoned'
+    | 'Taint'
+    | 'NodeSelector'
+    | 'Insufficient cpu'
+    | 'Insufficient memory'
+    | 'Too many pods'
+    | 'HostPort'
+    | 'TopologySpread'
+    | 'VolumeNodeAffinity';
+
+interface FitReason {
+    category: FitCategory;
+    detail: string;
+}
+
+/**
+ * Claims, bound PersistentVolumes and binding modes of a pod
+ */
+export interface PodVolumes {
+    claims: Map<string, k8s.V1PersistentVolumeClaim>;
+    volumes: Map<string, k8s.V1PersistentVolume>;
+    /** volumeBindingMode of the StorageClass of each unbound claim */
+    bindingModes: Map<string, string>;
+}
+
+const UNSCHEDULABLE_TAINT = 'node.kubernetes.io/unschedulable';
+const DEFAULT_CLASS_ANNOTATION = 'storageclass.kubernetes.io/is-default-class';
+
+/**
+ * Diagnose pod scheduling
+ */
+export async function diagnoseScheduling(
+    coreApi: k8s.CoreV1Api,
+    storageApi: k8s.StorageV1Api,
+    namespace: string,
+    podName: string
+): Promise<SchedulingDiagnostics> {
+    try {
+        console.error(`[diagnoseScheduling] Starting diagnostics for pod ${podName} in namespace ${namespace}`);
+
+        const pod = await withRetry(() => coreApi.readNamespacedPod({ name: podName, namespace }), { maxAttempts: 3, initialDelay: 500 });
+
+        const [nodes, allPods, events, volumes] = await Promise.all([
+            withRetry(() => coreApi.listNode(), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => coreApi.listPodForAllNamespaces(), { maxAttempts: 3, initialDelay: 500 }),
+            getResourceEvents(coreApi, namespace, podName),
+            getPodVolumes(coreApi, storageApi, pod),
+        ]);
+
+        const requests = getPodRequests(pod);
+        const nodeFits = explainScheduling(pod, nodes.items, allPods.items, volumes);
+
+        // Events are sorted newest first
+        const failedScheduling = events.filter(e => e.reason === 'FailedScheduling');
+        const schedulerReasons = failedScheduling.length > 0
+            ? parseFailedScheduling(failedScheduling[0].message)
+            : [];
+
+        const issues = detectSchedulingIssues(pod, nodeFits, nodes.items, allPods.items, volumes);
+        if (failedScheduling.length > 0 && issues.length > 0) {
+            issues[0].relatedEvents = failedScheduling.slice(0, 1);
+        }
+
+        return {
+            podInfo: {
+                name: pod.metadata?.name || podName,
+                namespace,
+                phase: pod.status?.phase || 'Unknown',
+                nodeName: pod.spec?.nodeName,
+                cpuRequest: requests.cpu,
+                memoryRequest: requests.memory,
+            },
+            schedulerReasons,
+            nodeFits,
+            issues,
+            summary: generateSchedulingSummary(pod, nodeFits, issues),
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseScheduling] Fatal error:`, error);
+        throw new Error(`Scheduling diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Evaluate every node against the pod
+ *
+ * @param allPods Pods in all namespaces (for allocated resources, host ports and topology spread)
+ * @param volumes Claims and bound PVs of the pod (optional, enables volume node affinity check)
+ */
+export function explainScheduling(
+    pod: k8s.V1Pod,
+    nodes: k8s.V1Node[],
+    allPods: k8s.V1Pod[],
+    volumes?: PodVolumes
+): NodeFitResult[] {
+    return evaluateNodes(pod, nodes, allPods, volumes).map(({ nodeName, reasons }) => ({
+        nodeName,
+        fits: reasons.length === 0,
+        reasons: reasons.map(r => r.detail),
+    }));
+}
+
+/**
+ * One-line scheduling explanation for a Pending pod
+ *
+ * Used where a full report is too much (e.g. cluster health)
+ */
+export function explainPendingPod(pod: k8s.V1Pod, nodes: k8s.V1Node[], allPods: k8s.V1Pod[]): string {
+    // Scheduled but not started: scheduling is not the problem
+    if (pod.spec?.nodeName) {
+        const waiting = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])]
+            .find(c => c.state?.waiting)?.state?.waiting;
+        return `Scheduled to ${pod.spec.nodeName} but not started${waiting ? `: ${waiting.reason}${waiting.message ? ` - ${waiting.message}` : ''}` : ' (pulling images or mounting volumes)'}`;
+    }
+
+    const evaluations = evaluateNodes(pod, nodes, allPods);
+    const fitting = evaluations.filter(e => e.reasons.length === 0).length;
+
+    if (fitting > 0) {
+        return `${fitting}/${nodes.length} node(s) fit by resources, taints and selectors - check pod (anti-)affinity, PVC binding or schedulerName`;
+    }
+
+    return `0/${nodes.length} nodes fit: ${formatCategoryCounts(evaluations)}`;
+}
+
+/**
+ * Parse FailedScheduling event message
+ *
+ * "0/5 nodes are available: 2 Insufficient cpu, 3 node(s) had untolerated taint {...}. preemption: ..."
+ */
+export function parseFailedScheduling(message: string): { reason: string; nodeCount: number }[] {
+    const match = message.match(/nodes are available:\s*(.*?)(?:\.\s*preemption:|\.?$)/s);
+    if (!match) return [];
+
+    return match[1]
+        .split(/,\s*(?=\d+\s)/)
+        .map(part => part.trim().match(/^(\d+)\s+(.*)$/))
+        .filter((m): m is RegExpMatchArray => m !== null)
+        .map(m => ({ nodeCount: parseInt(m[1]), reason: m[2].replace(/\.$/, '') }));
+}
+
+/**
+ * Effective pod requests (millicores, bytes)
+ *
+ * max(sum of containers, largest init container) + pod overhead, as the scheduler computes it
+ */
+export function getPodRequests(pod: k8s.V1Pod): { cpu: number; memory: number } {
+    const sum = (containers: k8s.V1Container[]) => containers.reduce((acc, c) => ({
+        cpu: acc.cpu + parseCPU(c.resources?.requests?.['cpu'] || '0'),
+        memory: acc.memory + parseMemory(c.resources?.requests?.['memory'] || '0'),
+    }), { cpu: 0, memory: 0 });
+
+    const containers = sum(pod.spec?.containers || []);
+    let cpu = containers.cpu;
+    let memory = containers.memory;
+
+    for (const init of pod.spec?.initContainers || []) {
+        cpu = Math.max(cpu, parseCPU(init.resources?.requests?.['cpu'] || '0'));
+        memory = Math.max(memory, parseMemory(init.resources?.requests?.['memory'] || '0'));
+    }
+
+    cpu += parseCPU(pod.spec?.overhead?.['cpu'] || '0');
+    memory += parseMemory(pod.spec?.overhead?.['memory'] || '0');
+
+    return { cpu, memory };
+}
+
+/**
+ * Detect scheduling issues
+ */
+function detectSchedulingIssues(
+    pod: k8s.V1Pod,
+    nodeFits: NodeFitResult[],
+    nodes: k8s.V1Node[],
+    allPods: k8s.V1Pod[],
+    volumes: PodVolumes
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = pod.metadata?.name || 'unknown';
+    const namespace = pod.metadata?.namespace || 'default';
+    const resource = { kind: 'Pod', name, namespace };
+
+    if (pod.spec?.nodeName) {
+        if (pod.status?.phase === 'Pending') {
+            issues.push({
+                type: 'Scheduled But Not Started',
+                severity: 'medium',
+                message: `Pod ${name} is scheduled to ${pod.spec.nodeName} but still Pending`,
+                rootCause: explainPendingPod(pod, nodes, allPods),
+                solution: `Scheduling is done - diagnose the containers:\n\`\`\`bash\nkubectl describe pod ${name} -n ${namespace}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+        return issues;
+    }
+
+    // Unbound Immediate claims block scheduling on every node
+    // (WaitForFirstConsumer claims are bound only after the pod is scheduled)
+    const unbound = [...volumes.claims.entries()]
+        .filter(([claimName, c]) => c.status?.phase !== 'Bound' && volumes.bindingModes.get(claimName) === 'Immediate')
+        .map(([, c]) => c);
+    if (unbound.length > 0) {
+        issues.push({
+            type: 'Unbound PersistentVolumeClaim',
+            severity: 'medium',
+            message: `Pod ${name} uses unbound PVC(s): ${unbound.map(c => c.metadata?.name).join(', ')}`,
+            rootCause: 'Claims with Immediate binding must be bound before the pod can be scheduled',
+            solution: `Run diagnose-storage for namespace ${namespace}, or:\n\`\`\`bash\nkubectl describe pvc ${unbound[0].metadata?.name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    const evaluations = evaluateNodes(pod, nodes, allPods, volumes);
+    const fitting = nodeFits.filter(n => n.fits);
+
+    if (fitting.length === 0) {
+        const dominant = getDominantCategory(evaluations);
+        issues.unshift({
+            type: 'Pod Unschedulable',
+            severity: 'high',
+            message: `No node can run pod ${name} (0/${nodes.length} nodes fit)`,
+            rootCause: formatCategoryCounts(evaluations),
+            solution: dominant ? getCategorySolution(dominant, pod) : 'Add nodes to the cluster',
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    } else if (pod.status?.phase === 'Pending') {
+        const schedulerName = pod.spec?.schedulerName || 'default-scheduler';
+        issues.push({
+            type: 'Fits But Not Scheduled',
+            severity: 'medium',
+            message: `${fitting.length} node(s) pass resource, taint, selector, spread and volume checks, but pod ${name} is not scheduled`,
+            rootCause: schedulerName !== 'default-scheduler'
+                ? `Pod requests scheduler "${schedulerName}" - it may not be running`
+                : 'Remaining constraints not evaluated here: inter-pod (anti-)affinity, unbound Immediate PVCs, DRA, or the scheduler has not retried yet',
+            solution: `\`\`\`bash\nkubectl get events -n ${namespace} --field-selector involvedObject.name=${name}\n\`\`\`\nCandidate nodes: ${fitting.slice(0, 5).map(n => n.nodeName).join(', ')}`,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Generate scheduling summary
+ */
+function generateSchedulingSummary(
+    pod: k8s.V1Pod,
+    nodeFits: NodeFitResult[],
+    issues: DiagnosticIssue[]
+): string {
+    let summary = pod.spec?.nodeName
+        ? `Scheduled to: ${pod.spec.nodeName}\n`
+        : `Nodes that fit: ${nodeFits.filter(n => n.fits).length}/${nodeFits.length}\n`;
+    summary += '\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+function evaluateNodes(
+    pod: k8s.V1Pod,
+    nodes: k8s.V1Node[],
+    allPods: k8s.V1Pod[],
+    volumes?: PodVolumes
+): { nodeName: string; reasons: FitReason[] }[] {
+    const requests = getPodRequests(pod);
+    const tolerations = pod.spec?.tolerations || [];
+
+    // Pods that hold node resources
+    const activePods = allPods.filter(p =>
+        p.spec?.nodeName &&
+        p.metadata?.uid !== pod.metadata?.uid &&
+        p.status?.phase !== 'Succeeded' && p.status?.phase !== 'Failed'
+    );
+    const podsByNode = new Map<string, k8s.V1Pod[]>();
+    for (const p of activePods) {
+        const list = podsByNode.get(p.spec!.nodeName!) || [];
+        list.push(p);
+        podsByNode.set(p.spec!.nodeName!, list);
+    }
+
+    const spreadCounts = getTopologySpreadCounts(pod, nodes, activePods);
+
+    return nodes.map(node => {
+        const nodeName = node.metadata?.name || 'unknown';
+        const labels = node.metadata?.labels || {};
+        const reasons: FitReason[] = [];
+
+        // 1. Node condition
+        const ready = node.status?.conditions?.find(c => c.type === 'Ready');
+        if (ready?.status !== 'True') {
+            reasons.push({ category: 'NotReady', detail: 'Node is NotReady' });
+        }
+
+        // 2. Cordoned
+        const cordonTolerated = tolerations.some(t =>
+            toleratesTaint(t, { key: UNSCHEDULABLE_TAINT, effect: 'NoSchedule' })
+        );
+        if (node.spec?.unschedulable && !cordonTolerated) {
+            reasons.push({ category: 'Cordoned', detail: 'Node is cordoned (unschedulable)' });
+        }
+
+        // 3. Taints
+        const taints = (node.spec?.taints || []).filter(t => t.key !== UNSCHEDULABLE_TAINT);
+        const untolerated = findUntoleratedTaints(taints, tolerations);
+        if (untolerated.length > 0) {
+            reasons.push({ category: 'Taint', detail: `Untolerated taint: ${untolerated.map(formatTaint).join(', ')}` });
+        }
+
+        // 4. nodeSelector / required node affinity
+        if (!matchesNodeSelector(pod.spec?.nodeSelector, labels)) {
+            const missing = Object.entries(pod.spec?.nodeSelector || {})
+                .filter(([k, v]) => labels[k] !== v)
+                .map(([k, v]) => `${k}=${v}`);
+            reasons.push({ category: 'NodeSelector', detail: `nodeSelector mismatch: ${missing.join(', ')}` });
+        } else if (!matchesRequiredNodeAffinity(pod.spec?.affinity, node)) {
+            reasons.push({ category: 'NodeSelector', detail: 'Required node affinity not satisfied' });
+        }
+
+        // 5. Resources (allocatable minus requests of pods already on the node)
+        const nodePods = podsByNode.get(nodeName) || [];
+        const allocated = nodePods.reduce((acc, p) => {
+            const r = getPodRequests(p);
+            return { cpu: acc.cpu + r.cpu, memory: acc.memory + r.memory };
+        }, { cpu: 0, memory: 0 });
+        const allocatable = node.status?.allocatable || {};
+        const freeCpu = parseCPU(allocatable['cpu'] || '0') - allocated.cpu;
+        const freeMemory = parseMemory(allocatable['memory'] || '0') - allocated.memory;
+        const maxPods = parseInt(allocatable['pods'] || '110');
+
+        if (requests.cpu > 0 && requests.cpu > freeCpu) {
+            reasons.push({ category: 'Insufficient cpu', detail: `Insufficient cpu: requests ${formatCPU(requests.cpu)}, free ${formatCPU(Math.max(0, freeCpu))}` });
+        }
+        if (requests.memory > 0 && requests.memory > freeMemory) {
+            reasons.push({ category: 'Insufficient memory', detail: `Insufficient memory: requests ${formatBytes(requests.memory)}, free ${formatBytes(Math.max(0, freeMemory))}` });
+        }
+        if (nodePods.length + 1 > maxPods) {
+            reasons.push({ category: 'Too many pods', detail: `Too many pods: ${nodePods.length}/${maxPods}` });
+        }
+
+        // 6. Host ports
+        const conflicts = findHostPortConflicts(pod, nodePods);
+        if (conflicts.length > 0) {
+            reasons.push({ category: 'HostPort', detail: `hostPort already in use: ${conflicts.join(', ')}` });
+        }
+
+        // 7. Topology spread
+        for (const spread of spreadCounts) {
+            const domain = labels[spread.constraint.topologyKey];
+            if (domain === undefined) {
+                reasons.push({ category: 'TopologySpread', detail: `Missing topology label ${spread.constraint.topologyKey}` });
+                continue;
+            }
+            const skew = (spread.counts.get(domain) || 0) + spread.selfMatch - spread.min;
+            if (skew > spread.constraint.maxSkew) {
+                reasons.push({
+                    category: 'TopologySpread',
+                    detail: `Topology spread ${spread.constraint.topologyKey}=${domain}: skew ${skew} > maxSkew ${spread.constraint.maxSkew}`,
+                });
+            }
+        }
+
+        // 8. Volume node affinity (zonal disks)
+        for (const [claimName, pv] of volumes?.volumes || []) {
+            const required = pv.spec?.nodeAffinity?.required;
+            if (required && !matchesRequiredNodeAffinity({ nodeAffinity: { requiredDuringSchedulingIgnoredDuringExecution: required } }, node)) {
+                const constraint = required.nodeSelectorTerms
+                    .flatMap(t => (t.matchExpressions || []).map(e => `${e.key} ${e.operator} ${(e.values || []).join(',')}`))
+                    .join('; ');
+                reasons.push({
+                    category: 'VolumeNodeAffinity',
+                    detail: `Volume of PVC ${claimName} is pinned to ${constraint}`,
+                });
+            }
+        }
+
+        return { nodeName, reasons };
+    });
+}
+
+/**
+ * Pod counts per topology domain for each DoNotSchedule constraint
+ */
+function getTopologySpreadCounts(pod: k8s.V1Pod, nodes: k8s.V1Node[], activePods: k8s.V1Pod[]) {
+    const namespace = pod.metadata?.namespace;
+
+    return (pod.spec?.topologySpreadConstraints || [])
+        .filter(c => c.whenUnsatisfiable === 'DoNotSchedule')
+        .map(constraint => {
+            // Domains come from nodes passing the pod's node selector/affinity (nodeAffinityPolicy: Honor)
+            const eligible = nodes.filter(n =>
+                n.metadata?.labels?.[constraint.topologyKey] !== undefined &&
+                matchesNodeSelector(pod.spec?.nodeSelector, n.metadata?.labels || {}) &&
+                matchesRequiredNodeAffinity(pod.spec?.affinity, n)
+            );
+            const nodeDomain = new Map(eligible.map(n => [n.metadata?.name, n.metadata!.labels![constraint.topologyKey]]));
+
+            const counts = new Map<string, number>();
+            for (const domain of nodeDomain.values()) counts.set(domain, 0);
+
+            for (const p of activePods) {
+                const domain = nodeDomain.get(p.spec?.nodeName);
+                if (domain === undefined || p.metadata?.namespace !== namespace) continue;
+                if (!matchesLabelSelector(constraint.labelSelector, p.metadata?.labels)) continue;
+                counts.set(domain, (counts.get(domain) || 0) + 1);
+            }
+
+            return {
+                constraint,
+                counts,
+                min: counts.size > 0 ? Math.min(...counts.values()) : 0,
+                selfMatch: matchesLabelSelector(constraint.labelSelector, pod.metadata?.labels) ? 1 : 0,
+            };
+        });
+}
+
+function findHostPortConflicts(pod: k8s.V1Pod, nodePods: k8s.V1Pod[]): string[] {
+    const hostPorts = (pod.spec?.containers || [])
+        .flatMap(c => c.ports || [])
+        .filter(p => p.hostPort)
+        .map(p => `${p.hostPort}/${p.protocol || 'TCP'}`);
+    if (hostPorts.length === 0) return [];
+
+    const used = new Set(nodePods.flatMap(p => (p.spec?.containers || [])
+        .flatMap(c => c.ports || [])
+        .filter(port => port.hostPort)
+        .map(port => `${port.hostPort}/${port.protocol || 'TCP'}`)));
+
+    return hostPorts.filter(p => used.has(p));
+}
+
+async function getPodVolumes(
+    coreApi: k8s.CoreV1Api,
+    storageApi: k8s.StorageV1Api,
+    pod: k8s.V1Pod
+): Promise<PodVolumes> {
+    const claims = new Map<string, k8s.V1PersistentVolumeClaim>();
+    const volumes = new Map<string, k8s.V1PersistentVolume>();
+    const bindingModes = new Map<string, string>();
+    const namespace = pod.metadata?.namespace || 'default';
+
+    for (const volume of pod.spec?.volumes || []) {
+        const claimName = volume.persistentVolumeClaim?.claimName;
+        if (!claimName) continue;
+
+        try {
+            const claim = await coreApi.readNamespacedPersistentVolumeClaim({ name: claimName, namespace });
+            claims.set(claimName, claim);
+            if (claim.spec?.volumeName) {
+                volumes.set(claimName, await coreApi.readPersistentVolume({ name: claim.spec.volumeName }));
+            }
+        } catch (error: any) {
+            console.error(`[getPodVolumes] Failed to read volume for PVC ${claimName} (non-fatal):`, error.message);
+        }
+    }
+
+    for (const [claimName, claim] of claims) {
+        if (claim.status?.phase === 'Bound') continue;
+
+        try {
+            const mode = await getBindingMode(storageApi, claim);
+            if (mode) bindingModes.set(claimName, mode);
+        } catch (error: any) {
+            console.error(`[getPodVolumes] Failed to read StorageClass of PVC ${claimName} (non-fatal):`, error.message);
+        }
+    }
+
+    return { claims, volumes, bindingModes };
+}
+
+/**
+ * volumeBindingMode of a claim's StorageClass (falls back to the default class)
+ *
+ * Claims without any class are bound statically, which behaves like Immediate
+ */
+async function getBindingMode(
+    storageApi: k8s.StorageV1Api,
+    claim: k8s.V1PersistentVolumeClaim
+): Promise<string | undefined> {
+    const className = claim.spec?.storageClassName;
+    if (className === '') return 'Immediate';
+
+    const storageClass = className
+        ? await withRetry(() => storageApi.readStorageClass({ name: className }), { maxAttempts: 3, initialDelay: 500 })
+        : (await withRetry(() => storageApi.listStorageClass(), { maxAttempts: 3, initialDelay: 500 })).items
+            .find(sc => sc.metadata?.annotations?.[DEFAULT_CLASS_ANNOTATION] === 'true');
+
+    if (!storageClass) return 'Immediate';
+    return storageClass.volumeBindingMode || 'Immediate';
+}
+
+function getDominantCategory(evaluations: { reasons: FitReason[] }[]): FitCategory | undefined {
+    const counts = countCategories(evaluations);
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function countCategories(evaluations: { reasons: FitReason[] }[]): Map<FitCategory, number> {
+    const counts = new Map<FitCategory, number>();
+    for (const evaluation of evaluations) {
+        for (const category of new Set(evaluation.reasons.map(r => r.category))) {
+            counts.set(category, (counts.get(category) || 0) + 1);
+        }
+    }
+    return counts;
+}
+
+function formatCategoryCounts(evaluations: { reasons: FitReason[] }[]): string {
+    const parts = [...countCategories(evaluations).entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([category, count]) => `${count} node(s) ${category}`);
+    return parts.length > 0 ? parts.join(', ') : 'no nodes in the cluster';
+}
+
+function getCategorySolution(category: FitCategory, pod: k8s.V1Pod): string {
+    const name = pod.metadata?.name || '<pod>';
+    const namespace = pod.metadata?.namespace || 'default';
+
+    switch (category) {
+        case 'Insufficient cpu':
+        case 'Insufficient memory':
+        case 'Too many pods':
+            return '1. Lower the pod\'s resource requests if they are oversized\n2. Add nodes or enable the cluster autoscaler\n3. Find pods over-requesting resources:\n```bash\nkubectl describe nodes | grep -A8 "Allocated resources"\n```';
+        case 'Taint':
+            return 'Add a toleration if the pod should run on tainted nodes:\n```yaml\ntolerations:\n- key: "<taint-key>"\n  operator: "Exists"\n  effect: "NoSchedule"\n```';
+        case 'NodeSelector':
+            return `Fix the selector/affinity or label a node:\n\`\`\`bash\nkubectl get pod ${name} -n ${namespace} -o jsonpath='{.spec.nodeSelector}{.spec.affinity.nodeAffinity}'\nkubectl label node <node> <key>=<value>\n\`\`\``;
+        case 'TopologySpread':
+            return 'Relax the constraint (higher maxSkew or whenUnsatisfiable: ScheduleAnyway), or add nodes in the under-populated domains:\n```yaml\ntopologySpreadConstraints:\n- maxSkew: 1\n  topologyKey: topology.kubernetes.io/zone\n  whenUnsatisfiable: ScheduleAnyway\n```';
+        case 'VolumeNodeAffinity':
+            return 'The bound volume lives in a single zone. Add capacity in that zone, or use WaitForFirstConsumer StorageClasses so new volumes follow the pod';
+        case 'Cordoned':
+            return '```bash\nkubectl uncordon <node>\n```';
+        case 'HostPort':
+            return 'Each node can run only one pod per hostPort - remove hostPort and expose via a Service, or add nodes';
+        case 'NotReady':
+            return 'Fix NotReady nodes:\n```bash\nkubectl get nodes\nkubectl describe node <node>\n```';
+    }
+}
@@ -0,0 +1,320 @@
+/**
+ * Service connectivity diagnostics module
+ *
+ * Explains "Service has no endpoints": selector, readiness,
+ * targetPort and LoadBalancer provisioning problems
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type {
+    DiagnosticIssue,
+    NetworkDiagnostics,
+    ServiceConnectivity,
+} from '../types.js';
+import { getResourceEvents, isPodReady } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { matchesLabelSelector } from '../utils/selectors.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+/**
+ * Diagnose service connectivity
+ *
+ * Checks a single service, or every service in the namespace when no name is given
+ */
+export async function diagnoseService(
+    coreApi: k8s.CoreV1Api,
+    discoveryApi: k8s.DiscoveryV1Api,
+    namespace: string,
+    serviceName?: string
+): Promise<NetworkDiagnostics> {
+    try {
+        console.error(`[diagnoseService] Starting diagnostics for ${serviceName ? `service ${serviceName}` : 'all services'} in namespace ${namespace}`);
+
+        const [services, podsResponse] = await Promise.all([
+            serviceName
+                ? withRetry(() => coreApi.readNamespacedService({ name: serviceName, namespace }), { maxAttempts: 3, initialDelay: 500 })
+                    .then(svc => [svc])
+                    .catch((error) => {
+                        throw new Error(`Cannot read service ${serviceName}: ${error.message}`);
+                    })
+                : withRetry(() => coreApi.listNamespacedService({ namespace }), { maxAttempts: 3, initialDelay: 500 })
+                    .then(r => r.items),
+            withRetry(() => coreApi.listNamespacedPod({ namespace }), { maxAttempts: 2, initialDelay: 500 }),
+        ]);
+
+        const serviceConnectivity: ServiceConnectivity[] = [];
+        const serviceIssues: DiagnosticIssue[] = [];
+
+        for (const service of services) {
+            const readyEndpoints = await countReadyEndpoints(coreApi, discoveryApi, service);
+            const issues = await detectServiceIssues(coreApi, service, podsResponse.items, readyEndpoints);
+
+            serviceConnectivity.push({
+                serviceName: service.metadata?.name || 'unknown',
+                namespace,
+                isReachable: service.spec?.type === 'ExternalName' || readyEndpoints > 0,
+                endpointCount: readyEndpoints,
+                issues: issues.map(i => i.message),
+            });
+            serviceIssues.push(...issues);
+        }
+
+        return {
+            serviceConnectivity,
+            serviceIssues,
+            dnsIssues: [],
+            networkPolicyIssues: [],
+            ingressIssues: [],
+            summary: generateServiceSummary(serviceConnectivity, serviceIssues),
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseService] Fatal error:`, error);
+        throw new Error(`Service diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Count ready endpoint addresses of a service
+ *
+ * Uses EndpointSlices, falls back to the legacy Endpoints object
+ */
+export async function countReadyEndpoints(
+    coreApi: k8s.CoreV1Api,
+    discoveryApi: k8s.DiscoveryV1Api,
+    service: k8s.V1Service
+): Promise<number> {
+    const name = service.metadata?.name || '';
+    const namespace = service.metadata?.namespace || 'default';
+
+    try {
+        const slices = await withRetry(() => discoveryApi.listNamespacedEndpointSlice({
+            namespace,
+            labelSelector: `kubernetes.io/service-name=${name}`,
+        }), { maxAttempts: 2, initialDelay: 500 });
+
+        // Same address can appear in multiple slices (dual-stack)
+        const ready = new Set<string>();
+        for (const slice of slices.items) {
+            for (const endpoint of slice.endpoints || []) {
+                // Unset ready condition means ready
+                if (endpoint.conditions?.ready === false) continue;
+                ready.add(endpoint.targetRef?.uid || endpoint.addresses.join(','));
+            }
+        }
+        return ready.size;
+    } catch (error: any) {
+        console.error(`[countReadyEndpoints] EndpointSlice query failed, falling back to Endpoints:`, error.message);
+    }
+
+    try {
+        const endpoints = await coreApi.readNamespacedEndpoints({ name, namespace });
+        return (endpoints.subsets || []).reduce((sum, s) => sum + (s.addresses?.length || 0), 0);
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Detect service issues
+ */
+async function detectServiceIssues(
+    coreApi: k8s.CoreV1Api,
+    service: k8s.V1Service,
+    pods: k8s.V1Pod[],
+    readyEndpoints: number
+): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+    const name = service.metadata?.name || 'unknown';
+    const namespace = service.metadata?.namespace || 'default';
+    const resource = { kind: 'Service', name, namespace };
+    const selector = service.spec?.selector;
+    const type = service.spec?.type || 'ClusterIP';
+
+    if (type === 'ExternalName') {
+        return issues;
+    }
+
+    // Reasons explaining empty endpoints, most specific first
+    const causes: string[] = [];
+
+    if (selector && Object.keys(selector).length > 0) {
+        const selectorText = Object.entries(selector).map(([k, v]) => `${k}=${v}`).join(',');
+        const matched = pods.filter(p =>
+            matchesLabelSelector({ matchLabels: selector }, p.metadata?.labels) &&
+            p.status?.phase !== 'Succeeded' && p.status?.phase !== 'Failed'
+        );
+
+        // 1. Selector matches zero pods
+        if (matched.length === 0) {
+            const nearMisses = findNearMissPods(selector, pods);
+            causes.push(`Selector "${selectorText}" matches no pods`);
+            issues.push({
+                type: 'Selector Matches No Pods',
+                severity: 'high',
+                message: `Service "${name}" selector "${selectorText}" matches no running pods`,
+                rootCause: nearMisses.length > 0
+                    ? `Pods with similar labels exist but do not match every key: ${nearMisses.slice(0, 3).join('; ')}`
+                    : 'No pod in the namespace carries these labels (typo, wrong namespace, or workload scaled to 0)',
+                solution: `Compare service selector with pod labels:\n\`\`\`bash\nkubectl get svc ${name} -n ${namespace} -o jsonpath='{.spec.selector}'\nkubectl get pods -n ${namespace} --show-labels\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else {
+            // 2. Matched pods are not Ready
+            const notReady = matched.filter(p => !isPodReady(p));
+            if (notReady.length > 0) {
+                const allNotReady = notReady.length === matched.length;
+                if (allNotReady) {
+                    causes.push(`All ${matched.length} matching pod(s) are not Ready`);
+                }
+                issues.push({
+                    type: allNotReady ? 'No Ready Pods Behind Service' : 'Unready Pods Behind Service',
+                    severity: allNotReady ? 'high' : 'medium',
+                    message: `${notReady.length}/${matched.length} pod(s) selected by "${name}" are not Ready: ${notReady.slice(0, 5).map(p => p.metadata?.name).join(', ')}`,
+                    rootCause: 'Pods that fail their readiness probe are removed from endpoints',
+                    solution: `Diagnose the unready pods:\n\`\`\`bash\nkubectl describe pod ${notReady[0].metadata?.name} -n ${namespace}\n\`\`\``,
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+            }
+
+            // 3. targetPort does not match any containerPort
+            issues.push(...detectTargetPortIssues(service, matched, causes));
+        }
+    }
+
+    // 4. Empty endpoints
+    if (readyEndpoints === 0) {
+        issues.push({
+            type: 'Service Has No Endpoints',
+            severity: 'critical',
+            message: `Service "${name}" has no ready endpoints - connections will be refused or time out`,
+            rootCause: causes.length > 0
+                ? causes.join('; ')
+                : selector
+                    ? 'Endpoints are empty although pods match - check EndpointSlice controller'
+                    : 'Service has no selector and no manually managed Endpoints/EndpointSlices',
+            solution: `\`\`\`bash\nkubectl get endpointslices -n ${namespace} -l kubernetes.io/service-name=${name}\nkubectl describe svc ${name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    // 5. LoadBalancer still pending
+    if (type === 'LoadBalancer' && !(service.status?.loadBalancer?.ingress?.length)) {
+        const events = await getResourceEvents(coreApi, namespace, name);
+        const lbEvent = events.find(e => e.type === 'Warning' && /LoadBalancer/i.test(e.reason));
+
+        issues.push({
+            type: 'LoadBalancer Pending',
+            severity: 'high',
+            message: `LoadBalancer for "${name}" has no external IP/hostname yet`,
+            rootCause: lbEvent
+                ? `${lbEvent.reason}: ${lbEvent.message}`
+                : 'No cloud controller / load balancer implementation is provisioning it (common on bare metal, kind, minikube)',
+            solution: '1. Check cloud-controller-manager or install MetalLB on bare metal\n2. Check cloud quota for load balancers\n```bash\nkubectl describe svc ' + name + ' -n ' + namespace + '\n```',
+            resource,
+            relatedEvents: lbEvent ? [lbEvent] : undefined,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect targetPort not matching any containerPort
+ *
+ * Named targetPorts must match a container port name, otherwise the port is dropped from endpoints
+ */
+function detectTargetPortIssues(
+    service: k8s.V1Service,
+    pods: k8s.V1Pod[],
+    causes: string[]
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = service.metadata?.name || 'unknown';
+    const namespace = service.metadata?.namespace || 'default';
+    const resource = { kind: 'Service', name, namespace };
+
+    const containerPorts = pods.flatMap(p => (p.spec?.containers || []).flatMap(c => c.ports || []));
+
+    for (const port of service.spec?.ports || []) {
+        const targetPort = port.targetPort ?? port.port;
+        const portLabel = port.name ? `${port.name} (${port.port})` : `${port.port}`;
+        const declared = containerPorts.map(p => p.name ? `${p.name}:${p.containerPort}` : `${p.containerPort}`);
+
+        if (typeof targetPort === 'string' && isNaN(Number(targetPort))) {
+            if (!containerPorts.some(p => p.name === targetPort)) {
+                causes.push(`Named targetPort "${targetPort}" is not defined by any pod`);
+                issues.push({
+                    type: 'Named targetPort Not Found',
+                    severity: 'high',
+                    message: `Service port ${portLabel} targets port name "${targetPort}", which no selected container defines`,
+                    rootCause: `Declared container ports: ${declared.join(', ') || 'none'}`,
+                    solution: `Name the container port "${targetPort}" or use the numeric port:\n\`\`\`yaml\nports:\n- name: ${targetPort}\n  containerPort: 8080\n\`\`\``,
+                    resource,
+                    timestamp: new Date().toISOString(),
+                });
+            }
+            continue;
+        }
+
+        // containerPort is informational - only flag when pods declare ports at all
+        const numeric = Number(targetPort);
+        if (containerPorts.length > 0 && !containerPorts.some(p => p.containerPort === numeric)) {
+            issues.push({
+                type: 'targetPort Mismatch',
+                severity: 'medium',
+                message: `Service port ${portLabel} targets ${numeric}, but selected containers declare ${declared.join(', ')}`,
+                rootCause: 'Traffic is sent to a port the application probably does not listen on (connection refused)',
+                solution: `Set targetPort to the port the container listens on:\n\`\`\`yaml\nports:\n- port: ${port.port}\n  targetPort: ${containerPorts[0].containerPort}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Generate service summary
+ */
+function generateServiceSummary(
+    connectivity: ServiceConnectivity[],
+    issues: DiagnosticIssue[]
+): string {
+    const reachable = connectivity.filter(c => c.isReachable).length;
+
+    let summary = `Services: ${reachable}/${connectivity.length} reachable\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Find pods matching some but not all selector labels (likely typos)
+ */
+function findNearMissPods(selector: Record<string, string>, pods: k8s.V1Pod[]): string[] {
+    const entries = Object.entries(selector);
+
+    return pods
+        .filter(p => {
+            const labels = p.metadata?.labels || {};
+            const matching = entries.filter(([k, v]) => labels[k] === v).length;
+            return matching > 0 && matching < entries.length;
+        })
+        .map(p => {
+            const labels = p.metadata?.labels || {};
+            const diff = entries
+                .filter(([k, v]) => labels[k] !== v)
+                .map(([k, v]) => `${k}: wants "${v}", pod has "${labels[k] ?? '<none>'}"`);
+            return `${p.metadata?.name} (${diff.join(', ')})`;
+        });
+}
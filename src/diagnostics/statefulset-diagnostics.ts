@@ -0,0 +1,362 @@
+/**
+ * StatefulSet diagnostics module
+ *
+ * Ordinal-aware analysis: StatefulSet pods are created one by one,
+ * so a single stuck ordinal explains why the rest never appear
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type {
+    StatefulSetDiagnostics,
+    DiagnosticIssue,
+    OrdinalStatus,
+    K8sEvent,
+} from '../types.js';
+import { getResourceEvents, isPodReady } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { labelSelectorToString } from '../utils/selectors.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+const REVISION_LABEL = 'controller-revision-hash';
+
+/**
+ * Diagnose StatefulSet
+ *
+ * Detects stuck ordinals, partition/revision mismatches and Pending PVCs per ordinal
+ */
+export async function diagnoseStatefulSet(
+    appsApi: k8s.AppsV1Api,
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    statefulSetName: string
+): Promise<StatefulSetDiagnostics> {
+    try {
+        console.error(`[diagnoseStatefulSet] Starting diagnostics for statefulset ${statefulSetName} in namespace ${namespace}`);
+
+        const sts = await withRetry(
+            () => appsApi.readNamespacedStatefulSet({ name: statefulSetName, namespace }),
+            { maxAttempts: 3, initialDelay: 500 }
+        ).catch((error) => {
+            throw new Error(`Cannot read statefulset ${statefulSetName}: ${error.message}`);
+        });
+
+        const [podsResponse, pvcResponse, stsEvents] = await Promise.all([
+            withRetry(() => coreApi.listNamespacedPod({
+                namespace,
+                labelSelector: labelSelectorToString(sts.spec?.selector),
+            }), { maxAttempts: 2, initialDelay: 500 }),
+            withRetry(() => coreApi.listNamespacedPersistentVolumeClaim({ namespace }), { maxAttempts: 2, initialDelay: 500 }),
+            getResourceEvents(coreApi, namespace, statefulSetName),
+        ]);
+
+        const replicas = sts.spec?.replicas ?? 1;
+        // spec.ordinals.start shifts the ordinal range (Kubernetes 1.27+)
+        const firstOrdinal = sts.spec?.ordinals?.start ?? 0;
+        const podManagementPolicy = sts.spec?.podManagementPolicy || 'OrderedReady';
+        const updateStrategy = sts.spec?.updateStrategy?.type || 'RollingUpdate';
+        const partition = sts.spec?.updateStrategy?.rollingUpdate?.partition;
+        const templates = (sts.spec?.volumeClaimTemplates || []).map(t => t.metadata?.name || '');
+
+        const podsByName = new Map(
+            podsResponse.items
+                .filter(p => p.metadata?.ownerReferences?.some(o => o.uid === sts.metadata?.uid))
+                .map(p => [p.metadata?.name || '', p])
+        );
+        const pvcsByName = new Map(pvcResponse.items.map(pvc => [pvc.metadata?.name || '', pvc]));
+
+        // Build per-ordinal view
+        const ordinals: OrdinalStatus[] = [];
+        for (let ordinal = firstOrdinal; ordinal < firstOrdinal + replicas; ordinal++) {
+            const podName = `${statefulSetName}-${ordinal}`;
+            const pod = podsByName.get(podName);
+
+            ordinals.push({
+                ordinal,
+                podName,
+                exists: !!pod,
+                phase: pod?.status?.phase,
+                ready: pod ? isPodReady(pod) : false,
+                revision: pod?.metadata?.labels?.[REVISION_LABEL],
+                pvcs: templates.map(template => {
+                    const pvcName = `${template}-${statefulSetName}-${ordinal}`;
+                    return {
+                        name: pvcName,
+                        phase: pvcsByName.get(pvcName)?.status?.phase || 'Missing',
+                    };
+                }),
+            });
+        }
+
+        const issues: DiagnosticIssue[] = [];
+        const resource = { kind: 'StatefulSet', name: statefulSetName, namespace };
+
+        // 1. Pending PVCs for specific ordinals
+        issues.push(...await detectPendingClaims(coreApi, namespace, ordinals, resource));
+
+        // 2. Stuck ordinal blocking OrderedReady
+        const podsByOrdinal = new Map(ordinals.map(o => [o.ordinal, podsByName.get(o.podName)]));
+        issues.push(...detectStuckOrdinals(sts, ordinals, podsByOrdinal, stsEvents, resource));
+
+        // 3. Partition / updateRevision mismatch
+        issues.push(...detectRevisionIssues(sts, ordinals, resource));
+
+        const summary = generateStatefulSetSummary(sts, ordinals, issues);
+
+        return {
+            statefulSetInfo: {
+                name: sts.metadata?.name || statefulSetName,
+                namespace: sts.metadata?.namespace || namespace,
+                replicas,
+                readyReplicas: sts.status?.readyReplicas ?? 0,
+                updatedReplicas: sts.status?.updatedReplicas ?? 0,
+                currentRevision: sts.status?.currentRevision,
+                updateRevision: sts.status?.updateRevision,
+                podManagementPolicy,
+                updateStrategy,
+                partition,
+            },
+            ordinals,
+            issues,
+            summary,
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseStatefulSet] Fatal error:`, error);
+        throw new Error(`StatefulSet diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Detect PVCs from volumeClaimTemplates that are Pending for an ordinal
+ */
+async function detectPendingClaims(
+    coreApi: k8s.CoreV1Api,
+    namespace: string,
+    ordinals: OrdinalStatus[],
+    resource: DiagnosticIssue['resource']
+): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+
+    for (const ordinal of ordinals) {
+        for (const pvc of ordinal.pvcs) {
+            if (pvc.phase !== 'Pending') continue;
+
+            const events = await getResourceEvents(coreApi, namespace, pvc.name);
+            const warning = events.find(e => e.type === 'Warning') || events[0];
+
+            let rootCause = 'PersistentVolumeClaim is not bound to a volume';
+            if (warning?.reason === 'WaitForFirstConsumer') {
+                rootCause = 'StorageClass uses WaitForFirstConsumer - volume is provisioned only after the pod is scheduled';
+            } else if (warning) {
+                rootCause = `${warning.reason}: ${warning.message}`;
+            }
+
+            issues.push({
+                type: 'PVC Pending',
+                severity: 'high',
+                message: `PVC "${pvc.name}" for ordinal ${ordinal.ordinal} is Pending`,
+                rootCause,
+                solution: `1. Verify the StorageClass exists and has a working provisioner\n2. Check available PVs and zone constraints\n\`\`\`bash\nkubectl describe pvc ${pvc.name} -n ${namespace}\nkubectl get storageclass\n\`\`\``,
+                resource,
+                relatedEvents: warning ? [warning] : undefined,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect stuck ordinals
+ *
+ * With OrderedReady, pod-N+1 is only created after pod-N is Running and Ready.
+ * The lowest unready ordinal is the one blocking everything above it
+ */
+function detectStuckOrdinals(
+    sts: k8s.V1StatefulSet,
+    ordinals: OrdinalStatus[],
+    podsByOrdinal: Map<number, k8s.V1Pod | undefined>,
+    stsEvents: K8sEvent[],
+    resource: DiagnosticIssue['resource']
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const namespace = sts.metadata?.namespace;
+    const unready = ordinals.filter(o => !o.ready);
+
+    if (unready.length === 0) {
+        return issues;
+    }
+
+    if ((sts.spec?.podManagementPolicy || 'OrderedReady') === 'OrderedReady') {
+        const blocker = unready[0];
+        const blocked = ordinals.filter(o => o.ordinal > blocker.ordinal && !o.exists);
+        const rootCause = explainOrdinal(blocker, podsByOrdinal.get(blocker.ordinal), stsEvents);
+
+        issues.push({
+            type: 'Ordinal Blocking OrderedReady Rollout',
+            severity: 'critical',
+            message: blocked.length > 0
+                ? `Pod "${blocker.podName}" is not Ready, so ${blocked.map(o => o.podName).join(', ')} cannot be created`
+                : `Pod "${blocker.podName}" is not Ready, rolling updates stop at this ordinal`,
+            rootCause,
+            solution: blocker.exists
+                ? `Fix ${blocker.podName} first (use diagnose-pod):\n\`\`\`bash\nkubectl describe pod ${blocker.podName} -n ${namespace}\nkubectl logs ${blocker.podName} -n ${namespace} --previous\n\`\`\`\nIf ordinals do not depend on each other, consider podManagementPolicy: Parallel`
+                : `Check why the pod cannot be created:\n\`\`\`bash\nkubectl describe statefulset ${sts.metadata?.name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    } else {
+        issues.push({
+            type: 'StatefulSet Pods Not Ready',
+            severity: 'high',
+            message: `${unready.length}/${ordinals.length} ordinal(s) not ready: ${unready.map(o => o.podName).join(', ')}`,
+            rootCause: explainOrdinal(unready[0], podsByOrdinal.get(unready[0].ordinal), stsEvents),
+            solution: `Diagnose each unready pod:\n\`\`\`bash\nkubectl describe pod ${unready[0].podName} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect partition / updateRevision mismatches
+ */
+function detectRevisionIssues(
+    sts: k8s.V1StatefulSet,
+    ordinals: OrdinalStatus[],
+    resource: DiagnosticIssue['resource']
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = sts.metadata?.name;
+    const namespace = sts.metadata?.namespace;
+    const updateRevision = sts.status?.updateRevision;
+    const currentRevision = sts.status?.currentRevision;
+    const replicas = sts.spec?.replicas ?? 1;
+
+    if (!updateRevision || updateRevision === currentRevision) {
+        return issues;
+    }
+
+    const outdated = ordinals.filter(o => o.exists && o.revision && o.revision !== updateRevision);
+    if (outdated.length === 0) {
+        return issues;
+    }
+
+    if (sts.spec?.updateStrategy?.type === 'OnDelete') {
+        issues.push({
+            type: 'OnDelete Update Pending',
+            severity: 'medium',
+            message: `${outdated.length} pod(s) still run revision ${currentRevision}: ${outdated.map(o => o.podName).join(', ')}`,
+            rootCause: 'updateStrategy is OnDelete - pods are only updated when deleted manually',
+            solution: `Delete pods one by one (highest ordinal first):\n\`\`\`bash\nkubectl delete pod ${outdated[outdated.length - 1].podName} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    const partition = sts.spec?.updateStrategy?.rollingUpdate?.partition ?? 0;
+
+    if (partition >= replicas) {
+        issues.push({
+            type: 'Partition Blocks All Updates',
+            severity: 'medium',
+            message: `partition=${partition} is >= replicas=${replicas}, updateRevision ${updateRevision} is never rolled out`,
+            rootCause: 'Only ordinals >= partition are updated. A partition this high is usually a staged rollout that was never lowered',
+            solution: `\`\`\`bash\nkubectl patch statefulset ${name} -n ${namespace} -p '{"spec":{"updateStrategy":{"rollingUpdate":{"partition":0}}}}'\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    // Ordinals at or above the partition should already run updateRevision
+    const notUpdated = outdated.filter(o => o.ordinal >= partition);
+    if (notUpdated.length > 0) {
+        issues.push({
+            type: 'Update Revision Not Applied',
+            severity: 'high',
+            message: `${notUpdated.length} pod(s) at or above partition ${partition} still run ${currentRevision}: ${notUpdated.map(o => o.podName).join(', ')}`,
+            rootCause: 'Rolling update proceeds from the highest ordinal down and waits for each pod to become Ready. An unready pod halts the update',
+            solution: `Check rollout status and unready pods:\n\`\`\`bash\nkubectl rollout status statefulset/${name} -n ${namespace}\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    if (partition > 0) {
+        const held = outdated.filter(o => o.ordinal < partition);
+        if (held.length > 0) {
+            issues.push({
+                type: 'Partitioned Rollout',
+                severity: 'info',
+                message: `${held.length} pod(s) below partition ${partition} intentionally stay on ${currentRevision}`,
+                rootCause: 'Staged rollout with partition - lower ordinals are not updated until the partition is lowered',
+                solution: 'Lower spec.updateStrategy.rollingUpdate.partition once the canary ordinals are verified',
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Explain why an ordinal is not ready
+ */
+function explainOrdinal(
+    ordinal: OrdinalStatus,
+    pod: k8s.V1Pod | undefined,
+    stsEvents: K8sEvent[]
+): string {
+    const pendingPvc = ordinal.pvcs.find(p => p.phase === 'Pending');
+    if (pendingPvc) {
+        return `PVC "${pendingPvc.name}" is Pending, so the pod cannot start`;
+    }
+
+    if (!pod) {
+        const failedCreate = stsEvents.find(e => e.reason === 'FailedCreate');
+        return failedCreate
+            ? `Pod cannot be created: ${failedCreate.message}`
+            : 'Pod does not exist (waiting for a lower ordinal or controller)';
+    }
+
+    for (const status of pod.status?.containerStatuses || []) {
+        if (status.state?.waiting?.reason) {
+            return `Container "${status.name}" is ${status.state.waiting.reason}${status.state.waiting.message ? `: ${status.state.waiting.message}` : ''}`;
+        }
+    }
+
+    if (pod.status?.phase === 'Pending') {
+        const scheduled = pod.status?.conditions?.find(c => c.type === 'PodScheduled');
+        if (scheduled?.status === 'False') {
+            return `Pod cannot be scheduled: ${scheduled.message || scheduled.reason || 'unknown reason'}`;
+        }
+        return 'Pod is Pending';
+    }
+
+    return `Pod is ${pod.status?.phase || 'Unknown'} but not Ready (check readiness probe)`;
+}
+
+/**
+ * Generate StatefulSet summary
+ */
+function generateStatefulSetSummary(
+    sts: k8s.V1StatefulSet,
+    ordinals: OrdinalStatus[],
+    issues: DiagnosticIssue[]
+): string {
+    const ready = ordinals.filter(o => o.ready).length;
+
+    let summary = `StatefulSet "${sts.metadata?.name}": ${ready}/${ordinals.length} ordinals ready.\n`;
+    summary += `Revision: ${sts.status?.currentRevision || 'N/A'} -> ${sts.status?.updateRevision || 'N/A'}\n\n`;
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
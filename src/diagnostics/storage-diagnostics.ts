@@ -0,0 +1,553 @@
+/**
+ * Storage diagnostics module
+ *
+ * Explains why PersistentVolumeClaims stay Pending,
+ * finds capacity / accessMode mismatches and stuck volume attachments
+ *
+ * @author zerry
+ */
+
+import * as k8s from '@kubernetes/client-node';
+import type { DiagnosticIssue, K8sEvent, PVCStatus, StorageDiagnostics } from '../types.js';
+import { getResourceEvents, isPodReady, parseMemory } from './pod-diagnostics.js';
+import { withRetry } from '../utils/retry.js';
+import { formatIssueCounts } from '../utils/formatters.js';
+
+const DEFAULT_CLASS_ANNOTATION = 'storageclass.kubernetes.io/is-default-class';
+
+/**
+ * Diagnose storage in a namespace
+ */
+export async function diagnoseStorage(
+    coreApi: k8s.CoreV1Api,
+    storageApi: k8s.StorageV1Api,
+    namespace: string
+): Promise<StorageDiagnostics> {
+    try {
+        console.error(`[diagnoseStorage] Starting storage diagnostics for namespace ${namespace}`);
+
+        const [pvcs, pods] = await Promise.all([
+            withRetry(() => coreApi.listNamespacedPersistentVolumeClaim({ namespace }), { maxAttempts: 3, initialDelay: 500 }),
+            withRetry(() => coreApi.listNamespacedPod({ namespace }), { maxAttempts: 3, initialDelay: 500 }),
+        ]);
+
+        // StorageClasses are cluster-scoped and may be forbidden
+        const storageClasses = await withRetry(() => storageApi.listStorageClass(), { maxAttempts: 2, initialDelay: 500 })
+            .then(r => r.items)
+            .catch((error) => {
+                console.error(`[diagnoseStorage] Failed to list StorageClasses (non-fatal):`, error.message);
+                return undefined;
+            });
+
+        const pvcStatus: PVCStatus[] = [];
+        const mountIssues: DiagnosticIssue[] = [];
+        const capacityIssues: DiagnosticIssue[] = [];
+
+        for (const pvc of pvcs.items) {
+            const name = pvc.metadata?.name || 'unknown';
+            const consumers = pods.items.filter(p =>
+                p.spec?.volumes?.some(v => v.persistentVolumeClaim?.claimName === name)
+            );
+
+            const pvcMountIssues: DiagnosticIssue[] = [];
+            if (pvc.status?.phase !== 'Bound') {
+                const events = await getResourceEvents(coreApi, namespace, name);
+                pvcMountIssues.push(...detectPendingIssues(pvc, storageClasses, consumers, events));
+            }
+            pvcMountIssues.push(...detectAccessModeIssues(pvc, consumers));
+            const pvcCapacityIssues = detectCapacityIssues(pvc);
+
+            mountIssues.push(...pvcMountIssues);
+            capacityIssues.push(...pvcCapacityIssues);
+
+            pvcStatus.push({
+                name,
+                namespace,
+                phase: pvc.status?.phase || 'Unknown',
+                requestedCapacity: pvc.spec?.resources?.requests?.['storage'] || '-',
+                actualCapacity: pvc.status?.capacity?.['storage'],
+                storageClass: getStorageClassName(pvc, storageClasses),
+                issues: [...pvcMountIssues, ...pvcCapacityIssues].map(i => i.message),
+            });
+        }
+
+        // Attach failures are reported on pods, not claims
+        mountIssues.push(...await detectAttachmentIssues(coreApi, storageApi, pvcs.items, pods.items));
+
+        return {
+            pvcStatus,
+            mountIssues,
+            capacityIssues,
+            summary: generateStorageSummary(pvcStatus, [...mountIssues, ...capacityIssues]),
+        };
+    } catch (error: any) {
+        console.error(`[diagnoseStorage] Fatal error:`, error);
+        throw new Error(`Storage diagnosis failed: ${error.message}`);
+    }
+}
+
+/**
+ * Explain a Pending (or Lost) claim
+ */
+function detectPendingIssues(
+    pvc: k8s.V1PersistentVolumeClaim,
+    storageClasses: k8s.V1StorageClass[] | undefined,
+    consumers: k8s.V1Pod[],
+    events: K8sEvent[]
+): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = pvc.metadata?.name || 'unknown';
+    const namespace = pvc.metadata?.namespace || 'default';
+    const resource = { kind: 'PersistentVolumeClaim', name, namespace };
+    const className = pvc.spec?.storageClassName;
+
+    // 1. Lost: bound PV was deleted
+    if (pvc.status?.phase === 'Lost') {
+        issues.push({
+            type: 'PVC Lost',
+            severity: 'critical',
+            message: `PVC ${name} is Lost - its PersistentVolume ${pvc.spec?.volumeName || ''} no longer exists`,
+            rootCause: 'The bound PV was deleted; data may be gone',
+            solution: `\`\`\`bash\nkubectl get pv ${pvc.spec?.volumeName || ''}\n\`\`\`\nRestore the PV from backup or recreate the claim`,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    const provisioningFailed = events.filter(e => e.type === 'Warning' && e.reason === 'ProvisioningFailed');
+    const waitingExternal = events.filter(e => e.reason === 'ExternalProvisioning');
+
+    // 2. Provisioner errors win - they are the most specific
+    if (provisioningFailed.length > 0) {
+        const latest = provisioningFailed[0];
+        issues.push({
+            type: 'Provisioning Failed',
+            severity: 'critical',
+            message: `Dynamic provisioning failed for PVC ${name}`,
+            rootCause: latest.message,
+            solution: `1. Check provisioner (CSI controller) logs\n2. Check cloud quota / permissions and StorageClass parameters\n\`\`\`bash\nkubectl describe pvc ${name} -n ${namespace}\nkubectl get storageclass ${className || ''} -o yaml\n\`\`\``,
+            resource,
+            relatedEvents: provisioningFailed.slice(0, 3),
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    // 3. Static binding (storageClassName: "")
+    if (className === '' || pvc.spec?.volumeName) {
+        issues.push({
+            type: 'No Matching PersistentVolume',
+            severity: 'high',
+            message: pvc.spec?.volumeName
+                ? `PVC ${name} waits for PersistentVolume ${pvc.spec.volumeName}`
+                : `PVC ${name} disables dynamic provisioning and no PersistentVolume matches it`,
+            rootCause: 'A static PV must exist with matching storageClassName, capacity, accessModes and selector, and be Available',
+            solution: `\`\`\`bash\nkubectl get pv\n\`\`\`\nCreate a matching PV or set storageClassName to a provisioning class`,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    if (!storageClasses) return issues;
+
+    // 4. StorageClass missing / no default
+    const effectiveClass = getStorageClassName(pvc, storageClasses);
+    const storageClass = storageClasses.find(sc => sc.metadata?.name === effectiveClass);
+
+    if (!className && !effectiveClass) {
+        issues.push({
+            type: 'No Default StorageClass',
+            severity: 'high',
+            message: `PVC ${name} has no storageClassName and the cluster has no default StorageClass`,
+            rootCause: `Nothing will provision this claim. Available classes: ${storageClasses.map(sc => sc.metadata?.name).join(', ') || 'none'}`,
+            solution: `Set a class on the claim, or mark one as default:\n\`\`\`bash\nkubectl patch storageclass <name> -p '{"metadata":{"annotations":{"${DEFAULT_CLASS_ANNOTATION}":"true"}}}'\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    if (!storageClass) {
+        issues.push({
+            type: 'StorageClass Not Found',
+            severity: 'critical',
+            message: `PVC ${name} requests StorageClass "${effectiveClass}", which does not exist`,
+            rootCause: `Available classes: ${storageClasses.map(sc => sc.metadata?.name).join(', ') || 'none'}`,
+            solution: `storageClassName is immutable - recreate the claim with an existing class:\n\`\`\`bash\nkubectl get storageclass\n\`\`\``,
+            resource,
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    // 5. WaitForFirstConsumer
+    if (storageClass.volumeBindingMode === 'WaitForFirstConsumer') {
+        const scheduled = consumers.filter(p => p.spec?.nodeName);
+        if (consumers.length === 0) {
+            issues.push({
+                type: 'Waiting For First Consumer',
+                severity: 'info',
+                message: `PVC ${name} waits for a pod to use it (StorageClass ${effectiveClass} is WaitForFirstConsumer)`,
+                rootCause: 'Expected behavior: the volume is provisioned once a pod using the claim is scheduled',
+                solution: 'No action needed unless a pod is supposed to use this claim',
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        } else if (scheduled.length === 0) {
+            issues.push({
+                type: 'Consumer Pod Not Scheduled',
+                severity: 'high',
+                message: `PVC ${name} waits for its consumer ${consumers[0].metadata?.name} to be scheduled`,
+                rootCause: 'With WaitForFirstConsumer the claim is only provisioned after scheduling - the real problem is why the pod is Pending (resources, affinity, or topology of allowed zones)',
+                solution: `\`\`\`bash\nkubectl describe pod ${consumers[0].metadata?.name} -n ${namespace}\n\`\`\``,
+                resource,
+                timestamp: new Date().toISOString(),
+            });
+        }
+        if (consumers.length === 0 || scheduled.length === 0) {
+            return issues;
+        }
+    }
+
+    // 6. External provisioner not answering
+    if (waitingExternal.length > 0) {
+        issues.push({
+            type: 'Waiting For External Provisioner',
+            severity: 'high',
+            message: `PVC ${name} waits for provisioner "${storageClass.provisioner}"`,
+            rootCause: 'The CSI controller for this provisioner is not running or not processing claims',
+            solution: `\`\`\`bash\nkubectl get pods -A | grep -i csi\nkubectl get csidrivers\n\`\`\``,
+            resource,
+            relatedEvents: waitingExternal.slice(0, 1),
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect accessMode incompatible with the consuming workload
+ */
+function detectAccessModeIssues(pvc: k8s.V1PersistentVolumeClaim, consumers: k8s.V1Pod[]): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = pvc.metadata?.name || 'unknown';
+    const namespace = pvc.metadata?.namespace || 'default';
+    const accessModes = pvc.status?.accessModes || pvc.spec?.accessModes || [];
+    const active = consumers.filter(p => p.status?.phase !== 'Succeeded' && p.status?.phase !== 'Failed');
+
+    if (accessModes.includes('ReadWriteOncePod') && active.length > 1) {
+        issues.push({
+            type: 'ReadWriteOncePod Shared',
+            severity: 'high',
+            message: `PVC ${name} is ReadWriteOncePod but used by ${active.length} pods: ${active.map(p => p.metadata?.name).join(', ')}`,
+            rootCause: 'Only one pod can use the volume; the others stay Pending/ContainerCreating',
+            solution: 'Give each replica its own claim (StatefulSet volumeClaimTemplates) or use ReadWriteMany storage',
+            resource: { kind: 'PersistentVolumeClaim', name, namespace },
+            timestamp: new Date().toISOString(),
+        });
+        return issues;
+    }
+
+    if (accessModes.includes('ReadWriteOnce') && !accessModes.includes('ReadWriteMany')) {
+        // Pods on the same node may share a ReadWriteOnce volume (e.g. during a rolling update)
+        const nodes = new Set(active.map(p => p.spec?.nodeName).filter(Boolean));
+        const unscheduled = active.filter(p => !p.spec?.nodeName);
+
+        if (nodes.size > 1 || (active.length > 1 && unscheduled.length > 0)) {
+            const placement = [
+                nodes.size > 1 ? `on ${nodes.size} nodes` : '',
+                unscheduled.length > 0 ? `${unscheduled.length} not yet scheduled` : '',
+            ].filter(Boolean).join(', ');
+            issues.push({
+                type: 'ReadWriteOnce Shared Across Nodes',
+                severity: 'high',
+                message: `PVC ${name} is ReadWriteOnce but used by ${active.length} pods (${placement})`,
+                rootCause: 'A ReadWriteOnce volume attaches to one node only; replicas on other nodes fail with Multi-Attach errors',
+                solution: 'Options:\n1. Use a StatefulSet with volumeClaimTemplates (one claim per replica)\n2. Use ReadWriteMany storage (NFS, CephFS, EFS, Azure Files)\n3. Use strategy.type: Recreate for single-replica Deployments',
+                resource: { kind: 'PersistentVolumeClaim', name, namespace },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect requested vs actual capacity differences
+ */
+function detectCapacityIssues(pvc: k8s.V1PersistentVolumeClaim): DiagnosticIssue[] {
+    const issues: DiagnosticIssue[] = [];
+    const name = pvc.metadata?.name || 'unknown';
+    const namespace = pvc.metadata?.namespace || 'default';
+    const requested = pvc.spec?.resources?.requests?.['storage'];
+    const actual = pvc.status?.capacity?.['storage'];
+
+    if (!requested || !actual || pvc.status?.phase !== 'Bound') {
+        return issues;
+    }
+
+    const requestedBytes = parseMemory(requested);
+    const actualBytes = parseMemory(actual);
+    if (requestedBytes === actualBytes) return issues;
+
+    const resizing = pvc.status?.conditions?.find(c =>
+        (c.type === 'Resizing' || c.type === 'FileSystemResizePending') && c.status === 'True'
+    );
+
+    if (actualBytes < requestedBytes) {
+        issues.push({
+            type: resizing?.type === 'FileSystemResizePending' ? 'Filesystem Resize Pending' : 'Volume Expansion Incomplete',
+            severity: resizing ? 'medium' : 'high',
+            message: `PVC ${name} requests ${requested} but has ${actual}`,
+            rootCause: resizing?.type === 'FileSystemResizePending'
+                ? 'Volume was expanded; the filesystem is grown when a pod mounts it (restart the pod)'
+                : resizing
+                    ? 'Expansion is in progress'
+                    : 'Expansion was requested but not applied - StorageClass may not allow expansion or the resizer failed',
+            solution: `\`\`\`bash\nkubectl describe pvc ${name} -n ${namespace}\nkubectl get storageclass ${pvc.spec?.storageClassName || ''} -o jsonpath='{.allowVolumeExpansion}'\n\`\`\``,
+            resource: { kind: 'PersistentVolumeClaim', name, namespace },
+            timestamp: new Date().toISOString(),
+        });
+    } else {
+        issues.push({
+            type: 'Capacity Larger Than Requested',
+            severity: 'low',
+            message: `PVC ${name} requests ${requested} but got ${actual}`,
+            rootCause: 'The provisioner rounds up to its allocation unit, or a larger static PV was bound',
+            solution: 'Usually harmless; for static PVs, create PVs sized to the claims to avoid wasted capacity',
+            resource: { kind: 'PersistentVolumeClaim', name, namespace },
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Detect VolumeAttachment / Multi-Attach issues
+ *
+ * Finds which node (and pod) still holds a ReadWriteOnce volume,
+ * and whether the CSI driver is healthy on the node that needs it
+ */
+async function detectAttachmentIssues(
+    coreApi: k8s.CoreV1Api,
+    storageApi: k8s.StorageV1Api,
+    pvcs: k8s.V1PersistentVolumeClaim[],
+    pods: k8s.V1Pod[]
+): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+
+    // VolumeAttachments are cluster-scoped and may be forbidden
+    let attachments: k8s.V1VolumeAttachment[];
+    try {
+        attachments = (await withRetry(() => storageApi.listVolumeAttachment(), { maxAttempts: 2, initialDelay: 500 })).items;
+    } catch (error: any) {
+        console.error(`[detectAttachmentIssues] Failed to list VolumeAttachments (non-fatal):`, error.message);
+        return issues;
+    }
+
+    const claimToVolume = new Map(
+        pvcs.filter(pvc => pvc.spec?.volumeName).map(pvc => [pvc.metadata?.name || '', pvc.spec!.volumeName!])
+    );
+    const claimsByName = new Map(pvcs.map(pvc => [pvc.metadata?.name || '', pvc]));
+    const checkedNodes = new Set<string>();
+
+    // Only scheduled pods stuck before Running can be waiting on an attach
+    const waitingPods = pods.filter(p =>
+        p.spec?.nodeName &&
+        p.status?.phase === 'Pending' &&
+        p.spec.volumes?.some(v => v.persistentVolumeClaim && claimToVolume.has(v.persistentVolumeClaim.claimName))
+    );
+
+    for (const pod of waitingPods) {
+        const podName = pod.metadata?.name || 'unknown';
+        const namespace = pod.metadata?.namespace || 'default';
+        const nodeName = pod.spec!.nodeName!;
+
+        const events = await getResourceEvents(coreApi, namespace, podName);
+        const attachEvents = events.filter(e =>
+            e.reason === 'FailedAttachVolume' || e.message.includes('Multi-Attach error')
+        );
+
+        for (const volume of pod.spec?.volumes || []) {
+            const claimName = volume.persistentVolumeClaim?.claimName;
+            const pvName = claimName ? claimToVolume.get(claimName) : undefined;
+            if (!claimName || !pvName) continue;
+
+            const pvAttachments = attachments.filter(va => va.spec.source.persistentVolumeName === pvName);
+            const elsewhere = pvAttachments.filter(va => va.spec.nodeName !== nodeName && va.status?.attached);
+            const local = pvAttachments.find(va => va.spec.nodeName === nodeName);
+            const relatedEvents = attachEvents.filter(e => e.message.includes(pvName) || e.message.includes(claimName));
+
+            // 1. Multi-Attach: volume still attached to another node.
+            // ReadWriteMany/ReadOnlyMany volumes are attached to several nodes legitimately
+            const claim = claimsByName.get(claimName);
+            const accessModes = claim?.status?.accessModes || claim?.spec?.accessModes || [];
+            const singleNode = accessModes.includes('ReadWriteOnce') || accessModes.includes('ReadWriteOncePod');
+            if (singleNode && elsewhere.length > 0 && relatedEvents.length > 0) {
+                const holderNode = elsewhere[0].spec.nodeName;
+                const holders = pods.filter(p =>
+                    p.spec?.nodeName === holderNode &&
+                    p.metadata?.uid !== pod.metadata?.uid &&
+                    p.spec?.volumes?.some(v => v.persistentVolumeClaim?.claimName === claimName)
+                );
+                const holderNodeStatus = await getNodeReadyStatus(coreApi, holderNode);
+
+                const rootCause = holders.length > 0
+                    ? `Volume ${pvName} is still attached to node ${holderNode} and used by ${holders.map(h => `${h.metadata?.name} (${h.metadata?.deletionTimestamp ? 'Terminating' : h.status?.phase})`).join(', ')}`
+                    : `Volume ${pvName} is still attached to node ${holderNode} (${holderNodeStatus}) but no pod there uses it - the detach is stuck`;
+
+                let solution: string;
+                if (holders.length > 0) {
+                    solution = `Remove the old pod so the volume can detach:\n\`\`\`bash\nkubectl delete pod ${holders[0].metadata?.name} -n ${namespace}\n# if stuck Terminating on an unreachable node:\nkubectl delete pod ${holders[0].metadata?.name} -n ${namespace} --grace-period=0 --force\n\`\`\`\nFor Deployments using RWO volumes, use strategy.type: Recreate to avoid old and new pods overlapping`;
+                } else {
+                    solution = `1. Check node ${holderNode}:\n\`\`\`bash\nkubectl describe node ${holderNode}\n\`\`\`\n2. If the node is gone, remove the stale attachment (the attach-detach controller waits ~6 min on NotReady nodes):\n\`\`\`bash\nkubectl delete volumeattachment ${elsewhere[0].metadata?.name}\n\`\`\``;
+                }
+
+                issues.push({
+                    type: 'Multi-Attach Error',
+                    severity: 'critical',
+                    message: `Pod ${podName} on node ${nodeName} cannot attach volume of PVC ${claimName}: still attached to node ${holderNode}`,
+                    rootCause,
+                    solution,
+                    resource: { kind: 'Pod', name: podName, namespace },
+                    relatedEvents: relatedEvents.slice(0, 2),
+                    timestamp: new Date().toISOString(),
+                });
+                continue;
+            }
+
+            // 2. Attacher reported an error
+            if (local?.status?.attachError) {
+                issues.push({
+                    type: 'Volume Attach Error',
+                    severity: 'high',
+                    message: `Attaching volume of PVC ${claimName} to node ${nodeName} failed`,
+                    rootCause: local.status.attachError.message || 'Attacher reported an error',
+                    solution: `\`\`\`bash\nkubectl describe volumeattachment ${local.metadata?.name}\n\`\`\`\nCheck the CSI controller (external-attacher) logs and cloud limits (max volumes per node)`,
+                    resource: { kind: 'Pod', name: podName, namespace },
+                    relatedEvents: relatedEvents.slice(0, 2),
+                    timestamp: new Date().toISOString(),
+                });
+            }
+
+            // 3. CSI driver on the target node
+            const driver = local?.spec.attacher || elsewhere[0]?.spec.attacher;
+            if ((attachEvents.length > 0 || (local && !local.status?.attached)) && !checkedNodes.has(nodeName)) {
+                checkedNodes.add(nodeName);
+                issues.push(...await detectCSINodeIssues(coreApi, storageApi, nodeName, driver, podName, namespace));
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Detect unhealthy CSI node plugin on a node
+ */
+async function detectCSINodeIssues(
+    coreApi: k8s.CoreV1Api,
+    storageApi: k8s.StorageV1Api,
+    nodeName: string,
+    driver: string | undefined,
+    podName: string,
+    namespace: string
+): Promise<DiagnosticIssue[]> {
+    const issues: DiagnosticIssue[] = [];
+
+    // 1. Driver registration
+    if (driver) {
+        try {
+            const csiNode = await storageApi.readCSINode({ name: nodeName });
+            if (!csiNode.spec.drivers.some(d => d.name === driver)) {
+                issues.push({
+                    type: 'CSI Driver Not Registered',
+                    severity: 'high',
+                    message: `CSI driver ${driver} is not registered on node ${nodeName}`,
+                    rootCause: 'The CSI node plugin (DaemonSet) is not running on this node, so volumes cannot be attached or mounted there',
+                    solution: `\`\`\`bash\nkubectl get csinode ${nodeName} -o yaml\nkubectl get pods -A -o wide --field-selector spec.nodeName=${nodeName} | grep -i csi\n\`\`\`\nCheck the CSI DaemonSet tolerations/nodeSelector`,
+                    resource: { kind: 'Pod', name: podName, namespace },
+                    timestamp: new Date().toISOString(),
+                });
+            }
+        } catch (error: any) {
+            console.error(`[detectCSINodeIssues] Failed to read CSINode ${nodeName} (non-fatal):`, error.message);
+        }
+    }
+
+    // 2. CSI node plugin pods on the node
+    try {
+        const nodePods = await withRetry(() => coreApi.listPodForAllNamespaces({
+            fieldSelector: `spec.nodeName=${nodeName}`,
+        }), { maxAttempts: 2, initialDelay: 500 });
+
+        const unhealthy = nodePods.items.filter(p =>
+            p.spec?.containers.some(c => c.name.includes('csi') || c.image?.includes('csi-node-driver-registrar')) &&
+            !isPodReady(p)
+        );
+
+        if (unhealthy.length > 0) {
+            issues.push({
+                type: 'CSI Node Plugin Unhealthy',
+                severity: 'high',
+                message: `CSI pod(s) not ready on node ${nodeName}: ${unhealthy.map(p => `${p.metadata?.namespace}/${p.metadata?.name}`).join(', ')}`,
+                rootCause: 'Volumes on this node cannot be attached/mounted until the CSI node plugin is healthy',
+                solution: `\`\`\`bash\nkubectl describe pod ${unhealthy[0].metadata?.name} -n ${unhealthy[0].metadata?.namespace}\nkubectl logs ${unhealthy[0].metadata?.name} -n ${unhealthy[0].metadata?.namespace} --all-containers\n\`\`\``,
+                resource: { kind: 'Pod', name: podName, namespace },
+                timestamp: new Date().toISOString(),
+            });
+        }
+    } catch (error: any) {
+        console.error(`[detectCSINodeIssues] Failed to list pods on node ${nodeName} (non-fatal):`, error.message);
+    }
+
+    return issues;
+}
+
+/**
+ * Generate storage summary
+ */
+function generateStorageSummary(pvcStatus: PVCStatus[], issues: DiagnosticIssue[]): string {
+    const bound = pvcStatus.filter(p => p.phase === 'Bound').length;
+    const pending = pvcStatus.filter(p => p.phase === 'Pending').length;
+
+    let summary = `PVCs: ${bound}/${pvcStatus.length} Bound`;
+    if (pending > 0) summary += `, ${pending} Pending`;
+    summary += '\n\n';
+
+    summary += formatIssueCounts(issues);
+
+    return summary;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Effective StorageClass name (falls back to the default class)
+ */
+function getStorageClassName(
+    pvc: k8s.V1PersistentVolumeClaim,
+    storageClasses: k8s.V1StorageClass[] | undefined
+): string | undefined {
+    const className = pvc.spec?.storageClassName;
+    if (className !== undefined) return className || undefined;
+
+    return storageClasses?.find(sc =>
+        sc.metadata?.annotations?.[DEFAULT_CLASS_ANNOTATION] === 'true'
+    )?.metadata?.name;
+}
+
+async function getNodeReadyStatus(coreApi: k8s.CoreV1Api, nodeName: string): Promise<string> {
+    try {
+        const node = await coreApi.readNode({ name: nodeName });
+        const ready = node.status?.conditions?.find(c => c.type === 'Ready');
+        return ready?.status === 'True' ? 'Ready' : 'NotReady';
+    } catch {
+        return 'node not found';
+    }
+}
@@ -16,9 +16,27 @@ import * as k8s from '@kubernetes/client-node';
 import { loadK8sConfig, createK8sClients } from './utils/k8s-client.js';
 import { diagnosePod, diagnoseCrashLoop } from './diagnostics/pod-diagnostics.js';
 import { analyzeLogs } from './analyzers/log-analyzer.js';
+import { analyzeReachability } from './analyzers/network-policy-analyzer.js';
+import { scanDeprecatedApis } from './analyzers/deprecated-api-analyzer.js';
 import { diagnoseClusterHealth } from './diagnostics/cluster-health.js';
-import { formatIssues, formatBytes, formatCPU, getHealthEmoji, createTable } from './utils/formatters.js';
+import { diagnoseDeployment } from './diagnostics/deployment-diagnostics.js';
+import { diagnoseStatefulSet } from './diagnostics/statefulset-diagnostics.js';
+import { diagnoseDaemonSet } from './diagnostics/daemonset-diagnostics.js';
+import { diagnoseJob, diagnoseCronJob } from './diagnostics/job-diagnostics.js';
+import { diagnoseHPA } from './diagnostics/hpa-diagnostics.js';
+import { diagnoseService } from './diagnostics/service-diagnostics.js';
+import { diagnoseIngress } from './diagnostics/ingress-diagnostics.js';
+import { diagnoseDNS } from './diagnostics/dns-diagnostics.js';
+import { diagnoseStorage } from './diagnostics/storage-diagnostics.js';
+import { diagnoseScheduling } from './diagnostics/scheduling-diagnostics.js';
+import { diagnoseNode } from './diagnostics/node-diagnostics.js';
+import { scanCertificates } from './diagnostics/certificate-diagnostics.js';
+import { rankNamespaces } from './diagnostics/namespace-diagnostics.js';
+import { auditPlacement } from './diagnostics/placement-diagnostics.js';
+import { formatIssues, formatBytes, formatCPU, getHealthEmoji, getSeverityEmoji, createTable, formatScoreBreakdown, progressBar, timeAgo } from './utils/formatters.js';
 import { MemoryCache, getOrCompute } from './utils/cache.js';
+import { describeTarget, diffSnapshots, findSnapshot, parseSince, saveSnapshot, snapshotFromClusterHealth, snapshotFromPodDiagnostics } from './utils/history.js';
+import type { HealthSnapshot, JobDiagnostics } from './types.js';
 
 // ============================================
 // MCP Server Initialization
@@ -53,6 +71,27 @@ function getK8sClients(): ReturnType<typeof createK8sClients> {
     return k8sClients;
 }
 
+/**
+ * Get the loaded kubeconfig (for raw API server requests)
+ */
+function getK8sConfig(): k8s.KubeConfig {
+    getK8sClients();
+    return k8sConfig!;
+}
+
+/**
+ * Store a health snapshot for compare-health
+ *
+ * A full disk or read-only home must not fail the diagnosis itself
+ */
+async function recordSnapshot(snapshot: HealthSnapshot): Promise<void> {
+    try {
+        await saveSnapshot(snapshot);
+    } catch (error: any) {
+        console.error('Failed to save health snapshot (non-fatal):', error.message);
+    }
+}
+
 /**
  * Comprehensive pod diagnostics
  *
@@ -76,8 +115,10 @@ server.registerTool(
                 getK8sClients().core,
                 namespace,
                 podName,
-                getK8sClients().metrics
+                getK8sClients().metrics,
+                detailed ? getK8sClients().log : undefined
             );
+            await recordSnapshot(snapshotFromPodDiagnostics(getK8sConfig().getCurrentContext(), diagnostics));
 
             let result = `# 🏥 Pod Diagnosis Report\n\n`;
             result += `**Pod**: ${diagnostics.podInfo.name}\n`;
@@ -89,6 +130,11 @@ server.registerTool(
             // Summary
             result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
 
+            // Score breakdown
+            result += `## 🧮 Health Score Breakdown\n\n`;
+            result += formatScoreBreakdown(diagnostics.healthScore, diagnostics.scoreBreakdown);
+            result += '\n';
+
             // Container Status
             result += `## 🐳 Container Status\n\n`;
             const containerRows = diagnostics.containers.map(c => [
@@ -102,6 +148,32 @@ server.registerTool(
             result += createTable(['Name', 'Ready', 'Restarts', 'State'], containerRows);
             result += '\n\n';
 
+            // Init containers (run in order before the containers above)
+            if (diagnostics.initContainers.length > 0) {
+                result += `## 🧱 Init Containers\n\n`;
+                const initRows = diagnostics.initContainers.map(c => [
+                    c.order.toString(),
+                    c.name,
+                    c.completed ? '✅' : c.blocking ? '⏳ blocking' : '⏸️',
+                    c.restartCount.toString(),
+                    c.state.running ? (c.sidecar ? 'Running (sidecar)' : 'Running') :
+                    c.state.waiting ? `Waiting: ${c.state.waiting.reason}` :
+                    c.state.terminated ? `Terminated: ${c.state.terminated.reason} (exit ${c.state.terminated.exitCode})` : 'Not started',
+                    c.lastState?.terminated ? `${c.lastState.terminated.exitCode} (${c.lastState.terminated.reason})` : '-',
+                ]);
+                result += createTable(['#', 'Name', 'Done', 'Restarts', 'State', 'Last Exit'], initRows);
+                result += '\n\n';
+
+                const blocking = diagnostics.initContainers.find(c => c.blocking);
+                if (blocking) {
+                    result += `**Blocking**: init container ${blocking.order}/${diagnostics.initContainers.length} "${blocking.name}" - the app containers start only after it completes\n\n`;
+                    if (blocking.logs && blocking.logs.length > 0) {
+                        result += `**${blocking.lastState?.terminated ? 'Previous run logs' : 'Logs'}** (last ${blocking.logs.length} lines):\n`;
+                        result += '```\n' + blocking.logs.join('\n') + '\n```\n\n';
+                    }
+                }
+            }
+
             // Resource usage
             result += `## 💾 Resources\n\n`;
             result += `**CPU**:\n`;
@@ -291,6 +363,39 @@ server.registerTool(
                 }
             }
 
+            // DNS failures in logs: look for the cluster-side cause
+            if (analysis.patterns.some(p => p.name === 'DNS Resolution Failed')) {
+                try {
+                    const dns = await diagnoseDNS(
+                        getK8sClients().apps,
+                        getK8sClients().core,
+                        getK8sClients().discovery,
+                        namespace,
+                        podName,
+                        analysis.errorLines.map(l => l.content)
+                    );
+                    result += `## 🧭 Cluster DNS Findings\n\n`;
+                    result += formatIssues(dns.dnsIssues);
+                    result += '\n\n';
+                } catch (error: any) {
+                    console.error('[analyze-logs] DNS correlation failed (non-fatal):', error.message);
+                }
+            }
+
+            // TLS errors in logs: point at the certificate in the namespace
+            if (analysis.patterns.some(p => p.name === 'SSL/TLS Error')) {
+                try {
+                    const certs = await scanCertificates(getK8sClients().core, getK8sClients().networking, namespace);
+                    result += `## 🔐 Certificate Findings (namespace ${namespace})\n\n`;
+                    result += certs.issues.length > 0
+                        ? formatIssues(certs.issues)
+                        : `No problems in the ${certs.certificates.length} TLS secret(s) of this namespace - the failing certificate is likely external (upstream server or CA bundle)\n`;
+                    result += '\n\n';
+                } catch (error: any) {
+                    console.error('[analyze-logs] Certificate correlation failed (non-fatal):', error.message);
+                }
+            }
+
             // Repeated errors
             if (analysis.repeatedErrors.length > 0) {
                 result += `## 🔁 Repeated Errors\n\n`;
@@ -506,18 +611,45 @@ server.registerTool(
     'full-diagnosis',
     {
         title: 'Cluster-wide Health Diagnosis',
-        description: 'Comprehensively analyzes cluster nodes, pods, and resources to evaluate health',
+        description: 'Comprehensively analyzes control-plane health (API server readyz/livez, static pods, leader leases), cluster nodes, pods, and resource utilization (requested and used % of allocatable) to evaluate health',
         inputSchema: {
             namespace: z.string().optional().describe('Specific namespace only (optional, all if empty)'),
         },
     },
     async ({ namespace }) => {
         try {
-            const health = await diagnoseClusterHealth(getK8sClients().core, namespace);
+            const health = await diagnoseClusterHealth(
+                getK8sClients().core,
+                namespace,
+                getK8sClients().metrics,
+                getK8sConfig(),
+                getK8sClients().coordination
+            );
+            await recordSnapshot(snapshotFromClusterHealth(getK8sConfig().getCurrentContext(), health, namespace));
 
             let result = `# 🏥 Cluster Health Diagnosis\n\n`;
             result += `${health.summary}\n\n`;
 
+            // Control plane
+            if (health.controlPlane) {
+                const { readyz, livez, selfHosted, components } = health.controlPlane;
+                const endpointStatus = (check: typeof readyz) =>
+                    check.status === 'ok' ? '✅ ok'
+                        : check.status === 'failed' ? `❌ ${check.failedChecks.join(', ')}`
+                        : `❓ ${check.error}`;
+
+                result += `## 🧠 Control Plane (${selfHosted ? 'self-hosted' : 'managed / static pods not visible'})\n\n`;
+                result += `- **/readyz**: ${endpointStatus(readyz)}\n`;
+                result += `- **/livez**: ${endpointStatus(livez)}\n\n`;
+                if (components.length > 0) {
+                    result += createTable(
+                        ['Component', 'Source', 'Status', 'Detail'],
+                        components.map(c => [c.name, c.source, c.healthy ? '✅' : '❌', c.detail])
+                    );
+                    result += '\n\n';
+                }
+            }
+
             // Node Health
             result += `## 🖥️ Node Status\n\n`;
             result += `- Total: ${health.nodeHealth.total}\n`;
@@ -542,6 +674,27 @@ server.registerTool(
             }
             result += '\n';
 
+            // Resource utilization
+            const { requested, used } = health.resourceUtilization;
+            result += `## 📈 Resource Utilization (Ready nodes)\n\n`;
+            result += createTable(
+                ['Resource', 'Requested', 'Used'],
+                [
+                    ['CPU', progressBar(requested.cpu), used ? progressBar(used.cpu) : 'N/A'],
+                    ['Memory', progressBar(requested.memory), used ? progressBar(used.memory) : 'N/A'],
+                    ['Ephemeral Storage', progressBar(health.resourceUtilization.storage), 'N/A'],
+                ]
+            );
+            if (!used) {
+                result += '\n\n_Usage requires Metrics Server_';
+            }
+            result += '\n\n';
+
+            // Score breakdown
+            result += `## 🧮 Health Score Breakdown\n\n`;
+            result += formatScoreBreakdown(health.overallScore, health.scoreBreakdown);
+            result += '\n';
+
             // Critical issues
             if (health.criticalIssues.length > 0) {
                 result += `## 🔴 Critical Issues\n\n`;
@@ -644,6 +797,1200 @@ server.registerTool(
     }
 );
 
+/**
+ * Deployment rollout diagnostics
+ *
+ * Explains why a rollout hangs: ProgressDeadlineExceeded, maxUnavailable blocking,
+ * or a new ReplicaSet whose pods keep failing
+ */
+server.registerTool(
+    'diagnose-deployment',
+    {
+        title: 'Deployment Rollout Diagnostics',
+        description: 'Analyzes a Deployment, its ReplicaSets and pods to explain why a rollout is stuck, with diagnostics of failing new-revision pods',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            deploymentName: z.string().describe('Deployment name'),
+        },
+    },
+    async ({ namespace, deploymentName }) => {
+        try {
+            const diagnostics = await diagnoseDeployment(
+                getK8sClients().apps,
+                getK8sClients().core,
+                namespace,
+                deploymentName,
+                getK8sClients().metrics
+            );
+            const info = diagnostics.deploymentInfo;
+
+            const statusIcon = diagnostics.rolloutStatus === 'Complete' ? '✅' :
+                               diagnostics.rolloutStatus === 'Stuck' ? '🔴' :
+                               diagnostics.rolloutStatus === 'Paused' ? '⏸️' : '⏳';
+
+            let result = `# 🚀 Deployment Diagnosis Report\n\n`;
+            result += `**Deployment**: ${info.name}\n`;
+            result += `**Namespace**: ${info.namespace}\n`;
+            result += `**Rollout**: ${statusIcon} ${diagnostics.rolloutStatus}\n`;
+            result += `**Strategy**: ${info.strategy}\n`;
+            result += `**Revision**: ${info.revision ?? 'N/A'}\n\n`;
+
+            // Summary
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            // ReplicaSets
+            if (diagnostics.replicaSets.length > 0) {
+                result += `## 📦 ReplicaSets\n\n`;
+                const rows = diagnostics.replicaSets.map(rs => [
+                    rs.isCurrent ? '🆕' : '',
+                    rs.name,
+                    rs.revision.toString(),
+                    `${rs.ready}/${rs.desired}`,
+                    rs.available.toString(),
+                    rs.images.join(', '),
+                ]);
+                result += createTable(['', 'Name', 'Revision', 'Ready', 'Available', 'Images'], rows);
+                result += '\n\n';
+            }
+
+            // Issues
+            result += formatIssues(diagnostics.issues);
+
+            // Failing pods from the new revision
+            if (diagnostics.failingPods.length > 0) {
+                result += `## 🐳 Failing Pods (new revision)\n\n`;
+                for (const pod of diagnostics.failingPods) {
+                    result += `### ${pod.podInfo.name} - ${getHealthEmoji(pod.healthScore)} ${pod.healthScore}/100\n\n`;
+                    result += `**Status**: ${pod.podInfo.phase}\n\n`;
+                    for (const issue of pod.issues) {
+                        result += `- ${getSeverityEmoji(issue.severity)} **${issue.type}**: ${issue.rootCause}\n`;
+                    }
+                    result += `\n💡 Full report: \`diagnose-pod\` with podName "${pod.podInfo.name}"\n\n`;
+                }
+            }
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Deployment diagnosis failed: ${error.message}\n\nVerify deployment exists:\n\`\`\`bash\nkubectl get deployment ${deploymentName} -n ${namespace}\n\`\`\``,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * StatefulSet diagnostics
+ *
+ * Ordinal-aware - explains why pod-2 never appears
+ */
+server.registerTool(
+    'diagnose-statefulset',
+    {
+        title: 'StatefulSet Diagnostics',
+        description: 'Analyzes a StatefulSet per ordinal: stuck OrderedReady rollouts, partition/updateRevision mismatches, and Pending PVCs from volumeClaimTemplates',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            statefulSetName: z.string().describe('StatefulSet name'),
+        },
+    },
+    async ({ namespace, statefulSetName }) => {
+        try {
+            const diagnostics = await diagnoseStatefulSet(
+                getK8sClients().apps,
+                getK8sClients().core,
+                namespace,
+                statefulSetName
+            );
+            const info = diagnostics.statefulSetInfo;
+
+            let result = `# 🗄️ StatefulSet Diagnosis Report\n\n`;
+            result += `**StatefulSet**: ${info.name}\n`;
+            result += `**Namespace**: ${info.namespace}\n`;
+            result += `**Pod Management**: ${info.podManagementPolicy}\n`;
+            result += `**Update Strategy**: ${info.updateStrategy}`;
+            if (info.partition !== undefined) {
+                result += ` (partition: ${info.partition})`;
+            }
+            result += '\n\n';
+
+            // Summary
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            // Ordinals
+            result += `## 🔢 Ordinals\n\n`;
+            const rows = diagnostics.ordinals.map(o => [
+                o.ordinal.toString(),
+                o.podName,
+                o.exists ? (o.phase || 'Unknown') : '❌ Missing',
+                o.ready ? '✅' : '❌',
+                o.revision === info.updateRevision ? `${o.revision || 'N/A'} 🆕` : (o.revision || 'N/A'),
+                o.pvcs.map(p => `${p.name} (${p.phase})`).join(', ') || '-',
+            ]);
+            result += createTable(['#', 'Pod', 'Phase', 'Ready', 'Revision', 'PVCs'], rows);
+            result += '\n\n';
+
+            // Issues
+            result += formatIssues(diagnostics.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ StatefulSet diagnosis failed: ${error.message}\n\nVerify statefulset exists:\n\`\`\`bash\nkubectl get statefulset ${statefulSetName} -n ${namespace}\n\`\`\``,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * DaemonSet node coverage
+ *
+ * Names each node missing a daemon pod and explains why
+ */
+server.registerTool(
+    'diagnose-daemonset',
+    {
+        title: 'DaemonSet Node Coverage',
+        description: 'Compares DaemonSet pods against all nodes and explains each uncovered node (untolerated taint, nodeSelector mismatch, crash-looping pod)',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            daemonSetName: z.string().describe('DaemonSet name'),
+        },
+    },
+    async ({ namespace, daemonSetName }) => {
+        try {
+            const diagnostics = await diagnoseDaemonSet(
+                getK8sClients().apps,
+                getK8sClients().core,
+                namespace,
+                daemonSetName
+            );
+            const info = diagnostics.daemonSetInfo;
+
+            let result = `# 🛰️ DaemonSet Coverage Report\n\n`;
+            result += `**DaemonSet**: ${info.name}\n`;
+            result += `**Namespace**: ${info.namespace}\n`;
+            result += `**Desired / Ready**: ${info.desiredNumberScheduled} / ${info.numberReady}\n`;
+            result += `**Updated**: ${info.updatedNumberScheduled}\n\n`;
+
+            // Summary
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            // Node coverage (problems first)
+            const statusIcons: Record<string, string> = {
+                Running: '✅',
+                NotReady: '⚠️',
+                Pending: '⏳',
+                CrashLooping: '🔥',
+                Missing: '❌',
+                Excluded: '🚫',
+            };
+            const uncovered = diagnostics.nodeCoverage.filter(n => n.status !== 'Running');
+            result += `## 🖥️ Node Coverage\n\n`;
+            if (uncovered.length === 0) {
+                result += `✅ Daemon pod is healthy on all ${diagnostics.nodeCoverage.length} node(s)\n\n`;
+            } else {
+                const rows = uncovered.map(n => [
+                    statusIcons[n.status],
+                    n.nodeName,
+                    n.status,
+                    n.podName || '-',
+                    n.reason || '',
+                ]);
+                result += createTable(['', 'Node', 'Status', 'Pod', 'Reason'], rows);
+                result += '\n\n';
+            }
+
+            // Issues
+            result += formatIssues(diagnostics.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ DaemonSet diagnosis failed: ${error.message}\n\nVerify daemonset exists:\n\`\`\`bash\nkubectl get daemonset ${daemonSetName} -n ${namespace}\n\`\`\``,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Job / CronJob diagnostics
+ *
+ * Explains failed batch runs - backoffLimit, deadlines, missed schedules and exit codes
+ */
+server.registerTool(
+    'diagnose-job',
+    {
+        title: 'Job/CronJob Failure Diagnostics',
+        description: 'Analyzes a Job or CronJob: backoffLimit/activeDeadlineSeconds failures, suspended or missed schedules, concurrencyPolicy=Forbid blocking, and exit codes of failed pods',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            name: z.string().describe('Job or CronJob name'),
+            kind: z.enum(['Job', 'CronJob']).default('Job').describe('Resource kind'),
+        },
+    },
+    async ({ namespace, name, kind }) => {
+        try {
+            let result = '';
+            let jobs: JobDiagnostics[];
+
+            if (kind === 'CronJob') {
+                const diagnostics = await diagnoseCronJob(
+                    getK8sClients().batch,
+                    getK8sClients().core,
+                    namespace,
+                    name
+                );
+                const info = diagnostics.cronJobInfo;
+
+                result += `# ⏰ CronJob Diagnosis Report\n\n`;
+                result += `**CronJob**: ${info.name}\n`;
+                result += `**Namespace**: ${info.namespace}\n`;
+                result += `**Schedule**: \`${info.schedule}\`${info.timeZone ? ` (${info.timeZone})` : ''}\n`;
+                result += `**Concurrency Policy**: ${info.concurrencyPolicy}\n`;
+                result += `**Last Schedule**: ${info.lastScheduleTime ? timeAgo(info.lastScheduleTime) : 'Never'}\n`;
+                result += `**Last Success**: ${info.lastSuccessfulTime ? timeAgo(info.lastSuccessfulTime) : 'Never'}\n`;
+                if (info.activeJobs.length > 0) {
+                    result += `**Active Jobs**: ${info.activeJobs.join(', ')}\n`;
+                }
+                result += '\n';
+
+                result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+                result += formatIssues(diagnostics.issues);
+                jobs = diagnostics.recentJobs;
+            } else {
+                jobs = [await diagnoseJob(getK8sClients().batch, getK8sClients().core, namespace, name)];
+                result += `# 📦 Job Diagnosis Report\n\n`;
+            }
+
+            for (const job of jobs) {
+                const info = job.jobInfo;
+
+                if (kind === 'CronJob') {
+                    result += `## 📦 Job: ${info.name}\n\n`;
+                } else {
+                    result += `**Job**: ${info.name}\n`;
+                    result += `**Namespace**: ${info.namespace}\n\n`;
+                }
+                result += `${job.summary}\n\n`;
+                result += `- Backoff Limit: ${info.backoffLimit}\n`;
+                if (info.activeDeadlineSeconds !== undefined) {
+                    result += `- Active Deadline: ${info.activeDeadlineSeconds}s\n`;
+                }
+                if (info.startTime) {
+                    result += `- Started: ${timeAgo(info.startTime)}\n`;
+                }
+                result += '\n';
+
+                if (job.failedContainers.length > 0) {
+                    const rows = job.failedContainers.slice(0, 10).map(c => [
+                        c.podName,
+                        c.containerName,
+                        c.exitCode.toString(),
+                        c.reason,
+                        c.finishedAt ? timeAgo(c.finishedAt) : 'N/A',
+                    ]);
+                    result += createTable(['Pod', 'Container', 'Exit Code', 'Reason', 'Finished'], rows);
+                    result += '\n\n';
+                }
+
+                result += formatIssues(job.issues);
+            }
+
+            if (kind === 'CronJob' && jobs.length === 0) {
+                result += `ℹ️ No Jobs retained for this CronJob\n`;
+            }
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ ${kind} diagnosis failed: ${error.message}\n\nVerify ${kind.toLowerCase()} exists:\n\`\`\`bash\nkubectl get ${kind.toLowerCase()} ${name} -n ${namespace}\n\`\`\``,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * HorizontalPodAutoscaler diagnostics
+ *
+ * Finds HPAs that silently cannot read metrics or cannot scale further
+ */
+server.registerTool(
+    'diagnose-hpa',
+    {
+        title: 'HPA Diagnostics',
+        description: 'Analyzes HorizontalPodAutoscalers: pinned at maxReplicas, <unknown> metrics caused by missing resource requests, ScalingActive=False, and flapping replica counts',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            hpaName: z.string().optional().describe('HPA name (optional, all HPAs in namespace if empty)'),
+        },
+    },
+    async ({ namespace, hpaName }) => {
+        try {
+            const results = await diagnoseHPA(
+                getK8sClients().autoscaling,
+                getK8sClients().apps,
+                getK8sClients().core,
+                namespace,
+                hpaName
+            );
+
+            let result = `# 📈 HPA Diagnosis Report\n\n`;
+            result += `**Namespace**: ${namespace}\n\n`;
+
+            if (results.length === 0) {
+                result += 'ℹ️ No HorizontalPodAutoscalers found in this namespace\n';
+                return { content: [{ type: 'text', text: result }] };
+            }
+
+            // Overview
+            const rows = results.map(r => [
+                r.issues.some(i => i.severity === 'critical' || i.severity === 'high') ? '⚠️' : '✅',
+                r.hpaInfo.name,
+                r.hpaInfo.scaleTarget,
+                `${r.hpaInfo.currentReplicas} (${r.hpaInfo.minReplicas}-${r.hpaInfo.maxReplicas})`,
+                r.metrics.map(m => `${m.name}: ${m.current}/${m.target}`).join(', ') || '-',
+            ]);
+            result += createTable(['', 'HPA', 'Target', 'Replicas (min-max)', 'Metrics (current/target)'], rows);
+            result += '\n\n';
+
+            for (const hpa of results) {
+                if (hpa.issues.length === 0) continue;
+                result += `## ${hpa.hpaInfo.name}\n\n`;
+                result += `${hpa.summary}\n\n`;
+                result += formatIssues(hpa.issues);
+            }
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ HPA diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Service connectivity diagnostics
+ *
+ * Explains why a Service has no endpoints
+ */
+server.registerTool(
+    'diagnose-service',
+    {
+        title: 'Service Diagnostics',
+        description: 'Explains why a Service has no endpoints: selector matching zero pods (with near-miss labels), unready pods, named targetPort mismatches, and pending LoadBalancers',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            serviceName: z.string().optional().describe('Service name (optional, all services in namespace if empty)'),
+        },
+    },
+    async ({ namespace, serviceName }) => {
+        try {
+            const diagnostics = await diagnoseService(
+                getK8sClients().core,
+                getK8sClients().discovery,
+                namespace,
+                serviceName
+            );
+
+            let result = `# 🔌 Service Diagnosis Report\n\n`;
+            result += `**Namespace**: ${namespace}\n\n`;
+
+            if (diagnostics.serviceConnectivity.length === 0) {
+                result += 'ℹ️ No services found in this namespace\n';
+                return { content: [{ type: 'text', text: result }] };
+            }
+
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            const rows = diagnostics.serviceConnectivity.map(s => [
+                s.serviceName,
+                s.endpointCount.toString(),
+                s.isReachable ? '✅' : '❌',
+                s.issues.length.toString(),
+            ]);
+            result += createTable(['Service', 'Ready Endpoints', 'Reachable', 'Issues'], rows);
+            result += '\n\n';
+
+            result += formatIssues(diagnostics.serviceIssues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Service diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Ingress diagnostics
+ *
+ * Traces edge 404/503 errors to concrete misconfiguration
+ */
+server.registerTool(
+    'diagnose-ingress',
+    {
+        title: 'Ingress Diagnostics',
+        description: 'Validates Ingresses: backend Service/port existence, backend endpoints, TLS secret type, IngressClass availability, and duplicate host/path rules across namespaces',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            ingressName: z.string().optional().describe('Ingress name (optional, all ingresses in namespace if empty)'),
+        },
+    },
+    async ({ namespace, ingressName }) => {
+        try {
+            const diagnostics = await diagnoseIngress(
+                getK8sClients().networking,
+                getK8sClients().core,
+                getK8sClients().discovery,
+                namespace,
+                ingressName
+            );
+
+            let result = `# 🌐 Ingress Diagnosis Report\n\n`;
+            result += `**Namespace**: ${namespace}\n`;
+            if (ingressName) {
+                result += `**Ingress**: ${ingressName}\n`;
+            }
+            result += `\n## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            result += formatIssues(diagnostics.ingressIssues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Ingress diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * NetworkPolicy reachability
+ *
+ * Evaluates NetworkPolicies offline - no traffic is sent
+ */
+server.registerTool(
+    'check-network-policy',
+    {
+        title: 'NetworkPolicy Reachability Check',
+        description: 'Answers "can pod A talk to pod B on port P?" by evaluating NetworkPolicies (podSelector, namespaceSelector, ipBlock, policyTypes, default-deny) and shows which policy allows or denies the traffic',
+        inputSchema: {
+            sourceNamespace: z.string().describe('Source pod namespace'),
+            sourcePod: z.string().describe('Source pod name'),
+            destinationNamespace: z.string().describe('Destination pod namespace'),
+            destinationPod: z.string().describe('Destination pod name'),
+            port: z.number().int().min(1).max(65535).describe('Destination port'),
+            protocol: z.enum(['TCP', 'UDP', 'SCTP']).default('TCP').describe('Protocol'),
+        },
+    },
+    async ({ sourceNamespace, sourcePod, destinationNamespace, destinationPod, port, protocol }) => {
+        try {
+            const analysis = await analyzeReachability(
+                getK8sClients().networking,
+                getK8sClients().core,
+                sourceNamespace,
+                sourcePod,
+                destinationNamespace,
+                destinationPod,
+                port,
+                protocol
+            );
+
+            let result = `# 🛡️ NetworkPolicy Reachability\n\n`;
+            result += `**Source**: ${analysis.source.namespace}/${analysis.source.pod} (${analysis.source.ip || 'no IP'})\n`;
+            result += `**Destination**: ${analysis.destination.namespace}/${analysis.destination.pod} (${analysis.destination.ip || 'no IP'})\n`;
+            result += `**Port**: ${analysis.port}/${analysis.protocol}\n\n`;
+
+            result += `## 📊 Summary\n\n${analysis.networkDiagnostics.summary}\n\n`;
+
+            const rows = [analysis.egress, analysis.ingress].flatMap(verdict =>
+                verdict.policies.map(p => [
+                    verdict.direction,
+                    `${p.namespace}/${p.name}`,
+                    p.allows ? '✅ Allow' : '🚫 No match',
+                    p.reason,
+                ])
+            );
+            if (rows.length > 0) {
+                result += `## 📜 Evaluated Policies\n\n`;
+                result += createTable(['Direction', 'Policy', 'Result', 'Reason'], rows);
+                result += '\n\n';
+            }
+
+            result += formatIssues(analysis.networkDiagnostics.networkPolicyIssues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ NetworkPolicy analysis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Cluster DNS diagnostics
+ */
+server.registerTool(
+    'diagnose-dns',
+    {
+        title: 'Cluster DNS Diagnostics',
+        description: 'Checks CoreDNS/kube-dns health, kube-dns Service endpoints, the CoreDNS Corefile (forward/stub domains), and optionally a pod\'s dnsPolicy/dnsConfig/ndots',
+        inputSchema: {
+            namespace: z.string().optional().describe('Pod namespace (optional, for pod DNS settings)'),
+            podName: z.string().optional().describe('Pod name (optional, for pod DNS settings)'),
+        },
+    },
+    async ({ namespace, podName }) => {
+        try {
+            const diagnostics = await diagnoseDNS(
+                getK8sClients().apps,
+                getK8sClients().core,
+                getK8sClients().discovery,
+                namespace,
+                podName
+            );
+
+            let result = `# 🧭 DNS Diagnosis Report\n\n`;
+            if (namespace && podName) {
+                result += `**Pod**: ${namespace}/${podName}\n\n`;
+            }
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            result += formatIssues(diagnostics.dnsIssues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ DNS diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Storage diagnostics
+ *
+ * Explains Pending PVCs and capacity / accessMode mismatches
+ */
+server.registerTool(
+    'diagnose-storage',
+    {
+        title: 'Storage Diagnostics',
+        description: 'Lists PVCs in a namespace and explains Pending claims (missing/default StorageClass, WaitForFirstConsumer, provisioner errors), capacity mismatches, accessModes incompatible with the workload, and Multi-Attach errors (which node/pod still holds the volume)',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+        },
+    },
+    async ({ namespace }) => {
+        try {
+            const diagnostics = await diagnoseStorage(
+                getK8sClients().core,
+                getK8sClients().storage,
+                namespace
+            );
+
+            let result = `# 💾 Storage Diagnosis Report\n\n`;
+            result += `**Namespace**: ${namespace}\n\n`;
+
+            if (diagnostics.pvcStatus.length === 0) {
+                result += 'ℹ️ No PersistentVolumeClaims found in this namespace\n';
+                return { content: [{ type: 'text', text: result }] };
+            }
+
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            const rows = diagnostics.pvcStatus.map(p => [
+                p.name,
+                p.phase === 'Bound' ? '✅ Bound' : `⚠️ ${p.phase}`,
+                p.requestedCapacity,
+                p.actualCapacity || '-',
+                p.storageClass || '-',
+            ]);
+            result += createTable(['PVC', 'Phase', 'Requested', 'Actual', 'StorageClass'], rows);
+            result += '\n\n';
+
+            result += formatIssues([...diagnostics.mountIssues, ...diagnostics.capacityIssues]);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Storage diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Pending pod scheduling explainer
+ *
+ * Answers "why is my pod Pending?" per node
+ */
+server.registerTool(
+    'explain-scheduling',
+    {
+        title: 'Pending Pod Scheduling Explainer',
+        description: 'Explains why a pod is Pending: evaluates every node (resource fit against allocatable, taints/tolerations, nodeSelector/affinity, topologySpreadConstraints, PVC zone) and shows a per-node "why not here" table alongside the parsed FailedScheduling reasons',
+        inputSchema: {
+            namespace: z.string().describe('Namespace'),
+            podName: z.string().describe('Pod name'),
+        },
+    },
+    async ({ namespace, podName }) => {
+        try {
+            const diagnostics = await diagnoseScheduling(getK8sClients().core, getK8sClients().storage, namespace, podName);
+
+            let result = `# 🧩 Scheduling Explanation: ${diagnostics.podInfo.name}\n\n`;
+            result += `**Namespace**: ${diagnostics.podInfo.namespace}\n`;
+            result += `**Phase**: ${diagnostics.podInfo.phase}\n`;
+            result += `**Requests**: CPU ${formatCPU(diagnostics.podInfo.cpuRequest)}, Memory ${formatBytes(diagnostics.podInfo.memoryRequest)}\n\n`;
+
+            result += `## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            // What the scheduler said
+            if (diagnostics.schedulerReasons.length > 0) {
+                result += `## 📣 Scheduler Reasons (latest FailedScheduling)\n\n`;
+                for (const r of diagnostics.schedulerReasons) {
+                    result += `- ${r.nodeCount} node(s): ${r.reason}\n`;
+                }
+                result += '\n';
+            }
+
+            // Per-node table
+            if (!diagnostics.podInfo.nodeName) {
+                const rows = diagnostics.nodeFits
+                    .sort((a, b) => a.reasons.length - b.reasons.length)
+                    .map(n => [
+                        n.nodeName,
+                        n.fits ? '✅' : '❌',
+                        n.fits ? '-' : n.reasons.join('; '),
+                    ]);
+                result += `## 🖥️ Per-Node Evaluation\n\n`;
+                result += createTable(['Node', 'Fits', 'Why not here'], rows);
+                result += '\n\n';
+            }
+
+            result += formatIssues(diagnostics.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Scheduling diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Node diagnostics
+ */
+server.registerTool(
+    'diagnose-node',
+    {
+        title: 'Node Diagnostics',
+        description: 'Diagnoses a node: Ready/Memory/Disk/PID pressure and NetworkUnavailable conditions, cordon and taints, kubelet version skew, allocatable vs requested capacity, recent node events (NodeNotReady, Rebooted, OOM), and the health of pods scheduled there',
+        inputSchema: {
+            nodeName: z.string().describe('Node name'),
+        },
+    },
+    async ({ nodeName }) => {
+        try {
+            const diagnostics = await diagnoseNode(getK8sClients().core, getK8sClients().version, nodeName);
+            const { nodeInfo, capacity } = diagnostics;
+
+            let result = `# 🖥️ Node Diagnosis: ${nodeInfo.name}\n\n`;
+            result += `**Roles**: ${nodeInfo.roles.join(', ')}\n`;
+            result += `**Kubelet**: ${nodeInfo.kubeletVersion}`;
+            if (nodeInfo.controlPlaneVersion) {
+                result += ` (control plane ${nodeInfo.controlPlaneVersion})`;
+            }
+            result += `\n**Runtime**: ${nodeInfo.containerRuntime}\n`;
+            result += `**OS**: ${nodeInfo.osImage} (kernel ${nodeInfo.kernelVersion})\n`;
+            result += `**Schedulable**: ${nodeInfo.unschedulable ? '🚫 Cordoned' : '✅ Yes'}\n`;
+            if (nodeInfo.taints.length > 0) {
+                result += `**Taints**: ${nodeInfo.taints.join(', ')}\n`;
+            }
+            result += `\n## 📊 Summary\n\n${diagnostics.summary}\n\n`;
+
+            // Conditions
+            result += `## 🩺 Conditions\n\n`;
+            result += createTable(
+                ['Type', 'Status', 'Reason', 'Since'],
+                diagnostics.conditions.map(c => {
+                    const healthy = c.type === 'Ready' ? c.status === 'True' : c.status === 'False';
+                    return [
+                        c.type,
+                        `${healthy ? '✅' : '❌'} ${c.status}`,
+                        c.reason || '-',
+                        c.lastTransitionTime ? timeAgo(c.lastTransitionTime) : '-',
+                    ];
+                })
+            );
+            result += '\n\n';
+
+            // Allocation
+            const percent = (used: number, total: number) => total > 0 ? `${((used / total) * 100).toFixed(0)}%` : '-';
+            result += `## 📦 Allocation\n\n`;
+            result += createTable(
+                ['Resource', 'Allocatable', 'Requested', 'Limits'],
+                [
+                    ['CPU', formatCPU(capacity.cpu.allocatable), `${formatCPU(capacity.cpu.requested)} (${percent(capacity.cpu.requested, capacity.cpu.allocatable)})`, `${formatCPU(capacity.cpu.limits)} (${percent(capacity.cpu.limits, capacity.cpu.allocatable)})`],
+                    ['Memory', formatBytes(capacity.memory.allocatable), `${formatBytes(capacity.memory.requested)} (${percent(capacity.memory.requested, capacity.memory.allocatable)})`, `${formatBytes(capacity.memory.limits)} (${percent(capacity.memory.limits, capacity.memory.allocatable)})`],
+                    ['Pods', capacity.pods.allocatable.toString(), `${capacity.pods.running} (${percent(capacity.pods.running, capacity.pods.allocatable)})`, '-'],
+                ]
+            );
+            result += '\n\n';
+
+            // Pods, unhealthy first
+            if (diagnostics.pods.length > 0) {
+                const pods = [...diagnostics.pods].sort((a, b) => Number(a.ready) - Number(b.ready) || b.restarts - a.restarts);
+                result += `## 🐳 Pods on Node (${pods.length})\n\n`;
+                result += createTable(
+                    ['Pod', 'Namespace', 'Phase', 'Ready', 'Restarts'],
+                    pods.slice(0, 30).map(p => [
+                        p.name,
+                        p.namespace,
+                        p.phase,
+                        p.ready ? '✅' : p.phase === 'Succeeded' ? '-' : '❌',
+                        p.restarts.toString(),
+                    ])
+                );
+                if (pods.length > 30) {
+                    result += `\n\n... and ${pods.length - 30} more`;
+                }
+                result += '\n\n';
+            }
+
+            result += formatIssues(diagnostics.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Node diagnosis failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Health Trend Comparison
+ *
+ * Diffs the current state against a stored snapshot of an earlier
+ * diagnose-pod / full-diagnosis run
+ */
+server.registerTool(
+    'compare-health',
+    {
+        title: 'Health Trend Comparison',
+        description: 'Compares current cluster (or pod) health with an earlier snapshot: new issues, resolved issues, score delta and restart-count growth. Snapshots are recorded by every full-diagnosis and diagnose-pod run',
+        inputSchema: {
+            namespace: z.string().optional().describe('Namespace (optional for cluster scope, required with podName)'),
+            podName: z.string().optional().describe('Pod name (optional, compares the whole cluster/namespace if empty)'),
+            since: z.string().optional().describe('Compare with the newest snapshot at or before this time: 30m, 6h, 2d or ISO timestamp (default: previous snapshot)'),
+        },
+    },
+    async ({ namespace, podName, since }) => {
+        try {
+            if (podName && !namespace) {
+                return { content: [{ type: 'text', text: '❌ namespace is required when podName is given' }] };
+            }
+            const before = since ? parseSince(since) : undefined;
+            const context = getK8sConfig().getCurrentContext();
+
+            let current: HealthSnapshot;
+            if (podName) {
+                const diagnostics = await diagnosePod(getK8sClients().core, namespace!, podName, getK8sClients().metrics);
+                current = snapshotFromPodDiagnostics(context, diagnostics);
+            } else {
+                const health = await diagnoseClusterHealth(
+                    getK8sClients().core,
+                    namespace,
+                    getK8sClients().metrics,
+                    getK8sConfig(),
+                    getK8sClients().coordination
+                );
+                current = snapshotFromClusterHealth(context, health, namespace);
+            }
+
+            // Look up before recording, so the current run is never its own baseline
+            const previous = await findSnapshot(context, current.kind, current.target, before);
+            await recordSnapshot(current);
+
+            if (!previous) {
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `ℹ️ No snapshot of ${describeTarget(current)} (context ${context})${since ? ` at or before ${since}` : ''} to compare with.\n\n` +
+                            `The current state has been recorded - run compare-health again later.`,
+                    }],
+                };
+            }
+
+            const diff = diffSnapshots(previous, current);
+            const trend = diff.scoreDelta < 0 ? '📉' : diff.scoreDelta > 0 ? '📈' : '➖';
+
+            let result = `# ${trend} Health Trend\n\n`;
+            result += `**Target**: ${describeTarget(current)}\n`;
+            result += `**Context**: ${context}\n`;
+            result += `**Compared with**: ${previous.timestamp} (${timeAgo(previous.timestamp)})\n`;
+            result += `**Score**: ${previous.score.toFixed(1)} → ${current.score.toFixed(1)} (${diff.scoreDelta >= 0 ? '+' : ''}${diff.scoreDelta.toFixed(1)})\n\n`;
+
+            result += `## 📊 Summary\n\n`;
+            if (diff.newIssues.length === 0 && diff.restartGrowth.length === 0) {
+                result += diff.resolvedIssues.length > 0
+                    ? `✅ Nothing got worse, ${diff.resolvedIssues.length} issue(s) resolved.\n\n`
+                    : '✅ No change.\n\n';
+            } else {
+                result += `⚠️ ${diff.newIssues.length} new issue(s), ${diff.resolvedIssues.length} resolved, ${diff.restartGrowth.length} container(s) restarted since.\n\n`;
+            }
+
+            const formatIssue = (issue: HealthSnapshot['issues'][number]) => {
+                const r = issue.resource;
+                const where = r ? ` (${r.kind} ${r.namespace ? `${r.namespace}/` : ''}${r.name})` : '';
+                return `- ${getSeverityEmoji(issue.severity)} **${issue.type}**${where}: ${issue.message}\n`;
+            };
+
+            if (diff.newIssues.length > 0) {
+                result += `## 🆕 New Issues\n\n`;
+                result += diff.newIssues.map(formatIssue).join('');
+                result += '\n';
+            }
+
+            if (diff.resolvedIssues.length > 0) {
+                result += `## ✅ Resolved Issues\n\n`;
+                result += diff.resolvedIssues.map(formatIssue).join('');
+                result += '\n';
+            }
+
+            if (diff.restartGrowth.length > 0) {
+                result += `## 🔁 Restart Growth\n\n`;
+                result += createTable(
+                    ['Container', 'Before', 'Now', 'Increase'],
+                    diff.restartGrowth.slice(0, 20).map(g => [
+                        g.container,
+                        g.previous.toString(),
+                        g.current.toString(),
+                        `+${g.current - g.previous}`,
+                    ])
+                );
+                if (diff.restartGrowth.length > 20) {
+                    result += `\n\n... and ${diff.restartGrowth.length - 20} more`;
+                }
+                result += '\n\n';
+            }
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Health comparison failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Deprecated API Scan
+ *
+ * Upgrade prep: finds live objects written with API versions that
+ * the next Kubernetes minor deprecates or stops serving
+ */
+server.registerTool(
+    'scan-deprecated-apis',
+    {
+        title: 'Deprecated API Scan',
+        description: 'Finds resources created with API versions deprecated or removed in the next Kubernetes minor (or a given target version), using API discovery and the last-applied/managedFields apiVersion of live objects. Groups hits by namespace with a migration target',
+        inputSchema: {
+            namespace: z.string().optional().describe('Namespace (optional, all namespaces and cluster-scoped resources if empty)'),
+            targetVersion: z.string().optional().describe('Kubernetes version to check against, e.g. 1.32 (optional, next minor of the API server if empty)'),
+        },
+    },
+    async ({ namespace, targetVersion }) => {
+        try {
+            const scan = await scanDeprecatedApis(
+                getK8sClients().version,
+                getK8sClients().apis,
+                getK8sClients().objects,
+                namespace,
+                targetVersion
+            );
+
+            let result = `# 🗓️ Deprecated API Scan\n\n`;
+            result += `**Server Version**: ${scan.serverVersion}\n`;
+            result += `**Target Version**: ${scan.targetVersion}\n`;
+            result += `**Scope**: ${namespace || 'all namespaces'}\n\n`;
+
+            result += `## 📊 Summary\n\n${scan.summary}\n\n`;
+
+            if (scan.servedDeprecated.length > 0) {
+                result += `## 📡 Deprecated API Versions Still Served\n\n`;
+                result += scan.servedDeprecated.map(v => `- \`${v}\``).join('\n');
+                result += '\n\n';
+            }
+
+            if (scan.hits.length > 0) {
+                result += `## 📦 Resources by Namespace\n\n`;
+                const byNamespace = new Map<string, typeof scan.hits>();
+                for (const hit of scan.hits) {
+                    if (!byNamespace.has(hit.namespace)) byNamespace.set(hit.namespace, []);
+                    byNamespace.get(hit.namespace)!.push(hit);
+                }
+
+                for (const ns of [...byNamespace.keys()].sort()) {
+                    result += `### ${ns || '(cluster-scoped)'}\n\n`;
+                    result += createTable(
+                        ['Kind', 'Name', 'Written As', 'Migrate To', 'Status', 'Found In'],
+                        byNamespace.get(ns)!.map(h => [
+                            h.kind,
+                            h.name,
+                            h.api.apiVersion,
+                            h.api.replacement || '(none)',
+                            h.removed ? `🔴 removed in ${h.api.removedIn}` : `🟡 deprecated, removed in ${h.api.removedIn}`,
+                            h.source,
+                        ])
+                    );
+                    result += '\n\n';
+                }
+            }
+
+            result += formatIssues(scan.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Deprecated API scan failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * TLS Certificate Scan
+ *
+ * Decodes TLS secrets locally and checks expiry, hostnames and chains
+ */
+server.registerTool(
+    'scan-certificates',
+    {
+        title: 'TLS Certificate Scan',
+        description: 'Parses X.509 certificates in kubernetes.io/tls Secrets and Ingress-referenced Secrets: expired or soon-to-expire certificates, hostname mismatches against Ingress hosts, and incomplete or out-of-order chains. Private keys are never read out',
+        inputSchema: {
+            namespace: z.string().optional().describe('Namespace (optional, all namespaces if empty)'),
+            warningDays: z.number().default(30).describe('Warn about certificates expiring within this many days'),
+        },
+    },
+    async ({ namespace, warningDays }) => {
+        try {
+            const scan = await scanCertificates(
+                getK8sClients().core,
+                getK8sClients().networking,
+                namespace,
+                warningDays
+            );
+
+            let result = `# 🔐 TLS Certificate Scan\n\n`;
+            result += `**Scope**: ${namespace || 'all namespaces'}\n\n`;
+
+            result += `## 📊 Summary\n\n${scan.summary}\n\n`;
+
+            if (scan.certificates.length > 0) {
+                result += `## 📜 Certificates (soonest expiry first)\n\n`;
+                result += createTable(
+                    ['Namespace', 'Secret', 'DNS Names', 'Expires', 'Days Left', 'Chain', 'Used By'],
+                    scan.certificates.slice(0, 50).map(c => [
+                        c.namespace,
+                        c.secretName,
+                        c.dnsNames.slice(0, 3).join(', ') + (c.dnsNames.length > 3 ? ` +${c.dnsNames.length - 3}` : '') || c.subject,
+                        c.notAfter.split('T')[0],
+                        c.daysRemaining < 0 ? `❌ ${c.daysRemaining}` : c.daysRemaining <= warningDays ? `⚠️ ${c.daysRemaining}` : c.daysRemaining.toString(),
+                        c.chainLength.toString(),
+                        c.ingresses.join('; ') || '-',
+                    ])
+                );
+                if (scan.certificates.length > 50) {
+                    result += `\n\n... and ${scan.certificates.length - 50} more`;
+                }
+                result += '\n\n';
+            }
+
+            result += formatIssues(scan.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Certificate scan failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Namespace Report Cards
+ *
+ * Ranks namespaces by lightweight checks so it is clear which team to ping first
+ */
+server.registerTool(
+    'rank-namespaces',
+    {
+        title: 'Namespace Report Cards',
+        description: 'Scores every namespace with lightweight checks (pod phases, restarts, containers without limits or probes, Warning event volume) and ranks them worst first with the top issue of each',
+        inputSchema: {
+            limit: z.number().default(20).describe('Number of namespaces to show'),
+            includeSystem: z.boolean().default(false).describe('Include kube-system, kube-public and kube-node-lease'),
+        },
+    },
+    async ({ limit, includeSystem }) => {
+        try {
+            const cards = await rankNamespaces(getK8sClients().core, includeSystem);
+
+            let result = `# 🏅 Namespace Report Cards\n\n`;
+            result += `**Namespaces**: ${cards.length}\n`;
+            result += `**Below 70**: ${cards.filter(c => c.score < 70).length}\n\n`;
+
+            result += createTable(
+                ['#', 'Namespace', 'Score', 'Pods (Run/Pend/Fail)', 'Restarts', 'No Limits', 'No Probes', 'Warnings', 'Top Issue'],
+                cards.slice(0, limit).map((c, i) => [
+                    (i + 1).toString(),
+                    c.namespace,
+                    `${getHealthEmoji(c.score)} ${c.score.toFixed(0)}`,
+                    `${c.pods.total} (${c.pods.running}/${c.pods.pending}/${c.pods.failed})`,
+                    c.restarts.toString(),
+                    `${c.containers.missingLimits}/${c.containers.total}`,
+                    c.containers.missingProbes.toString(),
+                    c.warningEvents.toString(),
+                    c.topIssue || '-',
+                ])
+            );
+            if (cards.length > limit) {
+                result += `\n\n... and ${cards.length - limit} more`;
+            }
+            result += '\n\n';
+
+            const worst = cards[0];
+            if (worst && worst.scoreBreakdown.length > 0) {
+                result += `## 🧮 Score Breakdown: ${worst.namespace}\n\n`;
+                result += formatScoreBreakdown(worst.score, worst.scoreBreakdown);
+                result += `\n💡 Drill down with full-diagnosis (namespace: ${worst.namespace})\n`;
+            }
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Namespace ranking failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
+/**
+ * Taint / Toleration / Node Affinity Audit
+ *
+ * Finds placement rules that turn a node pool drain into an outage
+ */
+server.registerTool(
+    'audit-placement',
+    {
+        title: 'Taint, Toleration and Node Affinity Audit',
+        description: 'Cross-references node taints and labels with workload tolerations, nodeSelectors and node affinity: workloads that can only land on a single node, tolerations for taints no node has, and NoExecute taints currently evicting pods',
+        inputSchema: {
+            namespace: z.string().optional().describe('Namespace (optional, all namespaces if empty)'),
+        },
+    },
+    async ({ namespace }) => {
+        try {
+            const audit = await auditPlacement(getK8sClients().apps, getK8sClients().core, namespace);
+
+            let result = `# 🧲 Placement Audit\n\n`;
+            result += `**Scope**: ${namespace || 'all namespaces'}\n`;
+            result += `**Nodes**: ${audit.nodeCount}\n\n`;
+
+            result += `## 📊 Summary\n\n${audit.summary}\n\n`;
+
+            // Workloads restricted to a subset of nodes, most constrained first
+            const constrained = audit.workloads
+                .filter(w => w.replicas > 0 && w.eligibleNodes.length < audit.nodeCount)
+                .sort((a, b) => a.availableNodes.length - b.availableNodes.length || a.eligibleNodes.length - b.eligibleNodes.length);
+            if (constrained.length > 0) {
+                result += `## 🎯 Constrained Workloads\n\n`;
+                result += createTable(
+                    ['Kind', 'Workload', 'Replicas', 'Eligible Nodes', 'Available'],
+                    constrained.slice(0, 30).map(w => [
+                        w.kind,
+                        `${w.namespace}/${w.name}`,
+                        w.replicas.toString(),
+                        w.eligibleNodes.length <= 3 ? (w.eligibleNodes.join(', ') || '❌ none') : `${w.eligibleNodes.length} nodes`,
+                        w.availableNodes.length <= 1 ? `⚠️ ${w.availableNodes.length}` : w.availableNodes.length.toString(),
+                    ])
+                );
+                if (constrained.length > 30) {
+                    result += `\n\n... and ${constrained.length - 30} more`;
+                }
+                result += '\n\n';
+            }
+
+            result += formatIssues(audit.issues);
+
+            return { content: [{ type: 'text', text: result }] };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: `❌ Placement audit failed: ${error.message}`,
+                }],
+            };
+        }
+    }
+);
+
 /**
  * List namespaces
  *
@@ -75,6 +75,9 @@ export interface PodDiagnostics {
     /** Container status */
     containers: ContainerStatus[];
 
+    /** Init container status (in execution order) */
+    initContainers: InitContainerStatus[];
+
     /** Detected issues */
     issues: DiagnosticIssue[];
 
@@ -89,6 +92,26 @@ export interface PodDiagnostics {
 
     /** Health score (0-100) */
     healthScore: number;
+
+    /** Deductions that make up the health score */
+    scoreBreakdown: ScoreDeduction[];
+}
+
+/**
+ * One health score deduction
+ */
+export interface ScoreDeduction {
+    /** Rule that applied, e.g. "Issue severity: critical" */
+    rule: string;
+
+    /** Configured weight (points per occurrence, or per % for ratio rules) */
+    weight: number;
+
+    /** Points lost */
+    points: number;
+
+    /** Issue that triggered the rule ("type: message") */
+    issue?: string;
 }
 
 /**
@@ -123,6 +146,28 @@ export interface ContainerStatus {
     imageID?: string;
 }
 
+/**
+ * Init container status
+ *
+ * Init containers run one at a time, in order, before the app containers start
+ */
+export interface InitContainerStatus extends ContainerStatus {
+    /** Position in spec.initContainers (1-based) */
+    order: number;
+
+    /** Native sidecar (restartPolicy: Always) - done once started */
+    sidecar: boolean;
+
+    /** Finished successfully (sidecars: started) */
+    completed: boolean;
+
+    /** The init container the pod is waiting on */
+    blocking: boolean;
+
+    /** Last log lines of the blocking init container (previous run if it restarted) */
+    logs?: string[];
+}
+
 /**
  * Resource usage
  *
@@ -191,6 +236,9 @@ export interface K8sEvent {
 
     /** Source component */
     source?: string;
+
+    /** Sub-object the event is about (e.g., "spec.containers{app}") */
+    fieldPath?: string;
 }
 
 /**
@@ -290,6 +338,9 @@ export interface NetworkDiagnostics {
     /** Service connectivity */
     serviceConnectivity: ServiceConnectivity[];
 
+    /** Service issues */
+    serviceIssues: DiagnosticIssue[];
+
     /** DNS issues */
     dnsIssues: DiagnosticIssue[];
 
@@ -366,6 +417,60 @@ export interface PVCStatus {
     issues: string[];
 }
 
+/**
+ * API server health endpoint (/readyz, /livez) result
+ */
+export interface HealthEndpointStatus {
+    /** Endpoint path */
+    endpoint: string;
+
+    /** ok, failed, or unknown (unreachable / forbidden) */
+    status: 'ok' | 'failed' | 'unknown';
+
+    /** Failed checks, e.g. "etcd failed: reason withheld" */
+    failedChecks: string[];
+
+    /** Why the status is unknown */
+    error?: string;
+}
+
+/**
+ * Control-plane component status
+ */
+export interface ControlPlaneComponent {
+    /** Component name (etcd, kube-scheduler, ...) */
+    name: string;
+
+    /** Where the status was observed */
+    source: 'static-pod' | 'lease';
+
+    /** Is the component healthy */
+    healthy: boolean;
+
+    /** Status detail (pod phase, lease holder and age) */
+    detail: string;
+}
+
+/**
+ * Control-plane health
+ */
+export interface ControlPlaneHealth {
+    /** /readyz?verbose */
+    readyz: HealthEndpointStatus;
+
+    /** /livez?verbose */
+    livez: HealthEndpointStatus;
+
+    /** Static pods are visible in kube-system (self-hosted); false on managed control planes */
+    selfHosted: boolean;
+
+    /** Components seen as static pods or leader leases */
+    components: ControlPlaneComponent[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+}
+
 /**
  * Cluster health diagnosis
  */
@@ -373,6 +478,9 @@ export interface ClusterHealth {
     /** Overall health score (0-100) */
     overallScore: number;
 
+    /** Deductions that make up the overall score */
+    scoreBreakdown: ScoreDeduction[];
+
     /** Node health */
     nodeHealth: {
         total: number;
@@ -388,16 +496,28 @@ export interface ClusterHealth {
         pending: number;
         failed: number;
         crashLooping: number;
+        /** Restart count per container, keyed "namespace/pod/container" */
+        restarts: Record<string, number>;
         issues: DiagnosticIssue[];
     };
 
-    /** Resource utilization */
+    /** Resource utilization (% of allocatable) */
     resourceUtilization: {
+        /** CPU usage %, or requested % when metrics are unavailable */
         cpu: number;
+        /** Memory usage %, or requested % when metrics are unavailable */
         memory: number;
+        /** Ephemeral storage requested % */
         storage: number;
+        /** Sum of pod requests vs allocatable */
+        requested: { cpu: number; memory: number };
+        /** Actual usage from Metrics Server (absent if not installed) */
+        used?: { cpu: number; memory: number };
     };
 
+    /** Control-plane health (only when a kubeconfig is provided) */
+    controlPlane?: ControlPlaneHealth;
+
     /** Critical issues */
     criticalIssues: DiagnosticIssue[];
 
@@ -407,3 +527,743 @@ export interface ClusterHealth {
     /** Diagnosis summary */
     summary: string;
 }
+
+/**
+ * ReplicaSet revision status
+ */
+export interface ReplicaSetStatus {
+    /** ReplicaSet name */
+    name: string;
+
+    /** Deployment revision this ReplicaSet belongs to */
+    revision: number;
+
+    /** Desired replicas */
+    desired: number;
+
+    /** Ready replicas */
+    ready: number;
+
+    /** Available replicas */
+    available: number;
+
+    /** Is this the current (newest) revision */
+    isCurrent: boolean;
+
+    /** Container images */
+    images: string[];
+}
+
+/**
+ * Deployment diagnostics result
+ *
+ * Explains why a rollout is stuck instead of only showing replica counts
+ */
+export interface DeploymentDiagnostics {
+    /** Deployment basic information */
+    deploymentInfo: {
+        name: string;
+        namespace: string;
+        replicas: number;
+        updatedReplicas: number;
+        readyReplicas: number;
+        availableReplicas: number;
+        unavailableReplicas: number;
+        revision?: number;
+        strategy: string;
+        paused: boolean;
+    };
+
+    /** Rollout status */
+    rolloutStatus: 'Complete' | 'Progressing' | 'Stuck' | 'Paused';
+
+    /** ReplicaSets owned by the deployment (newest first) */
+    replicaSets: ReplicaSetStatus[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnostics of failing pods from the new revision */
+    failingPods: PodDiagnostics[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * StatefulSet ordinal status
+ */
+export interface OrdinalStatus {
+    /** Ordinal index */
+    ordinal: number;
+
+    /** Pod name (<statefulset>-<ordinal>) */
+    podName: string;
+
+    /** Pod exists */
+    exists: boolean;
+
+    /** Pod phase */
+    phase?: string;
+
+    /** Ready status */
+    ready: boolean;
+
+    /** Controller revision the pod runs */
+    revision?: string;
+
+    /** PVCs from volumeClaimTemplates */
+    pvcs: { name: string; phase: string }[];
+}
+
+/**
+ * StatefulSet diagnostics result
+ *
+ * Ordinal-aware: explains why pod-N never appears
+ */
+export interface StatefulSetDiagnostics {
+    /** StatefulSet basic information */
+    statefulSetInfo: {
+        name: string;
+        namespace: string;
+        replicas: number;
+        readyReplicas: number;
+        updatedReplicas: number;
+        currentRevision?: string;
+        updateRevision?: string;
+        podManagementPolicy: string;
+        updateStrategy: string;
+        partition?: number;
+    };
+
+    /** Per-ordinal status */
+    ordinals: OrdinalStatus[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * DaemonSet node coverage
+ */
+export interface NodeCoverage {
+    /** Node name */
+    nodeName: string;
+
+    /** Coverage status */
+    status: 'Running' | 'NotReady' | 'Pending' | 'CrashLooping' | 'Missing' | 'Excluded';
+
+    /** Daemon pod on this node */
+    podName?: string;
+
+    /** Why the node is not covered */
+    reason?: string;
+}
+
+/**
+ * DaemonSet diagnostics result
+ */
+export interface DaemonSetDiagnostics {
+    /** DaemonSet basic information */
+    daemonSetInfo: {
+        name: string;
+        namespace: string;
+        desiredNumberScheduled: number;
+        currentNumberScheduled: number;
+        numberReady: number;
+        numberAvailable: number;
+        updatedNumberScheduled: number;
+        numberMisscheduled: number;
+    };
+
+    /** Per-node coverage */
+    nodeCoverage: NodeCoverage[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * Failed container of a Job pod
+ */
+export interface FailedJobContainer {
+    /** Pod name */
+    podName: string;
+
+    /** Container name */
+    containerName: string;
+
+    /** Exit code */
+    exitCode: number;
+
+    /** Termination reason (Error, OOMKilled, DeadlineExceeded, etc.) */
+    reason: string;
+
+    /** Termination timestamp */
+    finishedAt?: string;
+}
+
+/**
+ * Job diagnostics result
+ */
+export interface JobDiagnostics {
+    /** Job basic information */
+    jobInfo: {
+        name: string;
+        namespace: string;
+        completions: number;
+        succeeded: number;
+        failed: number;
+        active: number;
+        backoffLimit: number;
+        activeDeadlineSeconds?: number;
+        suspended: boolean;
+        startTime?: string;
+        completionTime?: string;
+    };
+
+    /** Failed containers of Job pods (including completed pods) */
+    failedContainers: FailedJobContainer[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * CronJob diagnostics result
+ */
+export interface CronJobDiagnostics {
+    /** CronJob basic information */
+    cronJobInfo: {
+        name: string;
+        namespace: string;
+        schedule: string;
+        timeZone?: string;
+        suspended: boolean;
+        concurrencyPolicy: string;
+        lastScheduleTime?: string;
+        lastSuccessfulTime?: string;
+        nextScheduleTime?: string;
+        activeJobs: string[];
+    };
+
+    /** Diagnostics of recent Jobs created by the CronJob */
+    recentJobs: JobDiagnostics[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * HPA metric status
+ */
+export interface HPAMetricStatus {
+    /** Metric type (Resource, ContainerResource, Pods, Object, External) */
+    type: string;
+
+    /** Metric name (e.g., "cpu", "http_requests") */
+    name: string;
+
+    /** Current value ("<unknown>" when the HPA cannot read it) */
+    current: string;
+
+    /** Target value */
+    target: string;
+}
+
+/**
+ * HorizontalPodAutoscaler diagnostics result
+ */
+export interface HPADiagnostics {
+    /** HPA basic information */
+    hpaInfo: {
+        name: string;
+        namespace: string;
+        scaleTarget: string;
+        minReplicas: number;
+        maxReplicas: number;
+        currentReplicas: number;
+        desiredReplicas: number;
+        lastScaleTime?: string;
+    };
+
+    /** Metrics (current vs target) */
+    metrics: HPAMetricStatus[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * NetworkPolicy evaluation for one direction
+ */
+export interface PolicyVerdict {
+    /** Traffic direction */
+    direction: 'Ingress' | 'Egress';
+
+    /** Pod is selected by at least one policy for this direction */
+    isolated: boolean;
+
+    /** Traffic allowed in this direction */
+    allowed: boolean;
+
+    /** Policies selecting the pod */
+    policies: {
+        name: string;
+        namespace: string;
+        allows: boolean;
+        reason: string;
+    }[];
+}
+
+/**
+ * Pod-to-pod reachability analysis result
+ */
+export interface ReachabilityAnalysis {
+    /** Source pod */
+    source: { pod: string; namespace: string; ip?: string };
+
+    /** Destination pod */
+    destination: { pod: string; namespace: string; ip?: string };
+
+    /** Destination port */
+    port: number;
+
+    /** Protocol */
+    protocol: string;
+
+    /** Traffic allowed end to end */
+    allowed: boolean;
+
+    /** Egress evaluation on the source side */
+    egress: PolicyVerdict;
+
+    /** Ingress evaluation on the destination side */
+    ingress: PolicyVerdict;
+
+    /** Network diagnostics (networkPolicyIssues populated) */
+    networkDiagnostics: NetworkDiagnostics;
+}
+
+/**
+ * Per-node scheduling evaluation
+ */
+export interface NodeFitResult {
+    /** Node name */
+    nodeName: string;
+
+    /** Pod can be scheduled on this node */
+    fits: boolean;
+
+    /** Why the pod does not fit here */
+    reasons: string[];
+}
+
+/**
+ * Pending pod scheduling explanation
+ */
+export interface SchedulingDiagnostics {
+    /** Pod basic information */
+    podInfo: {
+        name: string;
+        namespace: string;
+        phase: string;
+        nodeName?: string;
+        cpuRequest: number;
+        memoryRequest: number;
+    };
+
+    /** Reasons parsed from the latest FailedScheduling event */
+    schedulerReasons: { reason: string; nodeCount: number }[];
+
+    /** Per-node evaluation */
+    nodeFits: NodeFitResult[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * Pod running on a node
+ */
+export interface NodePodStatus {
+    /** Pod name */
+    name: string;
+
+    /** Namespace */
+    namespace: string;
+
+    /** Phase */
+    phase: string;
+
+    /** Ready status */
+    ready: boolean;
+
+    /** Total container restarts */
+    restarts: number;
+
+    /** Requested CPU (millicores) */
+    cpuRequest: number;
+
+    /** Requested memory (bytes) */
+    memoryRequest: number;
+}
+
+/**
+ * Node diagnostics result
+ */
+export interface NodeDiagnostics {
+    /** Node basic information */
+    nodeInfo: {
+        name: string;
+        ready: boolean;
+        roles: string[];
+        unschedulable: boolean;
+        taints: string[];
+        kubeletVersion: string;
+        containerRuntime: string;
+        osImage: string;
+        kernelVersion: string;
+        controlPlaneVersion?: string;
+    };
+
+    /** Node conditions */
+    conditions: {
+        type: string;
+        status: string;
+        reason?: string;
+        message?: string;
+        lastTransitionTime?: string;
+    }[];
+
+    /** Allocatable vs requested */
+    capacity: {
+        cpu: { allocatable: number; requested: number; limits: number };
+        memory: { allocatable: number; requested: number; limits: number };
+        pods: { allocatable: number; running: number };
+    };
+
+    /** Pods scheduled on the node */
+    pods: NodePodStatus[];
+
+    /** Recent node events */
+    events: K8sEvent[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Diagnosis summary */
+    summary: string;
+}
+
+/**
+ * Stored result of a diagnose-pod / full-diagnosis run
+ */
+export interface HealthSnapshot {
+    /** cluster (full-diagnosis) or pod (diagnose-pod) */
+    kind: 'cluster' | 'pod';
+
+    /** Kube context the snapshot was taken in */
+    context: string;
+
+    /** "*" (whole cluster), "ns-<namespace>", or "namespace/pod" */
+    target: string;
+
+    /** ISO timestamp */
+    timestamp: string;
+
+    /** Health score (0-100) */
+    score: number;
+
+    /** Detected issues (without solutions and events) */
+    issues: Pick<DiagnosticIssue, 'type' | 'severity' | 'message' | 'resource'>[];
+
+    /** Restart count per container, keyed "namespace/pod/container" */
+    restarts: Record<string, number>;
+}
+
+/**
+ * Difference between two snapshots
+ */
+export interface SnapshotDiff {
+    /** Older snapshot */
+    previous: HealthSnapshot;
+
+    /** Newer snapshot */
+    current: HealthSnapshot;
+
+    /** current.score - previous.score */
+    scoreDelta: number;
+
+    /** Issues only in the current snapshot */
+    newIssues: HealthSnapshot['issues'];
+
+    /** Issues only in the previous snapshot */
+    resolvedIssues: HealthSnapshot['issues'];
+
+    /** Containers whose restart count increased */
+    restartGrowth: { container: string; previous: number; current: number }[];
+}
+
+/**
+ * Deprecated / removed API version (bundled table entry)
+ */
+export interface DeprecatedApi {
+    /** Deprecated apiVersion, e.g. "extensions/v1beta1" */
+    apiVersion: string;
+
+    /** Kind */
+    kind: string;
+
+    /** Kubernetes minor version that deprecated it, e.g. "1.14" */
+    deprecatedIn: string;
+
+    /** Kubernetes minor version that stopped serving it */
+    removedIn: string;
+
+    /** apiVersion to migrate to (absent if the API was dropped without replacement) */
+    replacement?: string;
+
+    /** Migration notes */
+    notes?: string;
+}
+
+/**
+ * Live object that was written with a deprecated API version
+ */
+export interface DeprecatedApiHit {
+    /** Kind */
+    kind: string;
+
+    /** Object name */
+    name: string;
+
+    /** Namespace ('' for cluster-scoped) */
+    namespace: string;
+
+    /** Where the old apiVersion was found: last-applied annotation or managedFields manager */
+    source: string;
+
+    /** Removed by the target version (otherwise only deprecated) */
+    removed: boolean;
+
+    /** Matching table entry */
+    api: DeprecatedApi;
+}
+
+/**
+ * Deprecated API scan result
+ */
+export interface DeprecatedApiScan {
+    /** API server version, e.g. "1.29" */
+    serverVersion: string;
+
+    /** Version checked against (next minor by default) */
+    targetVersion: string;
+
+    /** Deprecated group versions the API server still serves */
+    servedDeprecated: string[];
+
+    /** Objects written with deprecated API versions */
+    hits: DeprecatedApiHit[];
+
+    /** Cluster-scoped kinds left out because the scan was limited to a namespace */
+    clusterScopedSkipped: string[];
+
+    /** Detected issues (one per apiVersion/kind) */
+    issues: DiagnosticIssue[];
+
+    /** Scan summary */
+    summary: string;
+}
+
+/**
+ * Parsed TLS certificate from a Secret
+ */
+export interface CertificateInfo {
+    /** Secret name */
+    secretName: string;
+
+    /** Namespace */
+    namespace: string;
+
+    /** Leaf certificate subject */
+    subject: string;
+
+    /** Leaf certificate issuer */
+    issuer: string;
+
+    /** DNS names from subjectAltName */
+    dnsNames: string[];
+
+    /** ISO timestamp */
+    notBefore: string;
+
+    /** ISO timestamp */
+    notAfter: string;
+
+    /** Days until expiry (negative if expired) */
+    daysRemaining: number;
+
+    /** Certificates in tls.crt (leaf + intermediates) */
+    chainLength: number;
+
+    /** Ingresses using this secret ("name: host, host") */
+    ingresses: string[];
+}
+
+/**
+ * TLS certificate scan result
+ */
+export interface CertificateScan {
+    /** Successfully parsed certificates */
+    certificates: CertificateInfo[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Scan summary */
+    summary: string;
+}
+
+/**
+ * Lightweight per-namespace health summary
+ */
+export interface NamespaceReportCard {
+    /** Namespace */
+    namespace: string;
+
+    /** Score (0-100) */
+    score: number;
+
+    /** Pod phase counts */
+    pods: {
+        total: number;
+        running: number;
+        pending: number;
+        failed: number;
+        succeeded: number;
+        crashLooping: number;
+    };
+
+    /** Sum of container restarts */
+    restarts: number;
+
+    /** Container hygiene */
+    containers: {
+        total: number;
+        /** No resources.limits at all */
+        missingLimits: number;
+        /** Long-running containers without readiness or liveness probe */
+        missingProbes: number;
+    };
+
+    /** Warning events (counting repeats) */
+    warningEvents: number;
+
+    /** Largest deduction, e.g. "2 CrashLooping pod(s): api-7d9f, worker-0" */
+    topIssue?: string;
+
+    /** Deductions that make up the score */
+    scoreBreakdown: ScoreDeduction[];
+}
+
+/**
+ * Nodes a workload can be placed on
+ */
+export interface WorkloadPlacement {
+    /** Deployment or StatefulSet */
+    kind: string;
+
+    /** Workload name */
+    name: string;
+
+    /** Namespace */
+    namespace: string;
+
+    /** Desired replicas */
+    replicas: number;
+
+    /** Nodes matching taints/tolerations, nodeSelector and required node affinity */
+    eligibleNodes: string[];
+
+    /** Eligible nodes that are also Ready and not cordoned */
+    availableNodes: string[];
+}
+
+/**
+ * Taint / toleration / node affinity audit
+ */
+export interface PlacementAudit {
+    /** Nodes in the cluster */
+    nodeCount: number;
+
+    /** Audited workloads */
+    workloads: WorkloadPlacement[];
+
+    /** Detected issues */
+    issues: DiagnosticIssue[];
+
+    /** Audit summary */
+    summary: string;
+}
+
+/**
+ * Why a container restarted
+ */
+export type RestartCause =
+    | 'OOMKilled'
+    | 'NodeOOM'
+    | 'LivenessProbe'
+    | 'StartupProbe'
+    | 'Eviction'
+    | 'Preemption'
+    | 'SpecChange'
+    | 'ApplicationError'
+    | 'Completed'
+    | 'ExternalKill'
+    | 'Unknown';
+
+/**
+ * Restart(s) of a container attributed to one cause
+ */
+export interface RestartAttribution {
+    /** Container name */
+    container: string;
+
+    /** Attributed cause */
+    cause: RestartCause;
+
+    /** How sure the attribution is (high: direct signal, low: inferred) */
+    confidence: 'high' | 'medium' | 'low';
+
+    /** Restarts attributed (a current termination counts as one) */
+    count: number;
+
+    /** Exit code (most recent termination only) */
+    exitCode?: number;
+
+    /** Termination time, or last event time for event-based attributions */
+    time?: string;
+
+    /** Signals the attribution is based on */
+    evidence: string[];
+}
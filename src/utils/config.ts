@@ -0,0 +1,152 @@
+/**
+ * User configuration
+ *
+ * Loaded once from $K8S_DOCTOR_CONFIG or ~/.k8s-doctor.json (JSON).
+ * Every field is optional and falls back to the defaults below
+ *
+ * @author zerry
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+
+/** Default health score deductions */
+export const DEFAULT_SCORE_WEIGHTS = {
+    pod: {
+        /** Points lost for pod phase */
+        phaseFailed: 100,
+        phaseUnknown: 50,
+        phasePending: 30,
+        /** Points lost per issue, by severity */
+        critical: 30,
+        high: 20,
+        medium: 10,
+        low: 5,
+    },
+    cluster: {
+        /** Points lost per % of nodes not Ready */
+        nodeNotReadyPercent: 0.5,
+        /** Points lost per % of pods not Running */
+        podNotRunningPercent: 0.3,
+        /** Points lost per CrashLooping pod (on top of its issue) */
+        crashLoopPod: 5,
+        /** Points lost per issue, by severity */
+        critical: 10,
+        high: 5,
+        medium: 2,
+        low: 0,
+        /** Points lost per CPU/memory requested or used % at or above the threshold */
+        utilizationHigh: 5,
+        utilizationHighThreshold: 85,
+        utilizationCritical: 10,
+        utilizationCriticalThreshold: 95,
+    },
+    namespace: {
+        /** Points lost per CrashLooping / Failed / Pending pod */
+        crashLoopPod: 10,
+        failedPod: 5,
+        pendingPod: 3,
+        /** Points lost per container restart, capped */
+        restart: 0.5,
+        restartCap: 20,
+        /** Points lost per % of containers without limits / probes */
+        missingLimitsPercent: 0.2,
+        missingProbesPercent: 0.2,
+        /** Points lost per Warning event, capped */
+        warningEvent: 0.2,
+        warningEventCap: 20,
+    },
+};
+
+export type ScoreWeights = typeof DEFAULT_SCORE_WEIGHTS;
+
+/** Default snapshot history settings */
+export const DEFAULT_HISTORY_CONFIG = {
+    /** Snapshot directory (one subdirectory per kube context) */
+    directory: join(homedir(), '.k8s-doctor', 'history'),
+    /** Snapshots kept per kind and target in each context, oldest are pruned */
+    maxSnapshots: 200,
+    /** Set false to stop recording snapshots */
+    enabled: true,
+};
+
+export type HistoryConfig = typeof DEFAULT_HISTORY_CONFIG;
+
+const weight = z.number().min(0);
+
+const configSchema = z.object({
+    scoring: z.object({
+        pod: z.object(
+            Object.fromEntries(Object.keys(DEFAULT_SCORE_WEIGHTS.pod).map(k => [k, weight])) as Record<keyof ScoreWeights['pod'], typeof weight>
+        ).partial().strict().optional(),
+        cluster: z.object(
+            Object.fromEntries(Object.keys(DEFAULT_SCORE_WEIGHTS.cluster).map(k => [k, weight])) as Record<keyof ScoreWeights['cluster'], typeof weight>
+        ).partial().strict().optional(),
+        namespace: z.object(
+            Object.fromEntries(Object.keys(DEFAULT_SCORE_WEIGHTS.namespace).map(k => [k, weight])) as Record<keyof ScoreWeights['namespace'], typeof weight>
+        ).partial().strict().optional(),
+    }).strict().optional(),
+    history: z.object({
+        directory: z.string().min(1),
+        maxSnapshots: z.number().int().min(1),
+        enabled: z.boolean(),
+    }).partial().strict().optional(),
+});
+
+type Config = z.infer<typeof configSchema>;
+
+let config: Config | null = null;
+
+/**
+ * Get the config file path
+ */
+export function getConfigPath(): string {
+    return process.env.K8S_DOCTOR_CONFIG || join(homedir(), '.k8s-doctor.json');
+}
+
+/**
+ * Load the config file once
+ *
+ * An invalid config file is reported and ignored so diagnostics keep working
+ */
+function loadConfig(): Config {
+    if (config) {
+        return config;
+    }
+
+    config = {};
+    const path = getConfigPath();
+    if (!existsSync(path)) {
+        return config;
+    }
+
+    try {
+        config = configSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+        console.error(`✅ Loaded config from ${path}`);
+    } catch (error: any) {
+        console.error(`❌ Invalid config ${path}, using defaults:`, error.message);
+    }
+
+    return config;
+}
+
+/**
+ * Get health score weights (defaults merged with the config file)
+ */
+export function getScoreWeights(): ScoreWeights {
+    const { scoring } = loadConfig();
+    return {
+        pod: { ...DEFAULT_SCORE_WEIGHTS.pod, ...scoring?.pod },
+        cluster: { ...DEFAULT_SCORE_WEIGHTS.cluster, ...scoring?.cluster },
+        namespace: { ...DEFAULT_SCORE_WEIGHTS.namespace, ...scoring?.namespace },
+    };
+}
+
+/**
+ * Get snapshot history settings (defaults merged with the config file)
+ */
+export function getHistoryConfig(): HistoryConfig {
+    return { ...DEFAULT_HISTORY_CONFIG, ...loadConfig().history };
+}
@@ -0,0 +1,243 @@
+/**
+ * Cron schedule utilities
+ *
+ * Minimal 5-field cron parser, enough to compute when a CronJob should have run
+ *
+ * @author zerry
+ */
+
+interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** Day-of-month field was restricted (not "*") */
+    domRestricted: boolean;
+    /** Day-of-week field was restricted (not "*") */
+    dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Stop searching after this many minutes (~ 5 years) */
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * Parse cron expression
+ *
+ * Throws on invalid expressions
+ */
+export function parseCron(expression: string): CronFields {
+    let expr = expression.trim();
+
+    // CronJob schedules may carry a TZ prefix (CRON_TZ=UTC 0 * * * *)
+    expr = expr.replace(/^(CRON_)?TZ=\S+\s+/, '');
+    expr = MACROS[expr.toLowerCase()] || expr;
+
+    const parts = expr.split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const daysOfWeek = parseField(parts[4], 0, 7, DAY_NAMES);
+    // 7 is also Sunday
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        minutes: parseField(parts[0], 0, 59),
+        hours: parseField(parts[1], 0, 23),
+        daysOfMonth: parseField(parts[2], 1, 31),
+        months: parseField(parts[3], 1, 12, MONTH_NAMES),
+        daysOfWeek,
+        domRestricted: !parts[2].startsWith('*') && parts[2] !== '?',
+        dowRestricted: !parts[4].startsWith('*') && parts[4] !== '?',
+    };
+}
+
+/**
+ * Find the first scheduled time strictly after the given date
+ *
+ * Schedule is evaluated in UTC unless a time zone is given.
+ * Like the CronJob controller, wall-clock times skipped by a DST jump never fire.
+ * Returns undefined if nothing matches within the search window
+ */
+export function getNextSchedule(expression: string, after: Date, timeZone?: string): Date | undefined {
+    const fields = parseCron(expression);
+
+    // Evaluate on wall-clock time of the zone, then map back to a real instant
+    const offset = getTimeZoneOffset(after, timeZone);
+    const time = new Date(after.getTime() + offset);
+    time.setUTCSeconds(0, 0);
+    time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_MINUTES * 60_000;
+
+    while (time.getTime() <= limit) {
+        if (!fields.months.has(time.getUTCMonth() + 1)) {
+            time.setUTCMonth(time.getUTCMonth() + 1, 1);
+            time.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(fields, time)) {
+            time.setUTCDate(time.getUTCDate() + 1);
+            time.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!fields.hours.has(time.getUTCHours())) {
+            time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!fields.minutes.has(time.getUTCMinutes())) {
+            time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+
+        const instant = wallClockToInstant(time, timeZone);
+        if (instant && instant.getTime() > after.getTime()) {
+            return instant;
+        }
+        time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    }
+
+    return undefined;
+}
+
+/**
+ * List scheduled times in (after, until]
+ *
+ * @param max Maximum number of times to return
+ */
+export function getSchedulesBetween(
+    expression: string,
+    after: Date,
+    until: Date,
+    timeZone?: string,
+    max: number = 100
+): Date[] {
+    const schedules: Date[] = [];
+    let current: Date | undefined = after;
+
+    while (schedules.length < max) {
+        current = getNextSchedule(expression, current, timeZone);
+        if (!current || current.getTime() > until.getTime()) break;
+        schedules.push(current);
+    }
+
+    return schedules;
+}
+
+// ===== Helper functions =====
+
+/**
+ * Offset of a time zone from UTC in milliseconds at the given instant
+ */
+function getTimeZoneOffset(date: Date, timeZone?: string): number {
+    if (!timeZone || timeZone === 'UTC' || timeZone === 'Etc/UTC') {
+        return 0;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(date);
+
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+    return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert wall-clock time (stored in UTC fields) of a zone to the real instant
+ *
+ * Returns undefined for times inside a DST gap. Ambiguous times resolve to the first occurrence
+ */
+function wallClockToInstant(wallClock: Date, timeZone?: string): Date | undefined {
+    let instant = wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone);
+    instant = wallClock.getTime() - getTimeZoneOffset(new Date(instant), timeZone);
+
+    return instant + getTimeZoneOffset(new Date(instant), timeZone) === wallClock.getTime()
+        ? new Date(instant)
+        : undefined;
+}
+
+function matchesDay(fields: CronFields, time: Date): boolean {
+    const domMatch = fields.daysOfMonth.has(time.getUTCDate());
+    const dowMatch = fields.daysOfWeek.has(time.getUTCDay());
+
+    // When both are restricted, either one matching is enough (standard cron behavior)
+    if (fields.domRestricted && fields.dowRestricted) {
+        return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [rangePart, stepPart] = part.split('/');
+        const step = stepPart ? parseInt(stepPart) : 1;
+        if (isNaN(step) || step <= 0) {
+            throw new Error(`Invalid cron step "${part}"`);
+        }
+
+        let start: number;
+        let end: number;
+
+        if (rangePart === '*' || rangePart === '?') {
+            start = min;
+            end = max;
+        } else if (rangePart.includes('-')) {
+            const [from, to] = rangePart.split('-');
+            start = parseValue(from, names, min);
+            end = parseValue(to, names, min);
+        } else {
+            start = parseValue(rangePart, names, min);
+            // "5/15" means from 5 to max every 15
+            end = stepPart ? max : start;
+        }
+
+        if (start < min || end > max || start > end) {
+            throw new Error(`Invalid cron field "${field}"`);
+        }
+
+        for (let v = start; v <= end; v += step) {
+            values.add(v);
+        }
+    }
+
+    return values;
+}
+
+function parseValue(value: string, names: string[] | undefined, min: number): number {
+    const index = names?.indexOf(value.toLowerCase()) ?? -1;
+    if (index >= 0) {
+        // Month names start at 1, day names at 0
+        return index + min;
+    }
+
+    const parsed = parseInt(value);
+    if (isNaN(parsed)) {
+        throw new Error(`Invalid cron value "${value}"`);
+    }
+    return parsed;
+}
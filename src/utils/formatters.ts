@@ -4,7 +4,8 @@
  * @author zerry
  */
 
-import type { DiagnosticIssue, Severity } from '../types.js';
+import type { DiagnosticIssue, ScoreDeduction, Severity } from '../types.js';
+import { getConfigPath } from './config.js';
 
 /**
  * Convert bytes to human-readable format
@@ -114,6 +115,24 @@ export function formatIssues(issues: DiagnosticIssue[]): string {
     return result;
 }
 
+/**
+ * Issue count block that closes every diagnosis summary
+ */
+export function formatIssueCounts(issues: DiagnosticIssue[]): string {
+    if (issues.length === 0) {
+        return '✅ No issues found!';
+    }
+
+    let result = `⚠️ ${issues.length} issue(s) detected.\n`;
+    const labels = [['critical', 'Critical'], ['high', 'High'], ['medium', 'Medium']] as const;
+    for (const [severity, label] of labels) {
+        const count = issues.filter(i => i.severity === severity).length;
+        if (count > 0) result += `  - ${label}: ${count}\n`;
+    }
+
+    return result;
+}
+
 /**
  * Output diagnosis results as clean table
  */
@@ -139,7 +158,36 @@ export function createTable(headers: string[], rows: string[][]): string {
  * 85% -> "████████░░ 85%"
  */
 export function progressBar(percent: number, width: number = 10): string {
-    const filled = Math.round((percent / 100) * width);
+    // Usage can exceed 100% (e.g. CPU bursting above requests)
+    const filled = Math.max(0, Math.min(width, Math.round((percent / 100) * width)));
     const empty = width - filled;
     return '█'.repeat(filled) + '░'.repeat(empty) + ` ${percent.toFixed(1)}%`;
 }
+
+/**
+ * Format health score deductions as markdown table
+ *
+ * Explains "why is this 40/100" rule by rule
+ */
+export function formatScoreBreakdown(score: number, breakdown: ScoreDeduction[]): string {
+    if (breakdown.length === 0) {
+        return `No deductions - ${score.toFixed(1)}/100\n`;
+    }
+
+    const total = breakdown.reduce((sum, d) => sum + d.points, 0);
+    let result = createTable(
+        ['Rule', 'Weight', 'Points', 'Issue'],
+        breakdown.map(d => [
+            d.rule,
+            String(d.weight),
+            `-${Number(d.points.toFixed(1))}`,
+            (d.issue || '-').replace(/\|/g, '\\|'),
+        ])
+    );
+    result += `\n100 - ${Number(total.toFixed(1))} = **${score.toFixed(1)}/100**`;
+    if (total > 100) {
+        result += ' (floored at 0)';
+    }
+    result += `\n\n_Weights are configurable in ${getConfigPath()}_\n`;
+    return result;
+}
@@ -0,0 +1,197 @@
+/**
+ * Health snapshot history
+ *
+ * Every diagnose-pod / full-diagnosis result is stored as a JSON file:
+ *   <directory>/<context>/<timestamp>_<kind>_<target>.json
+ * so later runs can answer "what got worse since this morning"
+ *
+ * @author zerry
+ */
+
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ClusterHealth, DiagnosticIssue, HealthSnapshot, PodDiagnostics, SnapshotDiff } from '../types.js';
+import { getHistoryConfig } from './config.js';
+
+/** Target of a whole-cluster snapshot (namespace targets are "ns-<name>") */
+const CLUSTER_TARGET = '*';
+
+/**
+ * Build a snapshot from full-diagnosis result
+ */
+export function snapshotFromClusterHealth(context: string, health: ClusterHealth, namespace?: string): HealthSnapshot {
+    return {
+        kind: 'cluster',
+        context,
+        target: namespace ? `ns-${namespace}` : CLUSTER_TARGET,
+        timestamp: new Date().toISOString(),
+        score: health.overallScore,
+        issues: toSnapshotIssues([
+            ...health.nodeHealth.issues,
+            ...health.podHealth.issues,
+            ...(health.controlPlane?.issues || []),
+        ]),
+        restarts: health.podHealth.restarts,
+    };
+}
+
+/**
+ * Build a snapshot from diagnose-pod result
+ */
+export function snapshotFromPodDiagnostics(context: string, diagnostics: PodDiagnostics): HealthSnapshot {
+    const { name, namespace } = diagnostics.podInfo;
+    const restarts: Record<string, number> = {};
+    for (const container of [...diagnostics.initContainers, ...diagnostics.containers]) {
+        restarts[`${namespace}/${name}/${container.name}`] = container.restartCount;
+    }
+
+    return {
+        kind: 'pod',
+        context,
+        target: `${namespace}/${name}`,
+        timestamp: new Date().toISOString(),
+        score: diagnostics.healthScore,
+        issues: toSnapshotIssues(diagnostics.issues),
+        restarts,
+    };
+}
+
+/**
+ * Store a snapshot and prune the oldest beyond maxSnapshots
+ *
+ * Pruning is per kind and target so frequent pod runs never evict cluster snapshots
+ *
+ * @returns File path, or undefined when history is disabled
+ */
+export async function saveSnapshot(snapshot: HealthSnapshot): Promise<string | undefined> {
+    const { directory, maxSnapshots, enabled } = getHistoryConfig();
+    if (!enabled) {
+        return undefined;
+    }
+
+    const dir = join(directory, sanitize(snapshot.context));
+    await mkdir(dir, { recursive: true });
+
+    const suffix = `_${snapshot.kind}_${sanitize(snapshot.target)}.json`;
+    const file = join(dir, `${snapshot.timestamp.replace(/:/g, '-')}${suffix}`);
+    // Write then rename, so a concurrent reader never sees a half-written file
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await writeFile(tmpFile, JSON.stringify(snapshot, null, 2));
+    await rename(tmpFile, file);
+
+    const files = (await readdir(dir)).filter(f => f.endsWith(suffix)).sort();
+    for (const old of files.slice(0, Math.max(0, files.length - maxSnapshots))) {
+        await unlink(join(dir, old)).catch(() => undefined);
+    }
+
+    return file;
+}
+
+/**
+ * Find the newest snapshot of a target taken at or before a given time
+ *
+ * @param before Upper bound (default: any time)
+ */
+export async function findSnapshot(
+    context: string,
+    kind: HealthSnapshot['kind'],
+    target: string,
+    before?: Date
+): Promise<HealthSnapshot | undefined> {
+    const dir = join(getHistoryConfig().directory, sanitize(context));
+    const suffix = `_${kind}_${sanitize(target)}.json`;
+
+    let files: string[];
+    try {
+        files = (await readdir(dir)).filter(f => f.endsWith(suffix)).sort().reverse();
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return undefined;
+        throw error;
+    }
+
+    for (const file of files) {
+        let snapshot: HealthSnapshot;
+        try {
+            snapshot = JSON.parse(await readFile(join(dir, file), 'utf8'));
+        } catch (error: any) {
+            console.error(`[findSnapshot] Skipping unreadable snapshot ${file}:`, error.message);
+            continue;
+        }
+        if (!before || new Date(snapshot.timestamp) <= before) {
+            return snapshot;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Human-readable snapshot target
+ */
+export function describeTarget(snapshot: HealthSnapshot): string {
+    if (snapshot.kind === 'pod') return `pod ${snapshot.target}`;
+    if (snapshot.target === CLUSTER_TARGET) return 'the whole cluster';
+    return `namespace ${snapshot.target.replace(/^ns-/, '')}`;
+}
+
+/**
+ * Compare two snapshots
+ *
+ * Issues are matched by type and resource, since messages carry changing numbers
+ */
+export function diffSnapshots(previous: HealthSnapshot, current: HealthSnapshot): SnapshotDiff {
+    const previousKeys = new Set(previous.issues.map(issueKey));
+    const currentKeys = new Set(current.issues.map(issueKey));
+
+    const restartGrowth: SnapshotDiff['restartGrowth'] = [];
+    for (const [container, count] of Object.entries(current.restarts)) {
+        const before = previous.restarts[container];
+        if (before !== undefined && count > before) {
+            restartGrowth.push({ container, previous: before, current: count });
+        }
+    }
+    restartGrowth.sort((a, b) => (b.current - b.previous) - (a.current - a.previous));
+
+    return {
+        previous,
+        current,
+        scoreDelta: current.score - previous.score,
+        newIssues: current.issues.filter(i => !previousKeys.has(issueKey(i))),
+        resolvedIssues: previous.issues.filter(i => !currentKeys.has(issueKey(i))),
+        restartGrowth,
+    };
+}
+
+/**
+ * Parse "since" as a duration ago (30m, 6h, 2d) or an ISO timestamp
+ */
+export function parseSince(since: string): Date {
+    const duration = since.trim().match(/^(\d+)\s*([mhd])$/i);
+    if (duration) {
+        const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[duration[2].toLowerCase() as 'm' | 'h' | 'd'];
+        return new Date(Date.now() - parseInt(duration[1]) * unit);
+    }
+
+    const date = new Date(since);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid "since": ${since} (use e.g. 30m, 6h, 2d or an ISO timestamp)`);
+    }
+    return date;
+}
+
+// ===== Helper functions =====
+
+function toSnapshotIssues(issues: DiagnosticIssue[]): HealthSnapshot['issues'] {
+    return issues.map(({ type, severity, message, resource }) => ({ type, severity, message, resource }));
+}
+
+function issueKey(issue: HealthSnapshot['issues'][number]): string {
+    const r = issue.resource;
+    return `${issue.type}|${r ? `${r.kind}/${r.namespace || ''}/${r.name}` : issue.message}`;
+}
+
+/**
+ * Make a context or target name safe as a file name
+ */
+function sanitize(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
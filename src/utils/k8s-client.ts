@@ -4,6 +4,8 @@
  * @author zerry
  */
 
+import * as http from 'node:http';
+import * as https from 'node:https';
 import * as k8s from '@kubernetes/client-node';
 
 /**
@@ -43,13 +45,54 @@ export function createK8sClients(kc: k8s.KubeConfig) {
         core: kc.makeApiClient(k8s.CoreV1Api),
         apps: kc.makeApiClient(k8s.AppsV1Api),
         batch: kc.makeApiClient(k8s.BatchV1Api),
+        autoscaling: kc.makeApiClient(k8s.AutoscalingV2Api),
         networking: kc.makeApiClient(k8s.NetworkingV1Api),
+        discovery: kc.makeApiClient(k8s.DiscoveryV1Api),
         storage: kc.makeApiClient(k8s.StorageV1Api),
+        coordination: kc.makeApiClient(k8s.CoordinationV1Api),
+        version: kc.makeApiClient(k8s.VersionApi),
+        apis: kc.makeApiClient(k8s.ApisApi),
+        objects: k8s.KubernetesObjectApi.makeApiClient(kc),
         log: new k8s.Log(kc),
         metrics: new k8s.Metrics(kc),
     };
 }
 
+/**
+ * GET a raw API server path
+ *
+ * For non-resource endpoints (/readyz, /livez, ...) that have no generated client.
+ * Auth, TLS and proxy settings come from the kubeconfig like any other API call
+ */
+export async function rawGet(
+    kc: k8s.KubeConfig,
+    path: string,
+    timeoutMs: number = 10000
+): Promise<{ statusCode: number; body: string }> {
+    const cluster = kc.getCurrentCluster();
+    if (!cluster) {
+        throw new Error('No current cluster in kubeconfig');
+    }
+
+    // Keep any path prefix of the server URL (e.g. Rancher proxy)
+    const url = new URL(cluster.server.replace(/\/+$/, '') + path);
+    const opts: https.RequestOptions = { method: 'GET', timeout: timeoutMs };
+    await kc.applyToHTTPSOptions(opts);
+
+    const transport = url.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+        const req = transport.request(url, opts, (res) => {
+            let body = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk) => { body += chunk; });
+            res.on('end', () => resolve({ statusCode: res.statusCode || 0, body }));
+        });
+        req.on('timeout', () => req.destroy(new Error(`GET ${path} timed out after ${timeoutMs}ms`)));
+        req.on('error', reject);
+        req.end();
+    });
+}
+
 /**
  * Validate namespace
  *
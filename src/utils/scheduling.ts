@@ -0,0 +1,119 @@
+/**
+ * Scheduling predicate utilities
+ *
+ * Offline evaluation of taints/tolerations and node selectors,
+ * same rules the scheduler applies
+ *
+ * @author zerry
+ */
+
+import type * as k8s from '@kubernetes/client-node';
+
+/**
+ * Check if a single toleration tolerates a taint
+ */
+export function toleratesTaint(toleration: k8s.V1Toleration, taint: k8s.V1Taint): boolean {
+    // Empty effect matches all effects
+    if (toleration.effect && toleration.effect !== taint.effect) {
+        return false;
+    }
+
+    // Empty key with Exists matches all taints
+    if (!toleration.key) {
+        return toleration.operator === 'Exists';
+    }
+
+    if (toleration.key !== taint.key) {
+        return false;
+    }
+
+    if (toleration.operator === 'Exists') {
+        return true;
+    }
+
+    // Default operator is Equal
+    return (toleration.value || '') === (taint.value || '');
+}
+
+/**
+ * Find taints not tolerated by any toleration
+ *
+ * Only NoSchedule/NoExecute taints block scheduling (PreferNoSchedule is a soft preference)
+ */
+export function findUntoleratedTaints(
+    taints: k8s.V1Taint[],
+    tolerations: k8s.V1Toleration[],
+    effects: string[] = ['NoSchedule', 'NoExecute']
+): k8s.V1Taint[] {
+    return taints.filter(taint =>
+        effects.includes(taint.effect) &&
+        !tolerations.some(t => toleratesTaint(t, taint))
+    );
+}
+
+/**
+ * Check spec.nodeSelector against node labels
+ */
+export function matchesNodeSelector(
+    nodeSelector: Record<string, string> | undefined,
+    labels: Record<string, string>
+): boolean {
+    return Object.entries(nodeSelector || {}).every(([key, value]) => labels[key] === value);
+}
+
+/**
+ * Check requiredDuringSchedulingIgnoredDuringExecution node affinity
+ *
+ * nodeSelectorTerms are ORed, expressions inside a term are ANDed.
+ * A term with no expressions and no fields matches no nodes
+ */
+export function matchesRequiredNodeAffinity(affinity: k8s.V1Affinity | undefined, node: k8s.V1Node): boolean {
+    const terms = affinity?.nodeAffinity?.requiredDuringSchedulingIgnoredDuringExecution?.nodeSelectorTerms;
+    if (!terms || terms.length === 0) {
+        return true;
+    }
+
+    const labels = node.metadata?.labels || {};
+    const fields: Record<string, string> = { 'metadata.name': node.metadata?.name || '' };
+
+    return terms.some(term =>
+        ((term.matchExpressions?.length || 0) + (term.matchFields?.length || 0)) > 0 &&
+        (term.matchExpressions || []).every(expr => matchesNodeSelectorRequirement(expr, labels)) &&
+        (term.matchFields || []).every(expr => matchesNodeSelectorRequirement(expr, fields))
+    );
+}
+
+/**
+ * Evaluate single node selector requirement
+ */
+export function matchesNodeSelectorRequirement(
+    requirement: k8s.V1NodeSelectorRequirement,
+    labels: Record<string, string>
+): boolean {
+    const value = labels[requirement.key];
+    const values = requirement.values || [];
+
+    switch (requirement.operator) {
+        case 'In':
+            return value !== undefined && values.includes(value);
+        case 'NotIn':
+            return value === undefined || !values.includes(value);
+        case 'Exists':
+            return value !== undefined;
+        case 'DoesNotExist':
+            return value === undefined;
+        case 'Gt':
+            return value !== undefined && parseInt(value) > parseInt(values[0]);
+        case 'Lt':
+            return value !== undefined && parseInt(value) < parseInt(values[0]);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Format taint as "key=value:Effect"
+ */
+export function formatTaint(taint: k8s.V1Taint): string {
+    return `${taint.key}${taint.value ? `=${taint.value}` : ''}:${taint.effect}`;
+}
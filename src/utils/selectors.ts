@@ -0,0 +1,60 @@
+/**
+ * Label selector utilities
+ *
+ * @author zerry
+ */
+
+import type * as k8s from '@kubernetes/client-node';
+
+/**
+ * Convert label selector object to API query string
+ *
+ * { matchLabels: { app: 'web' } } -> "app=web"
+ */
+export function labelSelectorToString(selector?: k8s.V1LabelSelector): string {
+    if (!selector) return '';
+
+    const parts: string[] = [];
+
+    for (const [key, value] of Object.entries(selector.matchLabels || {})) {
+        parts.push(`${key}=${value}`);
+    }
+
+    for (const expr of selector.matchExpressions || []) {
+        const values = (expr.values || []).join(',');
+        if (expr.operator === 'In') parts.push(`${expr.key} in (${values})`);
+        else if (expr.operator === 'NotIn') parts.push(`${expr.key} notin (${values})`);
+        else if (expr.operator === 'Exists') parts.push(expr.key);
+        else if (expr.operator === 'DoesNotExist') parts.push(`!${expr.key}`);
+    }
+
+    return parts.join(',');
+}
+
+/**
+ * Evaluate label selector against labels
+ *
+ * Empty selector matches everything
+ */
+export function matchesLabelSelector(
+    selector: k8s.V1LabelSelector | undefined,
+    labels: Record<string, string> = {}
+): boolean {
+    if (!selector) return true;
+
+    for (const [key, value] of Object.entries(selector.matchLabels || {})) {
+        if (labels[key] !== value) return false;
+    }
+
+    for (const expr of selector.matchExpressions || []) {
+        const value = labels[expr.key];
+        const values = expr.values || [];
+
+        if (expr.operator === 'In' && (value === undefined || !values.includes(value))) return false;
+        if (expr.operator === 'NotIn' && value !== undefined && values.includes(value)) return false;
+        if (expr.operator === 'Exists' && value === undefined) return false;
+        if (expr.operator === 'DoesNotExist' && value !== undefined) return false;
+    }
+
+    return true;
+}
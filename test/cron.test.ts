@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextSchedule, getSchedulesBetween, parseCron } from '../src/utils/cron.js';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe('parseCron', () => {
+    it('expands step ranges', () => {
+        const fields = parseCron('*/15 1-10/3 * * *');
+        assert.deepEqual(sorted(fields.minutes), [0, 15, 30, 45]);
+        assert.deepEqual(sorted(fields.hours), [1, 4, 7, 10]);
+    });
+
+    it('expands a start value with a step to the field maximum', () => {
+        assert.deepEqual(sorted(parseCron('5/20 * * * *').minutes), [5, 25, 45]);
+    });
+
+    it('treats 7 as Sunday', () => {
+        assert.deepEqual(sorted(parseCron('0 0 * * 7').daysOfWeek), [0]);
+        assert.deepEqual(sorted(parseCron('0 0 * * 5-7').daysOfWeek), [0, 5, 6]);
+    });
+
+    it('accepts month and day names', () => {
+        const fields = parseCron('0 0 * JAN,mar-may MON-FRI');
+        assert.deepEqual(sorted(fields.months), [1, 3, 4, 5]);
+        assert.deepEqual(sorted(fields.daysOfWeek), [1, 2, 3, 4, 5]);
+    });
+
+    it('expands macros', () => {
+        const fields = parseCron('@daily');
+        assert.deepEqual(sorted(fields.minutes), [0]);
+        assert.deepEqual(sorted(fields.hours), [0]);
+        assert.equal(fields.daysOfMonth.size, 31);
+        assert.equal(fields.domRestricted, false);
+    });
+
+    it('strips a TZ prefix', () => {
+        assert.deepEqual(sorted(parseCron('CRON_TZ=UTC 0 3 * * *').hours), [3]);
+    });
+
+    it('rejects malformed expressions', () => {
+        assert.throws(() => parseCron('* * * *'), /expected 5 fields/);
+        assert.throws(() => parseCron('*/0 * * * *'), /Invalid cron step/);
+    });
+});
+
+describe('getNextSchedule', () => {
+    it('returns the next minute strictly after the given time', () => {
+        const next = getNextSchedule('* * * * *', new Date('2026-05-01T10:00:00Z'));
+        assert.equal(next?.toISOString(), '2026-05-01T10:01:00.000Z');
+    });
+
+    it('runs @daily at midnight UTC', () => {
+        const next = getNextSchedule('@daily', new Date('2026-05-01T10:00:00Z'));
+        assert.equal(next?.toISOString(), '2026-05-02T00:00:00.000Z');
+    });
+
+    it('matches either day field when both are restricted', () => {
+        // 2026-05-01 is a Friday; the 15th comes after the next Monday
+        const next = getNextSchedule('0 0 15 * MON', new Date('2026-05-01T10:00:00Z'));
+        assert.equal(next?.toISOString(), '2026-05-04T00:00:00.000Z');
+    });
+
+    it('returns undefined for a date that never exists', () => {
+        assert.equal(getNextSchedule('0 0 30 2 *', new Date('2026-01-01T00:00:00Z')), undefined);
+    });
+
+    it('evaluates the schedule in the given time zone', () => {
+        // 09:00 KST on July 1st is exactly the start time, so the next run is a day later
+        const next = getNextSchedule('0 9 * * *', new Date('2026-07-01T00:00:00Z'), 'Asia/Seoul');
+        assert.equal(next?.toISOString(), '2026-07-02T00:00:00.000Z');
+    });
+
+    it('skips a time inside the spring-forward gap', () => {
+        // 2026-03-08 02:00 EST jumps to 03:00 EDT in New York
+        const next = getNextSchedule('30 2 * * *', new Date('2026-03-08T05:00:00Z'), 'America/New_York');
+        assert.equal(next?.toISOString(), '2026-03-09T06:30:00.000Z');
+    });
+
+    it('uses the new offset for runs after a DST change', () => {
+        const next = getNextSchedule('0 12 * * *', new Date('2026-03-08T05:00:00Z'), 'America/New_York');
+        assert.equal(next?.toISOString(), '2026-03-08T16:00:00.000Z');
+    });
+});
+
+describe('getSchedulesBetween', () => {
+    it('lists runs in (after, until]', () => {
+        const runs = getSchedulesBetween(
+            '0 */6 * * *',
+            new Date('2026-05-01T00:00:00Z'),
+            new Date('2026-05-01T18:00:00Z')
+        );
+        assert.deepEqual(runs.map(d => d.toISOString()), [
+            '2026-05-01T06:00:00.000Z',
+            '2026-05-01T12:00:00.000Z',
+            '2026-05-01T18:00:00.000Z',
+        ]);
+    });
+
+    it('stops at max', () => {
+        const runs = getSchedulesBetween(
+            '* * * * *',
+            new Date('2026-05-01T00:00:00Z'),
+            new Date('2026-05-02T00:00:00Z'),
+            undefined,
+            5
+        );
+        assert.equal(runs.length, 5);
+    });
+
+    it('has no run on the spring-forward day for a time in the gap', () => {
+        const runs = getSchedulesBetween(
+            '30 2 * * *',
+            new Date('2026-03-07T00:00:00Z'),
+            new Date('2026-03-10T00:00:00Z'),
+            'America/New_York'
+        );
+        assert.deepEqual(runs.map(d => d.toISOString()), [
+            '2026-03-07T07:30:00.000Z',
+            '2026-03-09T06:30:00.000Z',
+        ]);
+    });
+});
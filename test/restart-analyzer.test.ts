@@ -0,0 +1,229 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type * as k8s from '@kubernetes/client-node';
+import { attributeRestarts } from '../src/analyzers/restart-analyzer.js';
+import type { K8sEvent } from '../src/types.js';
+
+const FINISHED_AT = '2026-10-01T12:00:00Z';
+
+function makePod(options: {
+    memoryLimit?: string;
+    restartCount?: number;
+    state?: k8s.V1ContainerState;
+    lastTerminated?: Partial<k8s.V1ContainerStateTerminated>;
+    conditions?: k8s.V1PodCondition[];
+    reason?: string;
+}): k8s.V1Pod {
+    return {
+        metadata: { name: 'api', namespace: 'prod' },
+        spec: {
+            containers: [{
+                name: 'app',
+                resources: options.memoryLimit ? { limits: { memory: options.memoryLimit } } : {},
+            }],
+        },
+        status: {
+            reason: options.reason,
+            conditions: options.conditions,
+            containerStatuses: [{
+                name: 'app',
+                image: 'api:1',
+                imageID: '',
+                ready: false,
+                restartCount: options.restartCount ?? 1,
+                state: options.state,
+                lastState: options.lastTerminated
+                    ? { terminated: { exitCode: 137, finishedAt: new Date(FINISHED_AT), ...options.lastTerminated } }
+                    : undefined,
+            }],
+        },
+    };
+}
+
+function event(reason: string, message: string, at: string = FINISHED_AT, count: number = 1): K8sEvent {
+    return {
+        type: 'Warning',
+        reason,
+        message,
+        count,
+        firstTimestamp: at,
+        lastTimestamp: at,
+        fieldPath: 'spec.containers{app}',
+    };
+}
+
+const currentTermination: k8s.V1ContainerState = {
+    terminated: { exitCode: 143, finishedAt: new Date(FINISHED_AT) },
+};
+
+describe('attributeRestarts', () => {
+    describe('pod-level disruption', () => {
+        it('uses the DisruptionTarget condition for the current termination', () => {
+            const pod = makePod({
+                restartCount: 0,
+                state: currentTermination,
+                conditions: [{ type: 'DisruptionTarget', status: 'True', reason: 'PreemptionByScheduler', message: 'preempted by high-prio' }],
+            });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'Preemption');
+            assert.equal(attribution.confidence, 'high');
+            assert.match(attribution.evidence.join('\n'), /DisruptionTarget: PreemptionByScheduler/);
+        });
+
+        it('falls back to a Preempted event', () => {
+            const pod = makePod({ restartCount: 0, state: currentTermination });
+
+            const [attribution] = attributeRestarts(pod, [event('Preempted', 'Preempted by prod/critical')], []);
+            assert.equal(attribution.cause, 'Preemption');
+            assert.equal(attribution.confidence, 'high');
+        });
+
+        it('reports an evicted pod as Eviction', () => {
+            const pod = makePod({ restartCount: 0, state: currentTermination, reason: 'Evicted' });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'Eviction');
+            assert.equal(attribution.confidence, 'high');
+        });
+
+        it('ignores pod-level disruption for earlier restarts', () => {
+            const pod = makePod({
+                lastTerminated: { exitCode: 1 },
+                conditions: [{ type: 'DisruptionTarget', status: 'True', reason: 'EvictionByEvictionAPI' }],
+            });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'ApplicationError');
+        });
+    });
+
+    describe('OOM kills', () => {
+        it('blames the container limit when one is set', () => {
+            const pod = makePod({ memoryLimit: '256Mi', lastTerminated: { reason: 'OOMKilled' } });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'OOMKilled');
+            assert.equal(attribution.confidence, 'high');
+            assert.match(attribution.evidence.join('\n'), /Memory limit: 256Mi/);
+        });
+
+        it('blames node memory when no limit is set', () => {
+            const pod = makePod({ lastTerminated: { reason: 'OOMKilled' } });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'NodeOOM');
+            assert.equal(attribution.confidence, 'medium');
+        });
+
+        it('blames node memory when a system OOM happened at the same time', () => {
+            const pod = makePod({ memoryLimit: '256Mi', lastTerminated: { reason: 'OOMKilled' } });
+            const nodeEvents = [event('SystemOOM', 'System OOM encountered, victim process: java', '2026-10-01T11:59:50Z')];
+
+            const [attribution] = attributeRestarts(pod, [], nodeEvents);
+            assert.equal(attribution.cause, 'NodeOOM');
+            assert.equal(attribution.confidence, 'high');
+        });
+
+        it('ignores a system OOM outside the time window', () => {
+            const pod = makePod({ memoryLimit: '256Mi', lastTerminated: { reason: 'OOMKilled' } });
+            const nodeEvents = [event('SystemOOM', 'System OOM encountered', '2026-10-01T09:00:00Z')];
+
+            const [attribution] = attributeRestarts(pod, [], nodeEvents);
+            assert.equal(attribution.cause, 'OOMKilled');
+        });
+
+        it('attributes an unreported OOM to the node with medium confidence', () => {
+            const pod = makePod({ lastTerminated: { exitCode: 137 } });
+            const nodeEvents = [event('OOMKilling', 'Out of memory: Killed process 4242 (java)', '2026-10-01T12:00:20Z')];
+
+            const [attribution] = attributeRestarts(pod, [], nodeEvents);
+            assert.equal(attribution.cause, 'NodeOOM');
+            assert.equal(attribution.confidence, 'medium');
+        });
+    });
+
+    describe('probe kills', () => {
+        it('matches a liveness kill at the termination time', () => {
+            const pod = makePod({ lastTerminated: { exitCode: 137 } });
+            const events = [
+                event('Unhealthy', 'Liveness probe failed: HTTP probe failed with statuscode: 503', '2026-10-01T11:59:30Z', 3),
+                event('Killing', 'Container app failed liveness probe, will be restarted', '2026-10-01T11:59:31Z'),
+            ];
+
+            const [attribution] = attributeRestarts(pod, events, []);
+            assert.equal(attribution.cause, 'LivenessProbe');
+            assert.equal(attribution.confidence, 'high');
+            assert.match(attribution.evidence.join('\n'), /Liveness probe failures: HTTP 503/);
+        });
+
+        it('lowers confidence when the kill is not near the termination', () => {
+            const pod = makePod({ lastTerminated: { exitCode: 137 } });
+            const events = [event('Killing', 'Container app failed liveness probe, will be restarted', '2026-10-01T08:00:00Z')];
+
+            const [attribution] = attributeRestarts(pod, events, []);
+            assert.equal(attribution.cause, 'LivenessProbe');
+            assert.equal(attribution.confidence, 'medium');
+        });
+
+        it('does not blame a distant probe kill for a non-signal exit', () => {
+            const pod = makePod({ lastTerminated: { exitCode: 1 } });
+            const events = [event('Killing', 'Container app failed liveness probe, will be restarted', '2026-10-01T08:00:00Z')];
+
+            const [attribution] = attributeRestarts(pod, events, []);
+            assert.equal(attribution.cause, 'ApplicationError');
+        });
+    });
+
+    describe('exit codes', () => {
+        it('reports a signal with no other record as ExternalKill with low confidence', () => {
+            const pod = makePod({ lastTerminated: { exitCode: 137 } });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'ExternalKill');
+            assert.equal(attribution.confidence, 'low');
+        });
+
+        it('reports exit code 0 as Completed', () => {
+            const pod = makePod({ lastTerminated: { exitCode: 0 } });
+
+            const [attribution] = attributeRestarts(pod, [], []);
+            assert.equal(attribution.cause, 'Completed');
+        });
+    });
+
+    describe('older restarts', () => {
+        it('back-fills from kill events, then from the most recent cause', () => {
+            const pod = makePod({ restartCount: 5, memoryLimit: '256Mi', lastTerminated: { reason: 'OOMKilled' } });
+            const events = [event('Killing', 'Container app failed liveness probe, will be restarted', '2026-10-01T11:00:00Z', 2)];
+
+            const attributions = attributeRestarts(pod, events, []);
+            assert.deepEqual(
+                attributions.map(a => [a.cause, a.confidence, a.count]),
+                [
+                    ['OOMKilled', 'high', 1],
+                    ['LivenessProbe', 'high', 2],
+                    ['OOMKilled', 'low', 2],
+                ]
+            );
+        });
+
+        it('does not count the most recent kill twice', () => {
+            const pod = makePod({ restartCount: 3, lastTerminated: { exitCode: 137 } });
+            const events = [event('Killing', 'Container app failed liveness probe, will be restarted', FINISHED_AT, 3)];
+
+            const attributions = attributeRestarts(pod, events, []);
+            assert.deepEqual(
+                attributions.map(a => [a.cause, a.count]),
+                [['LivenessProbe', 1], ['LivenessProbe', 2]]
+            );
+        });
+
+        it('reports Unknown when nothing was recorded', () => {
+            const pod = makePod({ restartCount: 2 });
+
+            const attributions = attributeRestarts(pod, [], []);
+            assert.deepEqual(attributions.map(a => [a.cause, a.confidence, a.count]), [['Unknown', 'low', 2]]);
+        });
+    });
+});